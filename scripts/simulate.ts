@@ -0,0 +1,96 @@
+// Battle balance simulator CLI
+// Runs seeded headless battles and prints win rate, rounds, damage and XP per hero.
+//
+// Usage:
+//   npm run simulate -- --battle ashen_chapel_battle --level 2 --runs 500
+//
+// Options:
+//   --battle <id>      Battle config in public/data/battles (default: abandoned_distillery)
+//   --level <n>        Hero level (default: the battle's heroLevel, then 1)
+//   --runs <n>         Number of seeded runs (default: 100)
+//   --seed <n>         First seed - run i uses seed + i (default: 1)
+//   --policy <name>    Hero policy: ai | basic_attack (default: ai)
+//   --max-rounds <n>   Rounds before a battle counts as a draw (default: 50)
+//   --difficulty <d>   AI difficulty: easy | normal | hard (default: the battle's aiDifficulty, then normal)
+//   --json             Print the summary as JSON
+
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { runSimulations, HeroPolicyName, SimulationData } from '../src/systems/BattleSimulator';
+import { AIDifficulty } from '../src/data/BattleTypes';
+
+const DATA_DIR = resolve(process.cwd(), 'public/data');
+
+function readJson<T>(relativePath: string): T {
+  return JSON.parse(readFileSync(resolve(DATA_DIR, relativePath), 'utf8')) as T;
+}
+
+function parseArgs(argv: string[]): Record<string, string | true> {
+  const args: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const next = argv[i + 1];
+    if (next !== undefined && !next.startsWith('--')) {
+      args[arg.slice(2)] = next;
+      i++;
+    } else {
+      args[arg.slice(2)] = true;
+    }
+  }
+  return args;
+}
+
+function numberArg(value: string | true | undefined): number | undefined {
+  if (typeof value !== 'string') return undefined;
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed)) {
+    throw new Error(`Expected a number, got "${value}"`);
+  }
+  return parsed;
+}
+
+const args = parseArgs(process.argv.slice(2));
+const battleId = typeof args.battle === 'string' ? args.battle : 'abandoned_distillery';
+const policy = (typeof args.policy === 'string' ? args.policy : 'ai') as HeroPolicyName;
+if (policy !== 'ai' && policy !== 'basic_attack') {
+  throw new Error(`Unknown hero policy "${policy}" (expected ai or basic_attack)`);
+}
+const difficulty = typeof args.difficulty === 'string' ? args.difficulty as AIDifficulty : undefined;
+if (difficulty !== undefined && difficulty !== 'easy' && difficulty !== 'normal' && difficulty !== 'hard') {
+  throw new Error(`Unknown AI difficulty "${difficulty}" (expected easy, normal or hard)`);
+}
+
+const data: SimulationData = {
+  battle: readJson(`battles/${battleId}.json`),
+  heroes: readJson('heroes.json'),
+  enemies: readJson('enemies.json'),
+  abilities: readJson('abilities.json'),
+  summons: readJson('summons.json'),
+  allies: readJson('allies.json'),
+};
+
+const summary = runSimulations(data, numberArg(args.runs) ?? 100, {
+  heroLevel: numberArg(args.level),
+  heroPolicy: policy,
+  maxRounds: numberArg(args['max-rounds']),
+  baseSeed: numberArg(args.seed),
+  difficulty,
+});
+
+if (args.json) {
+  console.log(JSON.stringify(summary, null, 2));
+} else {
+  const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
+  console.log(`Battle: ${summary.battleId} (hero level ${summary.heroLevel}, ${summary.runs} runs, policy ${policy})`);
+  console.log(`Win rate: ${pct(summary.winRate)}  (W ${summary.wins} / L ${summary.losses} / D ${summary.draws})`);
+  console.log(`Average rounds: ${summary.averageRounds.toFixed(2)}`);
+  console.log(`Average enemies routed: ${summary.averageEnemiesRouted.toFixed(2)}`);
+  console.log('');
+  console.log('Hero       Damage     XP');
+  for (const heroId of Object.keys(summary.averageDamageByHero)) {
+    const damage = summary.averageDamageByHero[heroId].toFixed(1).padStart(6);
+    const xp = (summary.averageXPByHero[heroId] ?? 0).toFixed(1).padStart(6);
+    console.log(`${heroId.padEnd(10)} ${damage} ${xp}`);
+  }
+}
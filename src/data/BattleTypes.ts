@@ -11,6 +11,7 @@ export enum TerrainType {
   Normal = 0, // Walkable, 1 movement cost
   Difficult = 1, // Walkable, 2 movement cost (e.g., sand, mud)
   Impassable = 2, // Cannot walk through (walls, water)
+  Cover = 3, // Walkable, 2 movement cost, partial cover against ranged attacks (low walls, crates)
 }
 
 // =============================================================================
@@ -29,30 +30,18 @@ export type StatusEffectType =
   // Rifthaven buffs
   | 'rage'
   | 'inspired'
-  | 'dodge';
+  | 'dodge'
+  | 'disengaged' // Disengage action - moves without provoking opportunity attacks
+  | 'shielded'; // Shield of Faith reaction
 
+// Behaviour for each type (ticking, stat modifiers, stacking) lives in StatusEffectRegistry
 export interface StatusEffect {
   type: StatusEffectType;
   duration: number; // Turns remaining, -1 for permanent/until triggered
   value?: number; // For effects with numeric values (damage per turn, defense bonus, etc.)
+  breaksOn?: string[]; // Overrides the registry's break conditions (from the ability's effect)
 }
 
-// Status effect border colors for UI
-export const STATUS_COLORS: Record<StatusEffectType, number> = {
-  poison: 0x00ff00, // Green
-  held: 0x008080, // Teal
-  barkskin: 0x8b4513, // Brown
-  hidden: 0x800080, // Purple
-  exposed: 0xffa500, // Orange
-  immobilized: 0x0000ff, // Blue
-  unconscious: 0x000000, // Black
-  entangle_zone: 0x228b22, // Forest Green
-  // Rifthaven buff colors
-  rage: 0xff0000, // Red (aggressive)
-  inspired: 0xffd700, // Gold (heroic)
-  dodge: 0x00bfff, // Light blue (evasive)
-};
-
 // =============================================================================
 // Ability System
 // =============================================================================
@@ -62,7 +51,7 @@ export type TargetType = 'enemy' | 'ally' | 'self' | 'area';
 export type CostType = 'mana' | 'ki' | null;
 
 export interface AbilityEffect {
-  type: StatusEffectType | 'remove_status';
+  type: StatusEffectType | 'remove_status' | 'summon';
   // For status effects
   defenseBonus?: number;
   defensePenalty?: number;
@@ -73,12 +62,32 @@ export interface AbilityEffect {
   breaksOn?: string[]; // e.g. ["attack", "damage_taken"]
   duration?: number | string; // For simple duration effects
   count?: number; // For remove_status
+  summon?: string; // For summon: summon template ID (duration is its lifetime in rounds)
   // For zone effects (e.g. Entangle)
   createsDifficultTerrain?: boolean;
   damageOnEntry?: boolean;
   damageOnTurnStart?: boolean;
 }
 
+// Moves the target when the ability lands (an attack hits or the target fails its save)
+export interface ForcedMovement {
+  type: 'push' | 'pull'; // Away from or toward the user
+  distance: number; // Tiles
+  collisionDamage?: string; // Dice notation when a wall or unit stops the target (default: COLLISION_DAMAGE)
+}
+
+// What lets a unit use a reaction ability outside its turn
+export type ReactionTrigger =
+  | 'targeted_by_spell' // An enemy spell targets the unit or an ally in range - resolves before the spell
+  | 'targeted_by_melee' // An enemy melee attack targets the unit or an ally in range - resolves before the attack roll
+  | 'hit_by_melee' // An enemy melee attack hits the unit or an ally in range
+  | 'ally_downed'; // An ally in range drops to 0 HP
+
+export interface Reaction {
+  trigger: ReactionTrigger;
+  counters?: boolean; // The triggering spell fails against its target (Counterspell)
+}
+
 export interface Ability {
   id: string;
   name: string;
@@ -94,6 +103,8 @@ export interface Ability {
   bonusDamageIfHidden?: string; // For Azrael's Psychic Dagger
   effect?: AbilityEffect;
   areaSize?: { width: number; height: number }; // For AOE abilities
+  forcedMovement?: ForcedMovement; // Push or pull the target
+  reaction?: Reaction; // Only used out of turn, when the trigger happens (one reaction per round)
   levelRequired?: number; // Minimum hero level to use this ability
 }
 
@@ -154,8 +165,65 @@ export interface EnemyData {
   magic: number;
   resilience: number;
   speed: number;
+  mana?: number; // For costed abilities (enemies without any can only use free ones)
+  maxMana?: number;
+  ki?: number;
+  maxKi?: number;
   abilities: string[];
   flying?: boolean; // Flying units ignore terrain restrictions
+  size?: number; // Footprint width and height in tiles (2 = 2x2), default 1
+  phases?: BossPhase[]; // Ability swaps as HP drops, in order
+  ai?: AIProfile; // How the AI plays this unit - by default it goes for the closest hero
+  morale?: MoraleProfile; // When it gives up the fight - by default it fights to the end
+}
+
+// Target tie-breakers, most important first:
+//   lowHp - lowest HP % first, lowDef - lowest defense, closest - nearest,
+//   healer - units with a healing ability
+export type AITargetPriority = 'lowHp' | 'lowDef' | 'closest' | 'healer';
+
+// When an AI unit joins the fight:
+//   standard   - once a hero is within an aggro range that grows each round
+//   aggressive - always, and it likes standing next to several heroes
+//   guard      - only once a hero is within the base aggro range
+export type AIAggroStyle = 'standard' | 'aggressive' | 'guard';
+
+// How well AI units plan their turns - easier AI searches fewer plans and picks them less
+// reliably (see AIController's DIFFICULTY_SETTINGS)
+export type AIDifficulty = 'easy' | 'normal' | 'hard';
+
+// Personality for an AI-controlled unit, set per enemy in enemies.json
+export interface AIProfile {
+  targetPriority?: AITargetPriority[]; // Default ['closest']
+  aggro?: AIAggroStyle; // Default 'standard'
+  retreatBelowPercent?: number; // Backs away from heroes once HP drops below this % of max HP
+  preferredRange?: number; // Distance it tries to keep from the nearest hero (ranged units and casters)
+  preferredAbilities?: string[]; // Ability IDs it reaches for first when they're usable, in order
+}
+
+// What an enemy does once its morale breaks:
+//   flee      - runs for the nearest exit tile (any map edge by default) and leaves play there
+//   surrender - leaves play on the spot
+export type MoraleResponse = 'flee' | 'surrender';
+
+// When an enemy gives up the fight - it breaks as soon as either threshold is passed
+export interface MoraleProfile {
+  belowPercent?: number; // Its HP drops below this % of max HP
+  alliesLostPercent?: number; // At least this % of its side is down, fled or surrendered
+  response: MoraleResponse;
+}
+
+// Battle overrides for enemy morale
+export interface BattleMorale {
+  enemies?: Record<string, MoraleProfile | false>; // By enemy type ID, replacing enemies.json (false: fights to the end)
+  exits?: Position[]; // Tiles fleeing enemies escape from (default: every map edge tile)
+}
+
+// A boss phase - the enemy switches to these abilities once its HP falls below the threshold
+export interface BossPhase {
+  belowPercent: number; // Enters the phase when HP drops below this % of max HP
+  name: string; // e.g. "Enraged", announced when the phase starts
+  abilities: string[];
 }
 
 // =============================================================================
@@ -164,10 +232,15 @@ export interface EnemyData {
 
 export interface EnemyPlacement {
   type: string; // Enemy type ID
-  x: number;
+  x: number; // Top-left tile for enemies bigger than one tile
   y: number;
 }
 
+// AI-controlled unit fighting on the heroes' side (e.g. an NPC or rescued prisoner)
+export interface AllyPlacement extends EnemyPlacement {
+  protect?: boolean; // The battle is lost if this unit goes down
+}
+
 export interface Position {
   x: number;
   y: number;
@@ -179,6 +252,7 @@ export interface PropPlacement {
   x: number;
   y: number;
   rotation?: number; // Degrees rotation (e.g. 90 for lying down)
+  cover?: boolean; // Gives partial cover like Cover terrain (doesn't block movement)
 }
 
 // Treasure chest placement
@@ -209,30 +283,134 @@ export interface NPCPlacement {
   facing?: 'north' | 'south' | 'east' | 'west'; // Optional facing direction (default: south)
 }
 
+// Inclusive rectangle of grid tiles
+export interface TileBounds {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+// Object heroes interact with for an interact objective (levers, wards, ...)
+export interface ObjectivePlacement {
+  id: string; // Unique object ID within the battle
+  name: string; // Display name (e.g. "Ward Stone")
+  x: number;
+  y: number;
+}
+
+// Defeating every enemy always wins and losing every hero always loses -
+// other conditions add another way to win or lose on top of that
+export type VictoryCondition =
+  | 'defeat_all'
+  | { type: 'survive'; rounds: number } // Still standing at the end of round N
+  | { type: 'reach_exit'; bounds: TileBounds; heroes: 'any' | 'all' } // Living heroes standing in the exit area
+  | { type: 'defeat_boss'; unitId: string } // Unit instance ID (e.g. "cultist_enforcer_1")
+  | { type: 'interact'; objects: ObjectivePlacement[]; count: number; beforeRound: number }; // Lost if not done before round X
+
+export type DefeatCondition =
+  | 'all_heroes_down'
+  | { type: 'protect'; unitId: string }; // Lost if this unit goes down
+
+// What brings a reinforcement wave onto the field
+export type ReinforcementTrigger =
+  | { type: 'round'; round: number } // Arrives at the start of round N
+  | { type: 'region'; bounds: TileBounds } // A living hero stands in the area
+  | { type: 'enemy_hp'; unitId: string; belowPercent: number }; // Unit drops below X% of max HP
+
+// Enemies that join mid-battle. The heroes can't win a defeat-all battle while a wave is still to come.
+export interface ReinforcementWave {
+  id: string; // Unique wave ID within the battle
+  trigger: ReinforcementTrigger;
+  enemies: EnemyPlacement[]; // Spawn tiles - a blocked tile falls back to the nearest free one
+  dialogue?: CutsceneLine; // Optional line shown as the wave arrives
+}
+
+// Shared plan for a group of enemies:
+//   focus_fire - every member goes for the same hero, the most hurt one
+//   surround   - members converge on the most isolated hero and flank it
+//   screen     - casters (units without a weapon attack) stay behind the other members
+//   defend     - members stay beside one member and go for whoever comes closest to it
+export type EnemyGroupTactic = 'focus_fire' | 'surround' | 'screen' | 'defend';
+
+// Enemies that join the fight together and follow one plan. The whole group aggroes as soon
+// as any member does, instead of each unit waiting for heroes to come within its own range.
+export interface EnemyGroup {
+  id: string; // Unique group ID within the battle
+  tactic: EnemyGroupTactic;
+  members: string[]; // Unit instance IDs (e.g. "ledgerman_mook_2"), reinforcements included
+  defend?: string; // Member the others protect (defend only)
+}
+
+// What starts a scripted dialogue event
+export type ScriptedEventTrigger =
+  | { type: 'round_start'; round: number }
+  | { type: 'unit_hp'; unitId: string; belowPercent: number } // Unit is hit and left below X% of max HP
+  | { type: 'unit_defeated'; unitId: string }
+  | { type: 'hero_enters_tile'; x: number; y: number } // Any hero moves onto or through the tile
+  | { type: 'ability_used'; abilityId: string; unitId?: string }; // First use (by a given unit if set)
+
+// Dialogue played mid-battle while the fight waits. Each event fires at most once per battle.
+export interface ScriptedEvent {
+  id: string; // Unique event ID within the battle
+  trigger: ScriptedEventTrigger;
+  dialogue: CutsceneLine[];
+  setFlags?: string[]; // Game flags set to true once the dialogue has played
+}
+
+// Machinery and terrain hazards. The type picks the look; behaviour comes from the fields.
+export type HazardType = 'fire' | 'acid' | 'steam_vent' | 'pressure_plate';
+
+// Hazard placed by the battle config (becomes a permanent zone when the battle starts)
+export interface HazardPlacement {
+  id: string; // Unique hazard ID within the battle
+  type: HazardType;
+  name: string; // Display name (e.g. "Steam Vent")
+  bounds: TileBounds;
+  triggers: ZoneTrigger[]; // When a unit on the hazard is affected
+  damage?: string; // Dice notation (no damage if unset)
+  damageOnSave?: 'half' | 'none'; // Default: 'half'
+  status?: { type: StatusEffectType; duration: number; value?: number }; // Applied on a failed save
+  cycle?: ZoneCycle; // Switches on and off by round (always on if unset)
+  once?: boolean; // Switches off after it first goes off (e.g. a pressure plate trap)
+  startsInactive?: boolean; // Off until a cycle or switch turns it on
+  switch?: ObjectivePlacement; // Lever a unit can interact with to toggle the hazard
+}
+
 export interface BattleConfig {
   id: string;
   displayName: string;
   mapImage: string;
   gridWidth: number;
   gridHeight: number;
-  terrain: number[][]; // 0=walkable, 1=difficult, 2=impassable
+  terrain: number[][]; // 0=walkable, 1=difficult, 2=impassable, 3=cover
+  elevation?: number[][]; // Optional height level per tile (default 0 - see GridManager.MAX_CLIMB_HEIGHT)
   heroStartPositions: Position[];
   enemies: EnemyPlacement[];
+  allies?: AllyPlacement[]; // Optional AI-controlled units on the heroes' side
+  reinforcements?: ReinforcementWave[]; // Optional mid-battle enemy waves
+  enemyGroups?: EnemyGroup[]; // Optional enemies that aggro together and share a plan
+  morale?: BattleMorale; // Optional per-battle morale overrides and exit tiles
+  scriptedEvents?: ScriptedEvent[]; // Optional mid-battle dialogue
+  hazards?: HazardPlacement[]; // Optional fire, acid, steam vents and traps
   props?: PropPlacement[]; // Optional static decorations
   chests?: ChestPlacement[]; // Optional treasure chests (lootable after battle)
   npcs?: NPCPlacement[]; // Optional NPCs for exploration mode
   heroPositions?: Position[]; // Positions for party members (not the player) in exploration mode
-  victoryCondition: 'defeat_all';
-  defeatCondition: 'all_heroes_down';
+  victoryCondition?: VictoryCondition; // Default: 'defeat_all'
+  defeatCondition?: DefeatCondition; // Default: 'all_heroes_down'
   introCutscene?: string[] | CutsceneLine[]; // Simple strings or character-specific dialogue
   victoryCutscene?: string[] | CutsceneLine[]; // Simple strings or character-specific dialogue
-  postVictoryScene?: string; // Special scene ID to trigger after victory cutscene
+  postVictoryScene?: 'meris_encounter' | 'quetzi_rescue'; // Special scene to play after the victory cutscene
+  explorationShrine?: Position; // Save shrine spawned for post-battle exploration
   heroFacing?: 'north' | 'south' | 'east' | 'west'; // Initial facing direction for heroes (default: 'south')
   enemyFacing?: 'north' | 'south' | 'east' | 'west'; // Initial facing direction for enemies (default: 'north')
+  zoneOfControl?: boolean; // Leaving an enemy's reach provokes a free melee attack (default: off)
+  aiDifficulty?: AIDifficulty; // How well AI units plan their turns (default: 'normal')
   heroLevel?: number; // Override hero level for testing (default: use saved state or 1)
   postVictoryMode?: 'return_to_town' | 'return_to_sparkworks' | 'explore' | 'transition' | 'to_be_continued'; // What happens after victory (default: return_to_town)
   exitTrigger?: {
-    bounds: { x1: number; y1: number; x2: number; y2: number };
+    bounds: TileBounds;
     destination: string; // Where to go: 'travel', 'town', 'post_battle_town', 'BattleScene:<map>', or a specific scene name
     fallbackDestination?: string; // Where to go if the battle destination was already completed
   };
@@ -240,13 +418,18 @@ export interface BattleConfig {
   playerStart?: { x: number; y: number }; // Player start position for exploration mode (if different from battle end position)
   healPartyOnVictory?: boolean; // Fully heal the party after victory (for story moments before shrines are available)
   heroDialogues?: Record<string, string[]>; // Per-map hero dialogue overrides for exploration mode
+  seed?: number; // Fixed RNG seed for reproducible fights (default: random per battle)
 }
 
 // =============================================================================
 // Runtime Unit (in-battle state)
 // =============================================================================
 
-export type Team = 'hero' | 'enemy';
+// 'ally' units fight alongside the heroes but are controlled by the AI
+export type Team = 'hero' | 'ally' | 'enemy';
+
+// The two sides a battle is won or lost between - allies share the heroes' result
+export type Side = Exclude<Team, 'ally'>;
 
 export interface Unit {
   id: string; // Unique instance ID (e.g. "vicas" or "imp_1")
@@ -281,10 +464,23 @@ export interface Unit {
   hasMoved: boolean;
   hasActed: boolean;
   actionsRemaining: number; // Usually 1, but Azrael can have 2
+  reactionsRemaining: number; // Reaction abilities left this round
 
   // Special flags
   special?: string;
   flying?: boolean; // Flying units ignore terrain restrictions
+  size?: number; // Footprint width and height in tiles, anchored at gridX/gridY (top-left)
+
+  // Boss phases (enemies only)
+  phases?: BossPhase[];
+  phasesEntered?: number; // How many of the phases have started
+
+  summon?: SummonInfo; // Set on units an ability summoned mid-battle
+  protect?: boolean; // Allies whose defeat loses the battle
+  ai?: AIProfile; // AI personality for enemies, allies and summons
+  morale?: MoraleProfile; // When the enemy gives up the fight
+  broken?: MoraleResponse; // Set once its morale breaks (fleeing units stay in play until they escape)
+  brokenBy?: string; // Hero credited when it leaves play - the hero whose action broke it
 
   // Equipment (heroes only)
   equipment?: string; // Equipped item ID
@@ -300,6 +496,13 @@ export interface Unit {
   conditionMarkerContainer?: Phaser.GameObjects.Container;
 }
 
+// A summoned unit fights for its summoner's team until it expires or the summoner goes
+// down - it earns and gives no XP and doesn't count when checking if its team is defeated
+export interface SummonInfo {
+  summonerId: string;
+  expiresAfterRound: number; // Dismissed at the end of this round
+}
+
 // =============================================================================
 // Combat Resolution
 // =============================================================================
@@ -310,15 +513,48 @@ export interface DiceRoll {
   total: number;
   modifier?: number;
   finalTotal?: number; // total + modifier
+  terms?: DiceTermRoll[]; // Per-term breakdown for compound notation
+}
+
+// One term of a rolled dice expression, e.g. "2d20kh1", "+2" or "+ATK"
+export interface DiceTermRoll {
+  term: string;
+  kind: 'dice' | 'constant' | 'stat';
+  sign: 1 | -1;
+  rolls: number[]; // Every die rolled for this term, including explosions
+  kept: number[]; // Dice that count towards the value (after keep highest/lowest)
+  value: number; // Signed contribution to the final total
+}
+
+// Advantage rolls 2d20 and keeps the highest, disadvantage keeps the lowest
+export type RollMode = 'normal' | 'advantage' | 'disadvantage';
+
+// A single source of advantage/disadvantage on an attack, e.g. "Flanking"
+export interface RollModifier {
+  source: string;
+  effect: 'advantage' | 'disadvantage';
 }
 
+// Which side of the defender an attack comes from, judged by the defender's facing
+export type AttackAngle = 'front' | 'side' | 'rear';
+
 export interface AttackResult {
   attacker: Unit;
   defender: Unit;
   ability: Ability;
   attackRoll: DiceRoll;
-  targetNumber: number;
+  targetNumber: number; // Includes any cover bonus
+  coverBonus?: number; // Defense added because the defender was in partial cover
+  highGroundBonus?: number; // Attack added for striking from higher ground
+  attackAngle: AttackAngle;
+  facingBonus?: number; // Attack added for striking the defender's side or back
+  flanked?: boolean; // An ally of the attacker stood on the far side of the defender
   hit: boolean;
+  rollMode: RollMode; // Net result after advantage and disadvantage cancel out
+  modifiers: RollModifier[]; // Every modifier that applied, even if cancelled
+  naturalRoll: number; // The d20 that counted
+  critical: boolean; // Natural 20 - always hits, damage dice doubled
+  fumble: boolean; // Natural 1 - always misses
   damageRoll?: DiceRoll;
   totalDamage?: number;
   defenderNewHp?: number;
@@ -363,6 +599,7 @@ export type BattlePhase =
   | 'select_target' // Hero selecting ability target
   | 'executing_action' // Animation/resolution in progress
   | 'enemy_turn' // AI is deciding/acting
+  | 'cutscene' // Scripted dialogue playing mid-battle
   | 'round_end' // Processing end-of-round effects
   | 'victory' // Battle won
   | 'defeat' // Battle lost
@@ -370,32 +607,56 @@ export type BattlePhase =
 
 export interface BattleState {
   config: BattleConfig;
+  seed: number; // RNG seed - same seed + same inputs replays the same fight
   round: number;
   phase: BattlePhase;
   turnOrder: InitiativeEntry[];
   currentTurnIndex: number;
   units: Unit[];
   activeUnit: Unit | null;
-  selectedAbility: Ability | null;
-  highlightedTiles: Position[];
-  targetedUnit: Unit | null;
-  combatLog: string[];
+  zones: Zone[]; // Persistent area effects still on the field
+  roundsCompleted: number; // Rounds that have fully ended (survive objectives, deadlines)
+  interactedObjects: string[]; // Objective object IDs heroes have interacted with
+  arrivedWaves: string[]; // Reinforcement wave IDs that have already spawned
+  firedScriptedEvents: string[]; // Scripted event IDs that have already triggered
+  routedUnits: Unit[]; // Enemies that fled or surrendered - out of play, counted as defeated
+  winner: Side | null; // Set once a victory or defeat condition is met
 }
 
 // =============================================================================
-// Persistent Zones (e.g. Entangle)
+// Persistent Zones (Entangle and map hazards)
 // =============================================================================
 
+export type ZoneType = 'entangle' | HazardType;
+
+// When a zone affects a unit standing in it
+export type ZoneTrigger = 'entry' | 'turn_start';
+
+// Rounds a zone is on: within each period of rounds, the first activeRounds are on
+// (period 2 with 1 active round fires on rounds 1, 3, 5...)
+export interface ZoneCycle {
+  period: number;
+  activeRounds?: number; // Default: 1
+  offset?: number; // Rounds off before the pattern starts (default: 0)
+}
+
 export interface Zone {
-  id: string; // Unique zone ID
-  type: 'entangle'; // Zone type for different behaviors
+  id: string; // Unique zone ID (hazards use their config ID)
+  type: ZoneType;
+  name: string; // Display name for the combat log
   originX: number; // Top-left grid X
   originY: number; // Top-left grid Y
   width: number; // Zone width in tiles
   height: number; // Zone height in tiles
-  duration: number; // Rounds remaining
-  damage: string; // Dice notation for damage
+  duration?: number; // Rounds remaining (permanent if unset)
+  triggers: ZoneTrigger[];
+  damage?: string; // Dice notation for damage
   damageOnSave: 'half' | 'none'; // What happens on save
-  casterId: string; // Who created the zone (for XP tracking)
+  status?: { type: StatusEffectType; duration: number; value?: number }; // Applied on a failed save
+  active: boolean; // Inactive zones don't trigger
+  cycle?: ZoneCycle;
+  once?: boolean; // Switches off after first going off
+  switch?: ObjectivePlacement; // Lever that toggles the zone
+  casterId?: string; // Who created the zone (ability zones only)
   graphics?: Phaser.GameObjects.Graphics; // Visual outline
 }
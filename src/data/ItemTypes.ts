@@ -33,7 +33,7 @@ export type ItemEffectType =
 export interface ItemEffect {
   type: ItemEffectType;
   // For healing/restore effects
-  amount?: string | number; // Dice notation (e.g. "2d4") or flat number
+  amount?: string | number; // Dice notation (e.g. "2d4", "1d8+MAG" - stats are the user's) or flat number
   // For condition removal
   condition?: string; // Specific condition or "any"
   // For stat bonuses
@@ -4,11 +4,18 @@ import {
   Unit,
   HeroData,
   EnemyData,
+  Position,
   StatusEffect,
   StatusEffectType,
-  STATUS_COLORS,
   Team,
 } from '../data/BattleTypes';
+import { DiceStatContext } from '../systems/DiceParser';
+import {
+  STATUS_COLORS,
+  StatusBreakCondition,
+  StatusModifiedStat,
+  getStatusDefinition,
+} from '../systems/StatusEffectRegistry';
 
 // HP Bar constants
 const HP_BAR_WIDTH = 24;
@@ -16,14 +23,10 @@ const HP_BAR_HEIGHT = 4;
 const HP_BAR_OFFSET_Y = -18; // Above the unit sprite
 
 /**
- * Factory function to create a hero Unit from HeroData
+ * Build a hero Unit from HeroData without any display objects
+ * (used directly by the headless battle simulator)
  */
-export function createHeroUnit(
-  heroData: HeroData,
-  gridX: number,
-  gridY: number,
-  scene: Phaser.Scene
-): Unit {
+export function buildHeroUnit(heroData: HeroData, gridX: number, gridY: number): Unit {
   const unit: Unit = {
     id: heroData.id,
     dataId: heroData.id,
@@ -47,6 +50,7 @@ export function createHeroUnit(
     hasMoved: false,
     hasActed: false,
     actionsRemaining: 1,
+    reactionsRemaining: 1,
 
     portrait: heroData.portrait,
     special: heroData.special,
@@ -62,6 +66,20 @@ export function createHeroUnit(
     unit.maxKi = heroData.maxKi;
   }
 
+  return unit;
+}
+
+/**
+ * Factory function to create a hero Unit from HeroData
+ */
+export function createHeroUnit(
+  heroData: HeroData,
+  gridX: number,
+  gridY: number,
+  scene: Phaser.Scene
+): Unit {
+  const unit = buildHeroUnit(heroData, gridX, gridY);
+
   // Create sprite
   const pixelX = gridX * GAME_CONFIG.TILE_SIZE + GAME_CONFIG.TILE_SIZE / 2;
   const pixelY = gridY * GAME_CONFIG.TILE_SIZE + GAME_CONFIG.TILE_SIZE / 2;
@@ -74,16 +92,16 @@ export function createHeroUnit(
 }
 
 /**
- * Factory function to create an enemy Unit from EnemyData
+ * Build an enemy Unit from EnemyData without any display objects
+ * (used directly by the headless battle simulator)
  */
-export function createEnemyUnit(
+export function buildEnemyUnit(
   enemyData: EnemyData,
   instanceId: string,
   gridX: number,
-  gridY: number,
-  scene: Phaser.Scene
+  gridY: number
 ): Unit {
-  const unit: Unit = {
+  return {
     id: instanceId, // e.g., "imp_1", "lemure_2"
     dataId: enemyData.id,
     name: enemyData.name,
@@ -99,6 +117,10 @@ export function createEnemyUnit(
     magic: enemyData.magic,
     resilience: enemyData.resilience,
     speed: enemyData.speed,
+    currentMana: enemyData.mana,
+    maxMana: enemyData.maxMana ?? enemyData.mana,
+    currentKi: enemyData.ki,
+    maxKi: enemyData.maxKi ?? enemyData.ki,
 
     abilities: enemyData.abilities,
     statusEffects: [],
@@ -106,18 +128,41 @@ export function createEnemyUnit(
     hasMoved: false,
     hasActed: false,
     actionsRemaining: 1,
+    reactionsRemaining: 1,
     flying: enemyData.flying,
+    size: enemyData.size,
+    phases: enemyData.phases,
+    phasesEntered: enemyData.phases ? 0 : undefined,
+    ai: enemyData.ai,
+    morale: enemyData.morale,
   };
+}
+
+/**
+ * Factory function to create an enemy Unit from EnemyData
+ */
+export function createEnemyUnit(
+  enemyData: EnemyData,
+  instanceId: string,
+  gridX: number,
+  gridY: number,
+  scene: Phaser.Scene
+): Unit {
+  const unit = buildEnemyUnit(enemyData, instanceId, gridX, gridY);
+  createEnemySprite(unit, enemyData, scene);
+  return unit;
+}
 
+/**
+ * Give an enemy Unit its sprite on the tile it stands on
+ */
+export function createEnemySprite(unit: Unit, enemyData: EnemyData, scene: Phaser.Scene): void {
   // Create sprite - use _front suffix directly (matching hero behavior)
-  const pixelX = gridX * GAME_CONFIG.TILE_SIZE + GAME_CONFIG.TILE_SIZE / 2;
-  const pixelY = gridY * GAME_CONFIG.TILE_SIZE + GAME_CONFIG.TILE_SIZE / 2;
+  const { x: pixelX, y: pixelY } = getFootprintCenter(unit);
   unit.sprite = scene.add.sprite(pixelX, pixelY, `${enemyData.sprite}_front`);
   unit.sprite.setOrigin(0.5, 0.5);
-  // Scale sprite to fit tile
-  unit.sprite.setScale(GAME_CONFIG.TILE_SIZE / GAME_CONFIG.SPRITE_SIZE);
-
-  return unit;
+  // Scale sprite to fit its footprint (one tile, or 2x2 for bosses)
+  unit.sprite.setScale(getUnitSize(unit) * GAME_CONFIG.TILE_SIZE / GAME_CONFIG.SPRITE_SIZE);
 }
 
 /**
@@ -157,9 +202,8 @@ export function moveUnitToGrid(
     unit.gridX = gridX;
     unit.gridY = gridY;
 
-    const targetX = gridX * GAME_CONFIG.TILE_SIZE + GAME_CONFIG.TILE_SIZE / 2;
-    const targetY = gridY * GAME_CONFIG.TILE_SIZE + GAME_CONFIG.TILE_SIZE / 2;
-    const hpBarTargetY = targetY + HP_BAR_OFFSET_Y;
+    const { x: targetX, y: targetY } = getFootprintCenter(unit, gridX, gridY);
+    const hpBarTargetY = targetY + getHpBarOffsetY(unit);
 
     if (animate && unit.sprite) {
       // Animate sprite
@@ -221,6 +265,7 @@ export function resetUnitTurnState(unit: Unit): void {
   } else {
     unit.actionsRemaining = 1;
   }
+  unit.reactionsRemaining = 1;
 }
 
 /**
@@ -268,9 +313,9 @@ export function markUnitActed(unit: Unit): void {
 export function applyDamage(unit: Unit, damage: number): void {
   unit.currentHp = Math.max(0, unit.currentHp - damage);
 
-  // Hidden breaks when taking damage
-  if (hasStatusEffect(unit, 'hidden') && damage > 0) {
-    removeStatusEffect(unit, 'hidden');
+  // Effects like hidden break when taking damage
+  if (damage > 0) {
+    breakStatusEffects(unit, 'damage_taken');
   }
 
   // Update HP bar
@@ -315,11 +360,41 @@ export function applyHealing(unit: Unit, healing: number): void {
 
 /**
  * Add status effect to unit
+ * If the unit already has this effect, the registry's stacking rule decides the outcome
  */
 export function addStatusEffect(unit: Unit, effect: StatusEffect): void {
-  // Remove existing effect of same type (replace it)
-  unit.statusEffects = unit.statusEffects.filter(e => e.type !== effect.type);
-  unit.statusEffects.push(effect);
+  const existing = getStatusEffect(unit, effect.type);
+  if (!existing) {
+    unit.statusEffects.push(effect);
+    return;
+  }
+
+  const stacking = getStatusDefinition(effect.type)?.stacking ?? 'replace';
+  switch (stacking) {
+    case 'ignore':
+      return;
+
+    case 'refresh':
+      // -1 (permanent) always wins
+      if (existing.duration !== -1 && (effect.duration === -1 || effect.duration > existing.duration)) {
+        existing.duration = effect.duration;
+      }
+      if (effect.value !== undefined && (existing.value === undefined || effect.value > existing.value)) {
+        existing.value = effect.value;
+      }
+      return;
+
+    case 'stack':
+      if (existing.duration !== -1) {
+        existing.duration = effect.duration === -1 ? -1 : existing.duration + effect.duration;
+      }
+      return;
+
+    case 'replace':
+    default:
+      unit.statusEffects = unit.statusEffects.filter(e => e.type !== effect.type);
+      unit.statusEffects.push(effect);
+  }
 }
 
 /**
@@ -344,13 +419,96 @@ export function getStatusEffect(unit: Unit, effectType: string): StatusEffect |
 }
 
 /**
- * Process end-of-turn status effects (decrement durations, apply damage)
+ * Remove every effect that breaks on the given event (e.g. hidden on 'attack')
+ * Returns the removed effect types
+ */
+export function breakStatusEffects(unit: Unit, condition: StatusBreakCondition): StatusEffectType[] {
+  const broken: StatusEffectType[] = [];
+
+  unit.statusEffects = unit.statusEffects.filter((effect) => {
+    const breaksOn = effect.breaksOn ?? getStatusDefinition(effect.type)?.breaksOn ?? [];
+    if (breaksOn.includes(condition)) {
+      broken.push(effect.type);
+      return false;
+    }
+    return true;
+  });
+
+  return broken;
+}
+
+/**
+ * Check if any status effect makes the unit lose its turn (e.g. held)
+ */
+export function getTurnSkippingEffect(unit: Unit): StatusEffect | undefined {
+  return unit.statusEffects.find(e => getStatusDefinition(e.type)?.skipsTurn);
+}
+
+/**
+ * Check if any status effect stops the unit from moving (e.g. immobilized)
  */
-export function processStatusEffects(unit: Unit): { damage: number; expiredEffects: string[] } {
+export function isMovementPrevented(unit: Unit): boolean {
+  return unit.statusEffects.some(e => getStatusDefinition(e.type)?.preventsMovement);
+}
+
+/**
+ * Check if any status effect lets the unit leave enemy reach without provoking (e.g. dodge)
+ */
+export function avoidsOpportunityAttacks(unit: Unit): boolean {
+  return unit.statusEffects.some(e => getStatusDefinition(e.type)?.avoidsOpportunityAttacks);
+}
+
+/**
+ * Sum the registry stat modifiers from all of a unit's status effects
+ */
+export function getStatusModifier(unit: Unit, stat: StatusModifiedStat): number {
+  let total = 0;
+
+  for (const effect of unit.statusEffects) {
+    const definition = getStatusDefinition(effect.type);
+    const amount = definition?.statModifiers?.[stat];
+    if (!amount) continue;
+
+    if (definition.scalesWithValue && effect.value) {
+      total += Math.sign(amount) * effect.value;
+    } else {
+      total += amount;
+    }
+  }
+
+  return total;
+}
+
+/**
+ * Process status effects at a tick point (decrement durations, apply damage/healing)
+ * Per-tick damage and healing are totalled and returned - the caller applies them
+ */
+export function processStatusEffects(unit: Unit): {
+  damage: number;
+  healing: number;
+  damageSources: StatusEffectType[];
+  expiredEffects: StatusEffectType[];
+} {
   let damage = 0;
-  const expiredEffects: string[] = [];
+  let healing = 0;
+  const damageSources: StatusEffectType[] = [];
+  const expiredEffects: StatusEffectType[] = [];
 
   unit.statusEffects = unit.statusEffects.filter((effect) => {
+    const definition = getStatusDefinition(effect.type);
+    if (!definition || definition.tick !== 'turn_start') return true;
+
+    if (definition.damagePerTick !== undefined) {
+      const amount = definition.damagePerTick === 'value' ? effect.value ?? 0 : definition.damagePerTick;
+      if (amount > 0) {
+        damage += amount;
+        damageSources.push(effect.type);
+      }
+    }
+    if (definition.healPerTick !== undefined) {
+      healing += definition.healPerTick === 'value' ? effect.value ?? 0 : definition.healPerTick;
+    }
+
     // Skip permanent effects
     if (effect.duration === -1) return true;
 
@@ -366,10 +524,7 @@ export function processStatusEffects(unit: Unit): { damage: number; expiredEffec
     return true;
   });
 
-  // Note: Poison damage is handled separately during the damage phase
-  // This function just manages durations
-
-  return { damage, expiredEffects };
+  return { damage, healing, damageSources, expiredEffects };
 }
 
 // ============================================
@@ -382,20 +537,21 @@ export function processStatusEffects(unit: Unit): { damage: number; expiredEffec
 export function createHpBar(unit: Unit, scene: Phaser.Scene): void {
   if (!unit.sprite) return;
 
-  // Create container for HP bar elements
-  const container = scene.add.container(unit.sprite.x, unit.sprite.y + HP_BAR_OFFSET_Y);
+  // Create container for HP bar elements (bosses get a bar as wide as their footprint)
+  const width = HP_BAR_WIDTH * getUnitSize(unit);
+  const container = scene.add.container(unit.sprite.x, unit.sprite.y + getHpBarOffsetY(unit));
 
   // Background (dark red)
   const bgBar = scene.add.graphics();
   bgBar.fillStyle(0x330000, 1);
-  bgBar.fillRect(-HP_BAR_WIDTH / 2, -HP_BAR_HEIGHT / 2, HP_BAR_WIDTH, HP_BAR_HEIGHT);
+  bgBar.fillRect(-width / 2, -HP_BAR_HEIGHT / 2, width, HP_BAR_HEIGHT);
   bgBar.lineStyle(1, 0x000000, 1);
-  bgBar.strokeRect(-HP_BAR_WIDTH / 2, -HP_BAR_HEIGHT / 2, HP_BAR_WIDTH, HP_BAR_HEIGHT);
+  bgBar.strokeRect(-width / 2, -HP_BAR_HEIGHT / 2, width, HP_BAR_HEIGHT);
 
   // Foreground (green, will be scaled based on HP)
   const hpBar = scene.add.graphics();
   hpBar.fillStyle(0x00ff00, 1);
-  hpBar.fillRect(-HP_BAR_WIDTH / 2, -HP_BAR_HEIGHT / 2, HP_BAR_WIDTH, HP_BAR_HEIGHT);
+  hpBar.fillRect(-width / 2, -HP_BAR_HEIGHT / 2, width, HP_BAR_HEIGHT);
 
   container.add([bgBar, hpBar]);
   container.setDepth(50); // Above units but below UI
@@ -431,20 +587,27 @@ export function updateHpBar(unit: Unit): void {
   }
 
   hpBar.fillStyle(color, 1);
-  const barWidth = HP_BAR_WIDTH * hpPercent;
-  hpBar.fillRect(-HP_BAR_WIDTH / 2, -HP_BAR_HEIGHT / 2, barWidth, HP_BAR_HEIGHT);
+  const width = HP_BAR_WIDTH * getUnitSize(unit);
+  hpBar.fillRect(-width / 2, -HP_BAR_HEIGHT / 2, width * hpPercent, HP_BAR_HEIGHT);
 
   // Hide HP bar if unit is unconscious
   unit.hpBarContainer.setVisible(!unit.isUnconscious);
 }
 
+/**
+ * Height of the HP bar above the unit's centre - above the top of a boss's footprint
+ */
+function getHpBarOffsetY(unit: Unit): number {
+  return HP_BAR_OFFSET_Y - (getUnitSize(unit) - 1) * GAME_CONFIG.TILE_SIZE / 2;
+}
+
 /**
  * Move HP bar to follow unit sprite
  */
 export function updateHpBarPosition(unit: Unit): void {
   if (!unit.sprite || !unit.hpBarContainer) return;
 
-  unit.hpBarContainer.setPosition(unit.sprite.x, unit.sprite.y + HP_BAR_OFFSET_Y);
+  unit.hpBarContainer.setPosition(unit.sprite.x, unit.sprite.y + getHpBarOffsetY(unit));
 }
 
 // ============================================
@@ -463,6 +626,7 @@ export function createConditionMarkers(unit: Unit, scene: Phaser.Scene): void {
   // Create container for condition marker elements
   const container = scene.add.container(unit.sprite.x, unit.sprite.y + CONDITION_MARKER_OFFSET_Y);
   container.setDepth(5); // Below units (units are at default depth) but above ground
+  container.setScale(getUnitSize(unit)); // Markers ring the whole footprint of a boss
 
   unit.conditionMarkerContainer = container;
 
@@ -562,80 +726,92 @@ export function updateConditionMarkerPosition(unit: Unit): void {
  * Calculate effective defense (base + modifiers from status effects)
  */
 export function getEffectiveDefense(unit: Unit): number {
-  let defense = unit.defense;
-
-  // Hidden bonus
-  if (hasStatusEffect(unit, 'hidden')) {
-    const hidden = getStatusEffect(unit, 'hidden');
-    defense += hidden?.value || 2;
-  }
-
-  // Barkskin bonus
-  if (hasStatusEffect(unit, 'barkskin')) {
-    const barkskin = getStatusEffect(unit, 'barkskin');
-    defense += barkskin?.value || 2;
-  }
-
-  // Dodge bonus (Veil's defensive stance)
-  if (hasStatusEffect(unit, 'dodge')) {
-    const dodge = getStatusEffect(unit, 'dodge');
-    defense += dodge?.value || 2;
-  }
-
-  // Exposed penalty
-  if (hasStatusEffect(unit, 'exposed')) {
-    const exposed = getStatusEffect(unit, 'exposed');
-    defense -= exposed?.value || 2;
-  }
-
-  return defense;
+  return unit.defense + getStatusModifier(unit, 'defense');
 }
 
 /**
  * Calculate effective attack (base + modifiers from status effects)
  */
 export function getEffectiveAttack(unit: Unit): number {
-  let attack = unit.attack;
-
-  // Rage bonus (Thorn's battle trance)
-  if (hasStatusEffect(unit, 'rage')) {
-    attack += 2; // Rage gives +2 attack
-  }
-
-  // Inspired bonus (Arden's inspiration)
-  if (hasStatusEffect(unit, 'inspired')) {
-    attack += 2; // Inspired gives +2 attack
-  }
-
-  return attack;
+  return unit.attack + getStatusModifier(unit, 'attack');
 }
 
 /**
  * Calculate effective damage bonus from status effects
  */
 export function getEffectiveDamageBonus(unit: Unit): number {
-  let bonus = 0;
-
-  // Rage bonus (Thorn's battle trance gives +2 damage)
-  if (hasStatusEffect(unit, 'rage')) {
-    bonus += 2;
-  }
-
-  return bonus;
+  return getStatusModifier(unit, 'damage');
 }
 
 /**
  * Calculate effective resilience (base + modifiers from status effects)
  */
 export function getEffectiveResilience(unit: Unit): number {
-  let resilience = unit.resilience;
+  return unit.resilience + getStatusModifier(unit, 'resilience');
+}
 
-  // Inspired bonus (Arden's inspiration gives +2 resilience)
-  if (hasStatusEffect(unit, 'inspired')) {
-    resilience += 2;
+/**
+ * Stat values used to resolve ATK/DEF/MAG/RES/SPD references in dice notation
+ */
+export function getDiceStatContext(unit: Unit): DiceStatContext {
+  return {
+    ATK: getEffectiveAttack(unit),
+    DEF: getEffectiveDefense(unit),
+    MAG: unit.magic,
+    RES: getEffectiveResilience(unit),
+    SPD: unit.speed,
+  };
+}
+
+/**
+ * Footprint width and height in tiles - 1 for everyone but bosses
+ */
+export function getUnitSize(unit: Unit): number {
+  return unit.size ?? 1;
+}
+
+/**
+ * Every tile a unit covers when its top-left tile is at (x, y) - its current position by default
+ */
+export function getFootprint(unit: Unit, x: number = unit.gridX, y: number = unit.gridY): Position[] {
+  const size = getUnitSize(unit);
+  const tiles: Position[] = [];
+  for (let dy = 0; dy < size; dy++) {
+    for (let dx = 0; dx < size; dx++) {
+      tiles.push({ x: x + dx, y: y + dy });
+    }
   }
+  return tiles;
+}
+
+/**
+ * Check if a tile is one of the unit's covered tiles
+ */
+export function occupiesTile(unit: Unit, x: number, y: number): boolean {
+  const size = getUnitSize(unit);
+  return x >= unit.gridX && x < unit.gridX + size && y >= unit.gridY && y < unit.gridY + size;
+}
+
+/**
+ * The unit's covered tile nearest to a tile
+ */
+export function getClosestTile(unit: Unit, x: number, y: number): Position {
+  const size = getUnitSize(unit);
+  return {
+    x: Math.min(Math.max(x, unit.gridX), unit.gridX + size - 1),
+    y: Math.min(Math.max(y, unit.gridY), unit.gridY + size - 1),
+  };
+}
 
-  return resilience;
+/**
+ * Pixel centre of a unit's footprint with its top-left tile at (gridX, gridY)
+ */
+export function getFootprintCenter(unit: Unit, gridX: number = unit.gridX, gridY: number = unit.gridY): Position {
+  const size = getUnitSize(unit);
+  return {
+    x: gridX * GAME_CONFIG.TILE_SIZE + size * GAME_CONFIG.TILE_SIZE / 2,
+    y: gridY * GAME_CONFIG.TILE_SIZE + size * GAME_CONFIG.TILE_SIZE / 2,
+  };
 }
 
 /**
@@ -645,6 +821,13 @@ export function isOnTeam(unit: Unit, team: Team): boolean {
   return unit.team === team;
 }
 
+/**
+ * Whether two units fight on the same side - heroes and allies are friends
+ */
+export function areAllied(unit: Unit, other: Unit): boolean {
+  return (unit.team === 'enemy') === (other.team === 'enemy');
+}
+
 /**
  * Get all living units from a list
  */
@@ -660,9 +843,9 @@ export function getUnitsOnTeam(units: Unit[], team: Team): Unit[] {
 }
 
 /**
- * Check if all units on a team are unconscious (defeat condition)
+ * Check if all units on a team are unconscious (defeat condition) - summons don't count
  */
 export function isTeamDefeated(units: Unit[], team: Team): boolean {
-  const teamUnits = getUnitsOnTeam(units, team);
+  const teamUnits = getUnitsOnTeam(units, team).filter(u => !u.summon);
   return teamUnits.every(u => u.isUnconscious);
 }
@@ -21,6 +21,7 @@ const isBattleTest = urlParams.get('battle') === 'true';
 const isTravelTest = urlParams.get('travel') === 'true';
 const isMenuTest = urlParams.get('menu') === 'true';
 const battleMap = urlParams.get('map') || 'abandoned_distillery'; // Optional: specify which battle
+const seedParam = urlParams.get('seed'); // Optional: replay a battle from its seed
 
 // Determine which scenes to load based on mode
 let scenes: Phaser.Types.Scenes.SceneType[];
@@ -65,6 +66,9 @@ const game = new Phaser.Game(config);
 if (isBattleTest) {
   game.registry.set('battleTestMode', true);
   game.registry.set('battleMap', battleMap);
+  if (seedParam !== null && !isNaN(parseInt(seedParam, 10))) {
+    game.registry.set('battleSeed', parseInt(seedParam, 10));
+  }
 }
 if (isTravelTest) {
   game.registry.set('travelTestMode', true);
@@ -6,33 +6,51 @@ import {
   EnemyData,
   Unit,
   BattlePhase,
-  InitiativeEntry,
   Ability,
-  STATUS_COLORS,
   StatusEffectType,
-  Zone,
+  EnemyPlacement,
+  ReinforcementWave,
+  ScriptedEvent,
+  CutsceneLine,
+  ReactionTrigger,
+  ZoneType,
+  Position,
+  AllyPlacement,
+  Team,
+  MoraleResponse,
 } from '../data/BattleTypes';
-import { createHeroUnit, createEnemyUnit, moveUnitToGrid, resetUnitTurnState, hasStatusEffect, createHpBar, createConditionMarkers, updateConditionMarkers, updateHpBar, applyHealing, markUnitMoved } from '../entities/Unit';
+import { STATUS_COLORS, getStatusDefinition } from '../systems/StatusEffectRegistry';
+import { createHeroUnit, createEnemyUnit, createEnemySprite, buildEnemyUnit, moveUnitToGrid, createHpBar, createConditionMarkers, updateConditionMarkers, updateHpBar, isMovementPrevented, getStatusModifier, getFootprintCenter, getUnitSize, areAllied } from '../entities/Unit';
 import { GridManager } from '../systems/GridManager';
-import { rollInitiative, rollDice } from '../systems/DiceRoller';
+import { seedDice, generateSeed, resetRandomSource } from '../systems/DiceRoller';
 import {
-  resolveAttack,
-  resolveSpell,
-  resolveHeal,
-  resolveSelfAbility,
   canUseAbility,
-  payAbilityCost,
   getValidTargets,
+  getTargetBlockReason,
+  getCoverBonus,
+  getEffectiveRange,
+  HIGH_GROUND_RANGE_BONUS,
   getDistance,
+  getUnitDistance,
+  formatAttackDice,
+  formatAttackModifiers,
+  formatAttackPosition,
+  getAttackAngle,
+  getFacingBonus,
+  isFlanking,
 } from '../systems/CombatResolver';
 import { AIController } from '../systems/AIController';
+import { AbilityOutcome, BattleEngine, BattleEvent, BattleEventType, DismissReason, ItemOutcome, MOVEMENT_RANGE } from '../systems/BattleEngine';
+import { getTriggersAfterAbility, getTriggersBeforeAbility, ReactionWindow } from '../systems/Reactions';
+import { getEscapeTiles } from '../systems/Morale';
+import { describeObjectives, getRemainingObjectiveObjects, getVictoryCondition } from '../systems/BattleObjectives';
 import { DialogueRenderer } from '../systems/DialogueRenderer';
 import { XPTracker } from '../systems/XPTracker';
 import { HeroState, SaveManager, SaveSlotPreview } from '../systems/SaveManager';
 import { ProgressBar } from '../components/ProgressBar';
 import { InventoryManager } from '../systems/InventoryManager';
 import { LootManager } from '../systems/LootManager';
-import { InventoryState, ChestState, createDefaultInventory, ConsumableId, ItemData, createDefaultEquipmentBonusState } from '../data/ItemTypes';
+import { InventoryState, ChestState, createDefaultInventory, ConsumableId, ItemData, EquipmentId, createDefaultEquipmentBonusState } from '../data/ItemTypes';
 
 interface BattleSceneData {
   battleMap: string;
@@ -48,10 +66,48 @@ interface BattleSceneData {
   // Opening battle "lights on" reveal
   showLightsOnReveal?: boolean; // Start with black screen and do flash reveal
   battleIntroDialogue?: { speaker: string; text: string; portrait?: string }[]; // Dialogue to show after reveal
+  seed?: number; // RNG seed to replay a specific fight (default: config seed or random)
 }
 
-// Movement range for all units (per Phase 4 design: fixed 6 squares)
-const MOVEMENT_RANGE = 6;
+// Engine events that can change objective progress
+const OBJECTIVE_EVENTS: BattleEventType[] = [
+  'round_start',
+  'round_end',
+  'unit_moved',
+  'move_undone',
+  'unit_defeated',
+  'healing',
+  'object_interacted',
+  'reinforcements_arrived',
+  'unit_routed',
+];
+
+// How long a reinforcement wave's dialogue line stays up (ms)
+const REINFORCEMENT_DIALOGUE_DURATION = 2500;
+
+// Zone outline/fill colors by type
+const ZONE_COLORS: Record<ZoneType, number> = {
+  entangle: STATUS_COLORS.entangle_zone, // Forest green
+  fire: 0xff6622,
+  acid: 0x99ff33,
+  steam_vent: 0xdddddd,
+  pressure_plate: 0xaa8855,
+};
+
+// Turn order, turn banner and AI turn highlight colors by team
+const TEAM_COLORS: Record<Team, number> = {
+  hero: 0x44ff44,
+  ally: 0x44ccff,
+  enemy: 0xff4444,
+};
+
+// Reaction prompt text, after the name of the unit that was targeted, hit or downed
+const REACTION_TRIGGER_TEXT: Record<ReactionTrigger, string> = {
+  targeted_by_spell: 'is targeted by a spell',
+  targeted_by_melee: 'is attacked',
+  hit_by_melee: 'is hit',
+  ally_downed: 'is down',
+};
 
 export class BattleScene extends Phaser.Scene {
   // Map and display
@@ -66,6 +122,7 @@ export class BattleScene extends Phaser.Scene {
   private devMode: boolean = false;
   private returnScene: string = 'SparkworksScene';
   private returnPosition: { x: number; y: number } | null = null;
+  private battleSeed: number = 0; // RNG seed for this fight (shown in dev battle menu)
 
   // Lights-on reveal for opening battle
   private showLightsOnReveal: boolean = false;
@@ -76,6 +133,8 @@ export class BattleScene extends Phaser.Scene {
   private heroesData!: Record<string, HeroData>;
   private enemiesData!: Record<string, EnemyData>;
   private abilitiesData!: Record<string, Ability>;
+  private summonsData!: Record<string, EnemyData>;
+  private alliesData!: Record<string, EnemyData>;
 
   // Grid system
   private gridManager!: GridManager;
@@ -97,12 +156,23 @@ export class BattleScene extends Phaser.Scene {
   private isMoving: boolean = false;
   private isInMovementMode: boolean = false;
 
-  // Turn system state
-  private turnOrder: InitiativeEntry[] = [];
-  private currentTurnIndex: number = 0;
-  private round: number = 0;
-  private phase: BattlePhase = 'rolling_initiative';
-  private activeUnit: Unit | null = null;
+  // Battle rules and turn state (round, phase, turn order, zones) live in the engine -
+  // the scene subscribes to its events and animates them
+  private engine!: BattleEngine;
+  private heldBattleEvents: BattleEvent[] | null = null; // Buffered while a move animates
+  private pendingScriptedEvents: ScriptedEvent[] = []; // Triggered, waiting for the next pause point
+
+  private get phase(): BattlePhase {
+    return this.engine.state.phase;
+  }
+
+  private set phase(phase: BattlePhase) {
+    this.engine.setPhase(phase);
+  }
+
+  private get activeUnit(): Unit | null {
+    return this.engine.state.activeUnit;
+  }
 
   // Action menu state
   private actionMenuContainer: Phaser.GameObjects.Container | null = null;
@@ -119,6 +189,7 @@ export class BattleScene extends Phaser.Scene {
   private isTargeting: boolean = false;
   private selectedAbility: Ability | null = null;
   private validTargets: Unit[] = [];
+  private targetingLabels: Phaser.GameObjects.Text[] = []; // Cover / line-of-sight notes on the targeting preview
   private targetIndex: number = 0;
   private targetHighlightGraphics!: Phaser.GameObjects.Graphics;
 
@@ -129,9 +200,11 @@ export class BattleScene extends Phaser.Scene {
   private validAOETiles: { x: number; y: number }[] = [];
 
   // Persistent zones (e.g. Entangle)
-  private zones: Zone[] = [];
   private zoneGraphics!: Phaser.GameObjects.Graphics;
 
+  // Objective markers (exit area, interact objects)
+  private objectiveGraphics!: Phaser.GameObjects.Graphics;
+
   // Cursor for keyboard movement
   private cursorGraphics!: Phaser.GameObjects.Graphics;
   private cursorPosition: { x: number; y: number } = { x: 0, y: 0 };
@@ -148,6 +221,8 @@ export class BattleScene extends Phaser.Scene {
   private uiContainer!: Phaser.GameObjects.Container;
   private turnOrderContainer!: Phaser.GameObjects.Container;
   private roundText!: Phaser.GameObjects.Text;
+  private objectivesBg!: Phaser.GameObjects.Graphics;
+  private objectivesText!: Phaser.GameObjects.Text;
 
   // Combat log
   private combatLogContainer!: Phaser.GameObjects.Container;
@@ -178,7 +253,6 @@ export class BattleScene extends Phaser.Scene {
   // Action result panel (Phase 5 - enhanced feedback)
   private actionResultPanel: Phaser.GameObjects.Container | null = null;
   private currentActionXP: number = 0; // XP earned in current action
-  private hasEarnedXPThisTurn: boolean = false; // Only first action per turn earns XP
 
   // Enemy turn indicator (Phase 8 - visual polish)
   private enemyTurnIndicator: Phaser.GameObjects.Container | null = null;
@@ -256,19 +330,13 @@ export class BattleScene extends Phaser.Scene {
     this.movementTiles = [];
     this.isMoving = false;
     this.isInMovementMode = false;
+    this.pendingScriptedEvents = [];
     this.cursorPosition = { x: 0, y: 0 };
     this.units = [];
     this.heroUnits = [];
     this.enemyUnits = [];
     this.propSprites = [];
 
-    // Reset turn system state
-    this.turnOrder = [];
-    this.currentTurnIndex = 0;
-    this.round = 0;
-    this.phase = 'rolling_initiative';
-    this.activeUnit = null;
-
     // Reset action menu and targeting state
     this.actionMenuContainer = null;
     this.actionMenuIndex = 0;
@@ -276,6 +344,7 @@ export class BattleScene extends Phaser.Scene {
     this.isTargeting = false;
     this.selectedAbility = null;
     this.validTargets = [];
+    this.targetingLabels = [];
     this.targetIndex = 0;
 
     // Reset item menu state
@@ -290,9 +359,6 @@ export class BattleScene extends Phaser.Scene {
     this.aoeSize = { width: 2, height: 2 };
     this.validAOETiles = [];
 
-    // Reset persistent zones
-    this.zones = [];
-
     // Reset combat log
     this.combatLogMessages = [];
 
@@ -303,6 +369,10 @@ export class BattleScene extends Phaser.Scene {
     // Load data
     this.loadBattleData();
 
+    // Seed all dice rolls so the fight can be replayed from the same seed
+    this.battleSeed = data.seed ?? this.battleConfig.seed ?? generateSeed();
+    seedDice(this.battleSeed);
+
     // Override hero state if battle config specifies a heroLevel (for testing)
     if (this.battleConfig.heroLevel && !data.heroState) {
       this.heroState = SaveManager.createHeroStateAtLevel(this.battleConfig.heroLevel);
@@ -313,11 +383,19 @@ export class BattleScene extends Phaser.Scene {
     this.gridManager = new GridManager(
       this.battleConfig.terrain,
       this.battleConfig.gridWidth,
-      this.battleConfig.gridHeight
+      this.battleConfig.gridHeight,
+      this.battleConfig.elevation
     );
 
     // Initialize AI controller
-    this.aiController = new AIController(this.gridManager, this.abilitiesData);
+    this.aiController = new AIController(
+      this.gridManager,
+      this.abilitiesData,
+      this.battleConfig.zoneOfControl,
+      this.battleConfig.aiDifficulty,
+      this.battleConfig.enemyGroups,
+      getEscapeTiles(this.battleConfig)
+    );
 
     // Setup the battle map
     this.setupMap();
@@ -332,6 +410,10 @@ export class BattleScene extends Phaser.Scene {
     this.zoneGraphics = this.add.graphics();
     this.zoneGraphics.setDepth(5); // Above terrain, below units
 
+    // Create objective graphics (exit area, interact objects)
+    this.objectiveGraphics = this.add.graphics();
+    this.objectiveGraphics.setDepth(5);
+
     // Create cursor graphics (on top of everything except UI)
     this.cursorGraphics = this.add.graphics();
 
@@ -340,6 +422,7 @@ export class BattleScene extends Phaser.Scene {
 
     // Place units
     this.placeHeroes();
+    this.placeAllies();
     this.placeEnemies();
 
     // Place static props (non-interactable decorations)
@@ -350,6 +433,18 @@ export class BattleScene extends Phaser.Scene {
       this.gridManager.placeUnit(unit, unit.gridX, unit.gridY);
     });
 
+    // Battle engine owns the turn state and rules from here on
+    this.engine = new BattleEngine(this.battleConfig, this.units, this.gridManager, {
+      seed: this.battleSeed,
+      xpTracker: this.xpTracker,
+      spawnEnemy: (placement, instanceId) => this.spawnReinforcement(placement, instanceId),
+      spawnSummon: (templateId, position, instanceId) => this.spawnSummon(templateId, position, instanceId),
+      abilities: this.abilitiesData,
+    });
+    this.engine.onAny((event) => this.onBattleEvent(event));
+    this.drawObjectiveMarkers();
+    this.drawZones(); // Hazards from the battle config
+
     // Setup camera
     this.setupCamera();
 
@@ -582,7 +677,7 @@ export class BattleScene extends Phaser.Scene {
 
     // Menu box
     const boxWidth = 300;
-    const boxHeight = 150;
+    const boxHeight = 170;
     const boxX = (screenWidth - boxWidth) / 2;
     const boxY = (screenHeight - boxHeight) / 2;
 
@@ -604,12 +699,22 @@ export class BattleScene extends Phaser.Scene {
     title.setOrigin(0.5);
     this.devBattleMenuContainer.add(title);
 
+    // Seed (enter it as ?seed=N to replay this exact fight)
+    const seedText = this.add.text(screenWidth / 2, boxY + 45, `Seed: ${this.battleSeed}`, {
+      fontFamily: 'monospace',
+      fontSize: '12px',
+      color: '#aaaaaa',
+    });
+    seedText.setResolution(GAME_CONFIG.TEXT_RESOLUTION);
+    seedText.setOrigin(0.5);
+    this.devBattleMenuContainer.add(seedText);
+
     // Options
     const options = ['Run Fight', 'Auto Win'];
     const optionTexts: Phaser.GameObjects.Text[] = [];
 
     options.forEach((option, index) => {
-      const text = this.add.text(screenWidth / 2, boxY + 60 + index * 35, option, {
+      const text = this.add.text(screenWidth / 2, boxY + 80 + index * 35, option, {
         fontFamily: 'monospace',
         fontSize: '16px',
         color: index === 0 ? '#ffffff' : '#888888',
@@ -685,7 +790,7 @@ export class BattleScene extends Phaser.Scene {
     });
 
     // Trigger victory
-    this.handleVictory();
+    this.engine.checkBattleEnd();
   }
 
   private loadBattleData(): void {
@@ -700,6 +805,8 @@ export class BattleScene extends Phaser.Scene {
     this.heroesData = this.cache.json.get('data_heroes');
     this.enemiesData = this.cache.json.get('data_enemies');
     this.abilitiesData = this.cache.json.get('data_abilities');
+    this.summonsData = this.cache.json.get('data_summons');
+    this.alliesData = this.cache.json.get('data_allies');
   }
 
   private setupMap(): void {
@@ -801,54 +908,250 @@ export class BattleScene extends Phaser.Scene {
     });
   }
 
+  private placeAllies(): void {
+    const instanceCounts: Record<string, number> = {};
+
+    (this.battleConfig.allies ?? []).forEach((placement) => {
+      instanceCounts[placement.type] = (instanceCounts[placement.type] || 0) + 1;
+      const instanceId = `${placement.type}_${instanceCounts[placement.type]}`;
+
+      const unit = this.createAlly(placement, instanceId);
+      if (!unit) return;
+
+      this.units.push(unit);
+    });
+  }
+
+  /**
+   * Build an AI-controlled ally with its sprite, HP bar and condition markers
+   */
+  private createAlly(placement: AllyPlacement, instanceId: string): Unit | null {
+    const allyData = this.alliesData[placement.type];
+    if (!allyData) {
+      console.error(`Ally data not found for: ${placement.type}`);
+      return null;
+    }
+
+    const unit = createEnemyUnit(allyData, instanceId, placement.x, placement.y, this);
+    unit.team = 'ally';
+    unit.protect = placement.protect;
+
+    // Allies start facing the same way as the heroes
+    unit.facing = this.battleConfig.heroFacing || 'south';
+    this.setUnitFacingSprite(unit);
+    if (unit.sprite) {
+      unit.sprite.setInteractive({ useHandCursor: true });
+      unit.sprite.on('pointerdown', () => this.onUnitClicked(unit));
+    }
+
+    createHpBar(unit, this);
+    createConditionMarkers(unit, this);
+
+    return unit;
+  }
+
   private placeEnemies(): void {
     // Track instance counts for unique IDs
     const instanceCounts: Record<string, number> = {};
 
     this.battleConfig.enemies.forEach((placement) => {
-      const enemyData = this.enemiesData[placement.type];
-      if (!enemyData) {
-        console.error(`Enemy data not found for: ${placement.type}`);
-        return;
-      }
-
       // Generate unique instance ID
       instanceCounts[placement.type] = (instanceCounts[placement.type] || 0) + 1;
       const instanceId = `${placement.type}_${instanceCounts[placement.type]}`;
 
-      const unit = createEnemyUnit(
-        enemyData,
-        instanceId,
-        placement.x,
-        placement.y,
-        this
-      );
+      const unit = this.createEnemy(placement, instanceId);
+      if (!unit) return;
 
-      // Set enemy facing direction (configurable per battle, default south = facing heroes)
-      const enemyFacing = this.battleConfig.enemyFacing || 'south';
-      unit.facing = enemyFacing;
-      const facingToSprite: Record<string, string> = {
-        north: 'back',
-        south: 'front',
-        east: 'right',
-        west: 'left'
-      };
-      if (unit.sprite) {
-        unit.sprite.setTexture(`${enemyData.sprite}_${facingToSprite[enemyFacing]}`);
-        // Make sprite interactive
-        unit.sprite.setInteractive({ useHandCursor: true });
-        unit.sprite.on('pointerdown', () => this.onUnitClicked(unit));
+      this.units.push(unit);
+      this.enemyUnits.push(unit);
+    });
+  }
+
+  /**
+   * Build an enemy unit with its sprite, HP bar and condition markers
+   */
+  private createEnemy(placement: EnemyPlacement, instanceId: string): Unit | null {
+    const unit = this.buildEnemy(placement, instanceId);
+    if (!unit) return null;
+
+    this.createEnemyDisplay(unit);
+    return unit;
+  }
+
+  /**
+   * Build an enemy unit without display objects, facing the battle's enemy facing
+   */
+  private buildEnemy(placement: EnemyPlacement, instanceId: string): Unit | null {
+    const enemyData = this.enemiesData[placement.type];
+    if (!enemyData) {
+      console.error(`Enemy data not found for: ${placement.type}`);
+      return null;
+    }
+
+    const unit = buildEnemyUnit(enemyData, instanceId, placement.x, placement.y);
+
+    // Set enemy facing direction (configurable per battle, default south = facing heroes)
+    unit.facing = this.battleConfig.enemyFacing || 'south';
+    return unit;
+  }
+
+  /**
+   * Give an enemy unit its sprite, HP bar and condition markers on the tile it stands on
+   */
+  private createEnemyDisplay(unit: Unit): void {
+    const enemyData = this.enemiesData[unit.dataId];
+    createEnemySprite(unit, enemyData, this);
+
+    const facingToSprite: Record<string, string> = {
+      north: 'back',
+      south: 'front',
+      east: 'right',
+      west: 'left'
+    };
+    if (unit.sprite) {
+      unit.sprite.setTexture(`${enemyData.sprite}_${facingToSprite[unit.facing]}`);
+      // Make sprite interactive
+      unit.sprite.setInteractive({ useHandCursor: true });
+      unit.sprite.on('pointerdown', () => this.onUnitClicked(unit));
+    }
+
+    // Create HP bar above unit
+    createHpBar(unit, this);
+
+    // Create condition markers around unit
+    createConditionMarkers(unit, this);
+  }
+
+  /**
+   * Engine factory for reinforcement enemies - the engine adds the unit to the battle, and
+   * its display objects are only built once it has a tile (a unit with no room is dropped)
+   */
+  private spawnReinforcement(placement: EnemyPlacement, instanceId: string): Unit | null {
+    return this.buildEnemy(placement, instanceId);
+  }
+
+  /**
+   * Engine factory for summoned units - built hidden like reinforcements, and faded in
+   * once the engine has set their team
+   */
+  private spawnSummon(templateId: string, position: Position, instanceId: string): Unit | null {
+    const template = this.summonsData[templateId];
+    if (!template) {
+      console.error(`Summon data not found for: ${templateId}`);
+      return null;
+    }
+
+    const unit = createEnemyUnit(template, instanceId, position.x, position.y, this);
+    if (unit.sprite) {
+      unit.sprite.setInteractive({ useHandCursor: true });
+      unit.sprite.on('pointerdown', () => this.onUnitClicked(unit));
+    }
+    createHpBar(unit, this);
+    createConditionMarkers(unit, this);
+
+    for (const obj of [unit.sprite, unit.hpBarContainer, unit.conditionMarkerContainer]) {
+      if (obj) {
+        obj.setAlpha(0);
+        this.uiCamera.ignore(obj);
       }
+    }
 
-      // Create HP bar above unit
-      createHpBar(unit, this);
+    return unit;
+  }
 
-      // Create condition markers around unit
-      createConditionMarkers(unit, this);
+  /**
+   * Fade a summoned unit in on its tile
+   */
+  private showSummonArrival(unit: Unit, summoner: Unit): void {
+    if (unit.team === 'enemy') {
+      this.enemyUnits.push(unit);
+    }
+    this.addCombatLogMessage(`${summoner.name} summons ${unit.name}!`);
 
-      this.units.push(unit);
+    const displayObjects = [unit.sprite, unit.hpBarContainer, unit.conditionMarkerContainer].filter(obj => obj);
+    this.tweens.add({ targets: displayObjects, alpha: 1, duration: 400 });
+    this.updateTurnOrderUI();
+  }
+
+  /**
+   * Fade a dismissed summon out and drop its display objects
+   */
+  private removeSummonedUnit(unit: Unit, reason: DismissReason): void {
+    const messages: Record<DismissReason, string> = {
+      expired: `${unit.name} fades away.`,
+      summoner_down: `${unit.name} vanishes as its summoner falls!`,
+      defeated: `${unit.name} dissolves!`,
+    };
+    this.addCombatLogMessage(messages[reason]);
+    this.fadeOutUnit(unit);
+  }
+
+  /**
+   * An enemy whose morale broke left play - it escaped the field or laid down its arms
+   */
+  private removeRoutedUnit(unit: Unit, response: MoraleResponse): void {
+    this.addCombatLogMessage(response === 'flee'
+      ? `${unit.name} escapes the battlefield!`
+      : `${unit.name} lays down their arms and leaves the fight.`);
+    this.fadeOutUnit(unit);
+  }
+
+  /**
+   * Fade a unit the engine took out of play off the board
+   */
+  private fadeOutUnit(unit: Unit): void {
+    this.enemyUnits = this.enemyUnits.filter(u => u !== unit);
+    const displayObjects = [unit.sprite, unit.hpBarContainer, unit.conditionMarkerContainer].filter(obj => obj);
+    this.tweens.add({
+      targets: displayObjects,
+      alpha: 0,
+      duration: 400,
+      onComplete: () => displayObjects.forEach(obj => obj?.destroy()),
+    });
+    this.updateTurnOrderUI();
+  }
+
+  /**
+   * Drop reinforcements in, then show the wave's dialogue line for a moment
+   */
+  private showReinforcementsArrival(wave: ReinforcementWave, units: Unit[]): void {
+    this.addCombatLogMessage('Reinforcements arrive!');
+
+    units.forEach((unit, i) => {
       this.enemyUnits.push(unit);
+      this.createEnemyDisplay(unit);
+      for (const obj of [unit.sprite, unit.hpBarContainer, unit.conditionMarkerContainer]) {
+        if (obj) {
+          obj.setAlpha(0);
+          this.uiCamera.ignore(obj);
+        }
+      }
+      if (!unit.sprite) return;
+
+      const targetY = unit.sprite.y;
+      unit.sprite.y -= GAME_CONFIG.TILE_SIZE;
+      this.tweens.add({
+        targets: unit.sprite,
+        y: targetY,
+        alpha: 1,
+        duration: 400,
+        delay: i * 150,
+        ease: 'Quad.easeOut',
+      });
+      const overlays = [unit.hpBarContainer, unit.conditionMarkerContainer].filter(obj => obj);
+      this.tweens.add({ targets: overlays, alpha: 1, duration: 200, delay: i * 150 + 400 });
     });
+
+    if (wave.dialogue && !this.dialogueRenderer.isDialogueActive()) {
+      this.dialogueRenderer.showStatic(wave.dialogue.text, wave.dialogue.speaker);
+      this.time.delayedCall(REINFORCEMENT_DIALOGUE_DURATION, () => {
+        if (!this.dialogueRenderer.isDialogueActive()) {
+          this.dialogueRenderer.hide();
+        }
+      });
+    }
+
+    this.updateTurnOrderUI();
   }
 
   /**
@@ -878,6 +1181,11 @@ export class BattleScene extends Phaser.Scene {
       // Set depth below units but above map
       sprite.setDepth(50);
 
+      // Crates and low walls shield units from ranged attacks
+      if (prop.cover) {
+        this.gridManager.setCover(prop.x, prop.y);
+      }
+
       this.propSprites.push(sprite);
     });
   }
@@ -919,6 +1227,7 @@ export class BattleScene extends Phaser.Scene {
     this.uiCamera.ignore(this.pathPreviewGraphics);
     this.uiCamera.ignore(this.targetHighlightGraphics);
     this.uiCamera.ignore(this.zoneGraphics);
+    this.uiCamera.ignore(this.objectiveGraphics);
 
     // Ignore prop sprites
     if (this.propSprites) {
@@ -1050,9 +1359,10 @@ export class BattleScene extends Phaser.Scene {
     // ESC to cancel/deselect, or open menu when nothing to cancel
     const escKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.ESC);
     escKey.on('down', () => {
-      // Handle choice menu cancel
+      // Handle choice menu cancel - picks the last option (No / Cancel)
       if (this.choiceMenuVisible) {
-        this.hideChoiceMenu();
+        this.choiceMenuSelectedIndex = this.choiceMenuOptions.length - 1;
+        this.selectChoiceMenuOption();
         return;
       }
 
@@ -1133,6 +1443,30 @@ export class BattleScene extends Phaser.Scene {
       }
     });
 
+    // U to Undo the last move
+    const undoMoveKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.U);
+    undoMoveKey.on('down', () => {
+      if (this.showingActionMenu) {
+        this.selectActionMenuOption('undo_move');
+      }
+    });
+
+    // F to interact with an objective object
+    const interactKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.F);
+    interactKey.on('down', () => {
+      if (this.showingActionMenu) {
+        this.selectActionMenuOption('interact');
+      }
+    });
+
+    // G to disengage from adjacent enemies (zone of control)
+    const disengageKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.G);
+    disengageKey.on('down', () => {
+      if (this.showingActionMenu) {
+        this.selectActionMenuOption('disengage');
+      }
+    });
+
     // A, S, D for abilities (1st, 2nd, 3rd ability in menu)
     const abilityKey1 = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.A);
     abilityKey1.on('down', () => {
@@ -1450,52 +1784,39 @@ export class BattleScene extends Phaser.Scene {
     this.clearCursor();
     this.clearPathPreview();
 
-    // Get path to destination
-    const path = this.gridManager.findPath(
-      unit.gridX,
-      unit.gridY,
-      toX,
-      toY,
-      unit
-    );
+    // Move the unit (zone entry damage is held until the animation finishes)
+    this.holdBattleEvents();
+    const { from, path } = this.engine.execute({ type: 'move', unit, x: toX, y: toY });
 
-    if (!path || path.length === 0) {
+    // An opportunity attack can drop the unit before its first step, which still ends the move
+    if (path.length === 0 && !unit.isUnconscious) {
+      this.releaseBattleEvents();
       this.isMoving = false;
       return;
     }
 
-    // Update grid manager (remove from old position)
-    this.gridManager.removeUnit(unit);
-
     // Animate along path
+    let previous = from;
     for (const step of path) {
       // Update facing based on movement direction
-      this.updateUnitFacing(unit, step.x, step.y);
+      this.updateUnitFacing(unit, step.x, step.y, previous);
+      previous = step;
 
       // Animate movement to this step
       await moveUnitToGrid(unit, step.x, step.y, this, true, 100);
     }
 
-    // Update grid manager (place at new position)
-    this.gridManager.placeUnit(unit, toX, toY);
-
-    // Mark unit as moved (this also reduces Azrael's actions if he moved)
-    markUnitMoved(unit);
-
     this.isMoving = false;
+    this.releaseBattleEvents();
 
-    // Check for zone entry damage
-    const zonesEntered = this.getZonesAtPosition(toX, toY);
-    for (const zone of zonesEntered) {
-      this.applyZoneDamage(unit, zone, 'entry');
+    // Zone damage or reaching an exit can end the battle
+    this.engine.checkBattleEnd();
+    if (this.phase === 'victory' || this.phase === 'defeat') {
+      return;
     }
 
-    // Check if unit was defeated by zone damage
-    if (unit.currentHp <= 0) {
-      this.checkBattleEnd();
-      if (this.phase === 'victory' || this.phase === 'defeat') {
-        return;
-      }
+    // Check if unit was defeated by zone damage or an opportunity attack
+    if (unit.isUnconscious) {
       // End turn if hero was defeated
       this.endCurrentTurn();
       return;
@@ -1505,10 +1826,10 @@ export class BattleScene extends Phaser.Scene {
     this.movementTiles = [];
     this.clearHighlights();
 
-    // After moving, show the action menu so player can attack/use abilities
+    // After moving (and any dialogue the move triggered), show the action menu so player can attack/use abilities
     if (this.activeUnit === unit && unit.team === 'hero') {
       this.time.delayedCall(200, () => {
-        this.showActionMenu();
+        this.playScriptedEvents(() => this.showActionMenu());
       });
     } else {
       // Just deselect if this isn't the active hero's turn
@@ -1518,9 +1839,14 @@ export class BattleScene extends Phaser.Scene {
     }
   }
 
-  private updateUnitFacing(unit: Unit, toX: number, toY: number): void {
-    const dx = toX - unit.gridX;
-    const dy = toY - unit.gridY;
+  private updateUnitFacing(
+    unit: Unit,
+    toX: number,
+    toY: number,
+    from: { x: number; y: number } = { x: unit.gridX, y: unit.gridY }
+  ): void {
+    const dx = toX - from.x;
+    const dy = toY - from.y;
 
     let newFacing: 'north' | 'south' | 'east' | 'west' = unit.facing;
     let spriteDir = 'front';
@@ -1551,7 +1877,7 @@ export class BattleScene extends Phaser.Scene {
     if (unit.sprite) {
       // Determine base sprite name
       const heroData = this.heroesData[unit.dataId];
-      const enemyData = this.enemiesData[unit.dataId];
+      const enemyData = this.getAIUnitData(unit.dataId);
       const baseSprite = heroData?.sprite || enemyData?.sprite || `sprite_${unit.dataId}`;
       unit.sprite.setTexture(`${baseSprite}_${spriteDir}`);
     }
@@ -1663,8 +1989,15 @@ export class BattleScene extends Phaser.Scene {
     const path = this.gridManager.findPath(startX, startY, endX, endY, this.selectedUnit);
     if (!path || path.length === 0) return;
 
+    // Paths that provoke opportunity attacks (zone of control) are drawn orange
+    const attacks = this.engine.getOpportunityAttacks(
+      this.selectedUnit,
+      this.engine.planMove(this.selectedUnit, endX, endY)
+    );
+    const pathColor = attacks.length > 0 ? 0xff8800 : 0x00ff00;
+
     // Draw path as a series of connected dots/lines
-    this.pathPreviewGraphics.lineStyle(3, 0x00ff00, 0.7);
+    this.pathPreviewGraphics.lineStyle(3, pathColor, 0.7);
 
     // Start from unit position
     const startPixel = this.gridManager.gridToPixel(startX, startY);
@@ -1679,11 +2012,18 @@ export class BattleScene extends Phaser.Scene {
     this.pathPreviewGraphics.strokePath();
 
     // Draw small circles at each waypoint
-    this.pathPreviewGraphics.fillStyle(0x00ff00, 0.8);
+    this.pathPreviewGraphics.fillStyle(pathColor, 0.8);
     for (const step of path) {
       const stepPixel = this.gridManager.gridToPixel(step.x, step.y);
       this.pathPreviewGraphics.fillCircle(stepPixel.x, stepPixel.y, 4);
     }
+
+    // Ring each enemy that would get a free attack
+    this.pathPreviewGraphics.lineStyle(2, 0xff0000, 0.9);
+    for (const { attacker } of attacks) {
+      const attackerPixel = getFootprintCenter(attacker);
+      this.pathPreviewGraphics.strokeCircle(attackerPixel.x, attackerPixel.y, getUnitSize(attacker) * GAME_CONFIG.TILE_SIZE / 2 - 2);
+    }
   }
 
   private clearPathPreview(): void {
@@ -1694,12 +2034,12 @@ export class BattleScene extends Phaser.Scene {
   // Highlighting
   // ============================================
 
-  private drawMovementHighlight(team: 'hero' | 'enemy' = 'hero'): void {
+  private drawMovementHighlight(team: Team = 'hero'): void {
     this.clearHighlights();
 
-    // Use blue for heroes, red for enemies
-    const fillColor = team === 'hero' ? 0x4444ff : 0xff4444;
-    const strokeColor = team === 'hero' ? 0x6666ff : 0xff6666;
+    // Use blue for heroes and allies, red for enemies
+    const fillColor = team !== 'enemy' ? 0x4444ff : 0xff4444;
+    const strokeColor = team !== 'enemy' ? 0x6666ff : 0xff6666;
 
     // Draw semi-transparent tiles for movement range
     this.highlightGraphics.fillStyle(fillColor, 0.4);
@@ -1810,6 +2150,25 @@ export class BattleScene extends Phaser.Scene {
     this.roundText.setResolution(GAME_CONFIG.TEXT_RESOLUTION);
     this.uiContainer.add(this.roundText);
 
+    // Objectives (sized to fit in updateObjectivesUI)
+    this.objectivesBg = this.add.graphics();
+    this.uiContainer.add(this.objectivesBg);
+
+    this.objectivesText = this.add.text(
+      20,
+      160,
+      '',
+      {
+        fontFamily: 'monospace',
+        fontSize: '12px',
+        color: '#ffffff',
+        lineSpacing: 4,
+      }
+    );
+    this.objectivesText.setResolution(GAME_CONFIG.TEXT_RESOLUTION);
+    this.uiContainer.add(this.objectivesText);
+    this.updateObjectivesUI();
+
     // Make main camera ignore UI (it will be rendered by uiCamera instead)
     this.cameras.main.ignore(this.uiContainer);
   }
@@ -1822,123 +2181,67 @@ export class BattleScene extends Phaser.Scene {
    * Start a new round - roll initiative for all units and begin
    */
   private startNewRound(): void {
-    this.round++;
-    this.phase = 'rolling_initiative';
+    // Reset turn state and roll initiative for all living units
+    const turnOrder = this.engine.startRound();
 
-    // Reset all units' turn state
-    this.units.forEach((unit) => {
-      if (!unit.isUnconscious) {
-        resetUnitTurnState(unit);
+    console.log('Initiative Order:', turnOrder.map(
+      (e) => {
+        const equipBonus = e.unit.equipment === 'swift_anklet' ? ' (+2 Swift Anklet)' : '';
+        return `${e.unit.name}: ${e.roll.rolls[0]} + ${e.unit.speed}${equipBonus} = ${e.total}`;
       }
-    });
-
-    // Roll initiative for all living units
-    this.rollAllInitiative();
+    ));
 
     // Show initiative results with a brief delay
     this.showInitiativeRolls();
 
     // Start first turn after showing results
     this.time.delayedCall(1500, () => {
-      this.currentTurnIndex = 0;
       this.startNextTurn();
     });
   }
 
-  /**
-   * Roll initiative for all living units and sort turn order
-   */
-  private rollAllInitiative(): void {
-    this.turnOrder = [];
-
-    // Roll for each living unit
-    const livingUnits = this.units.filter((u) => !u.isUnconscious);
-
-    for (const unit of livingUnits) {
-      const initiativeRoll = rollInitiative(unit.speed);
-      let total = initiativeRoll.finalTotal || initiativeRoll.total;
-
-      // Swift Anklet: +2 initiative bonus
-      if (unit.equipment === 'swift_anklet') {
-        total += 2;
-        this.addCombatLogMessage(`${unit.name}'s Swift Anklet grants +2 initiative!`);
-      }
-
-      this.turnOrder.push({
-        unit,
-        roll: initiativeRoll,
-        total,
-      });
-    }
-
-    // Sort by initiative (highest first)
-    // Ties broken by speed, then by team (heroes win ties)
-    this.turnOrder.sort((a, b) => {
-      if (b.total !== a.total) return b.total - a.total;
-      if (b.unit.speed !== a.unit.speed) return b.unit.speed - a.unit.speed;
-      // Heroes win ties
-      if (a.unit.team === 'hero' && b.unit.team === 'enemy') return -1;
-      if (a.unit.team === 'enemy' && b.unit.team === 'hero') return 1;
-      return 0;
-    });
-
-    console.log('Initiative Order:', this.turnOrder.map(
-      (e) => {
-        const equipBonus = e.unit.equipment === 'swift_anklet' ? ' (+2 Swift Anklet)' : '';
-        return `${e.unit.name}: ${e.roll.rolls[0]} + ${e.unit.speed}${equipBonus} = ${e.total}`;
-      }
-    ));
-  }
-
   /**
    * Show initiative rolls briefly
    */
   private showInitiativeRolls(): void {
     // Update round display
     if (this.roundText) {
-      this.roundText.setText(`Round ${this.round}`);
+      this.roundText.setText(`Round ${this.engine.state.round}`);
     }
 
     // Update turn order UI
     this.updateTurnOrderUI();
 
     // Show a floating message
-    this.showFloatingMessage(`Round ${this.round} - Rolling Initiative!`);
+    this.showFloatingMessage(`Round ${this.engine.state.round} - Rolling Initiative!`);
   }
 
   /**
    * Start the next unit's turn
    */
   private startNextTurn(): void {
-    // Find next living unit
-    while (
-      this.currentTurnIndex < this.turnOrder.length &&
-      this.turnOrder[this.currentTurnIndex].unit.isUnconscious
-    ) {
-      this.currentTurnIndex++;
-    }
-
-    // If we've gone through all units, start new round
-    if (this.currentTurnIndex >= this.turnOrder.length) {
+    // Find next living unit - if we've gone through all units, end the round
+    const unit = this.engine.nextTurn();
+    if (!unit) {
       this.endRound();
       return;
     }
 
-    const entry = this.turnOrder[this.currentTurnIndex];
-    this.activeUnit = entry.unit;
-
     // Highlight active unit in turn order
     this.updateTurnOrderUI();
 
     // Update active unit panel (shows hero stats in bottom-left)
     this.updateActiveUnitPanel();
 
-    // Different handling for hero vs enemy
-    if (this.activeUnit.team === 'hero') {
-      this.startHeroTurn(this.activeUnit);
-    } else {
-      this.startEnemyTurn(this.activeUnit);
-    }
+    // Dialogue triggered since the last pause point plays before the unit acts
+    this.playScriptedEvents(() => {
+      // Different handling for hero vs enemy
+      if (unit.team === 'hero') {
+        this.startHeroTurn(unit);
+      } else {
+        this.startEnemyTurn(unit);
+      }
+    });
   }
 
   /**
@@ -1946,88 +2249,14 @@ export class BattleScene extends Phaser.Scene {
    * Returns true if the unit can act, false if their turn should be skipped
    */
   private processStartOfTurnEffects(unit: Unit): { canAct: boolean; skipReason?: string } {
-    // Check for held - skip turn entirely
-    const heldEffect = unit.statusEffects.find(e => e.type === 'held');
-    if (heldEffect) {
-      this.addCombatLogMessage(`${unit.name} is held and skips their turn!`);
-
-      // Decrement hold duration
-      heldEffect.duration--;
-      if (heldEffect.duration <= 0) {
-        unit.statusEffects = unit.statusEffects.filter(e => e.type !== 'held');
-        this.addCombatLogMessage(`${unit.name} is no longer held.`);
-      }
-
-      // Update condition markers to show new duration
-      updateConditionMarkers(unit, this);
-      this.updateTurnOrderUI();
-      return { canAct: false, skipReason: 'held' };
-    }
-
-    // Process poison damage at turn start
-    const poisonEffect = unit.statusEffects.find(e => e.type === 'poison');
-    if (poisonEffect && poisonEffect.value) {
-      const poisonDamage = poisonEffect.value;
-      this.addCombatLogMessage(`${unit.name} takes ${poisonDamage} poison damage!`);
-
-      // Import and use applyDamage
-      unit.currentHp = Math.max(0, unit.currentHp - poisonDamage);
-      this.showDamageNumber(unit, poisonDamage, false);
-
-      // Check if unit was defeated by poison
-      if (unit.currentHp === 0) {
-        unit.isUnconscious = true;
-        unit.statusEffects.push({ type: 'unconscious', duration: -1 });
-        this.addCombatLogMessage(`${unit.name} has succumbed to poison!`);
-        this.handleUnitDefeated(unit);
-        this.updateTurnOrderUI();
-        return { canAct: false, skipReason: 'defeated' };
-      }
-
-      // Decrement poison duration
-      poisonEffect.duration--;
-      if (poisonEffect.duration <= 0) {
-        unit.statusEffects = unit.statusEffects.filter(e => e.type !== 'poison');
-        this.addCombatLogMessage(`${unit.name} has recovered from poison.`);
-      }
-
-      // Update condition markers to show new poison duration
-      updateConditionMarkers(unit, this);
-    }
-
-    // Process zone damage (Entangle) at turn start
-    if (!unit.isUnconscious) {
-      this.processZoneTurnStart(unit);
-
-      // Check if unit was defeated by zone damage
-      if (unit.currentHp <= 0) {
-        return { canAct: false, skipReason: 'defeated' };
-      }
-    }
-
-    // Process other status effect durations (barkskin, exposed, hidden, immobilized, rage, dodge, inspired)
-    // These tick down at start of unit's turn
-    const tickingEffects = ['barkskin', 'exposed', 'hidden', 'immobilized', 'rage', 'dodge', 'inspired'];
-    let effectChanged = false;
-    for (const effectType of tickingEffects) {
-      const effect = unit.statusEffects.find(e => e.type === effectType);
-      if (effect && effect.duration > 0) {
-        effect.duration--;
-        effectChanged = true;
-        if (effect.duration <= 0) {
-          unit.statusEffects = unit.statusEffects.filter(e => e.type !== effectType);
-          this.addCombatLogMessage(`${unit.name}'s ${effectType} effect has worn off.`);
-        }
-      }
-    }
-
-    // Update condition markers if any effects changed (duration decrement or expiration)
-    if (effectChanged) {
-      updateConditionMarkers(unit, this);
-    }
+    // Ticks, skips and zone damage are resolved by the engine and rendered by onBattleEvent
+    const result = this.engine.beginTurn(unit);
 
+    // Update condition markers to show new durations
+    updateConditionMarkers(unit, this);
     this.updateTurnOrderUI();
-    return { canAct: true };
+
+    return result;
   }
 
   /**
@@ -2036,9 +2265,6 @@ export class BattleScene extends Phaser.Scene {
   private startHeroTurn(unit: Unit): void {
     this.phase = 'select_action';
 
-    // Reset XP flag - only first action per turn earns XP
-    this.hasEarnedXPThisTurn = false;
-
     // Center camera on the active hero
     const pixelPos = this.gridManager.gridToPixel(unit.gridX, unit.gridY);
     this.cameras.main.pan(pixelPos.x, pixelPos.y, 300);
@@ -2060,7 +2286,7 @@ export class BattleScene extends Phaser.Scene {
       }
 
       // Check for battle end after poison damage
-      this.checkBattleEnd();
+      this.engine.checkBattleEnd();
       if (this.phase === 'victory' || this.phase === 'defeat') {
         return;
       }
@@ -2071,24 +2297,24 @@ export class BattleScene extends Phaser.Scene {
   }
 
   /**
-   * Start an enemy unit's turn (AI controlled)
+   * Start an AI-controlled unit's turn - enemies and allies
    */
   private startEnemyTurn(unit: Unit): void {
     this.phase = 'enemy_turn';
 
     // Show which enemy is acting
-    this.showFloatingMessage(`${unit.name}'s Turn`, 0xff4444);
+    this.showFloatingMessage(`${unit.name}'s Turn`, TEAM_COLORS[unit.team]);
 
     // Highlight the enemy
     if (unit.sprite) {
-      unit.sprite.setTint(0xff4444);
+      unit.sprite.setTint(TEAM_COLORS[unit.team]);
     }
 
     // Show corner bracket indicator
     this.showEnemyTurnIndicator(unit);
 
     // Center camera on enemy
-    const pixelPos = this.gridManager.gridToPixel(unit.gridX, unit.gridY);
+    const pixelPos = getFootprintCenter(unit);
     this.cameras.main.pan(pixelPos.x, pixelPos.y, 300);
 
     // Process start-of-turn effects (poison, held, etc.)
@@ -2103,7 +2329,7 @@ export class BattleScene extends Phaser.Scene {
         }
         this.hideEnemyTurnIndicator();
         this.time.delayedCall(1000, () => {
-          this.checkBattleEnd();
+          this.engine.checkBattleEnd();
           if (this.phase !== 'victory' && this.phase !== 'defeat') {
             this.endCurrentTurn();
           }
@@ -2112,7 +2338,7 @@ export class BattleScene extends Phaser.Scene {
       }
 
       // Check for battle end after poison damage
-      this.checkBattleEnd();
+      this.engine.checkBattleEnd();
       if (this.phase === 'victory' || this.phase === 'defeat') {
         return;
       }
@@ -2136,7 +2362,8 @@ export class BattleScene extends Phaser.Scene {
         this.units,
         hasMoved,
         hasActed,
-        this.round
+        this.engine.state.round,
+        this.engine.state.zones
       );
 
       switch (decision.action) {
@@ -2144,6 +2371,11 @@ export class BattleScene extends Phaser.Scene {
           if (decision.targetPosition) {
             hasMoved = true;
             this.executeEnemyMove(unit, decision.targetPosition, () => {
+              // Zone damage or an opportunity attack can drop the unit on the way, or make it surrender
+              if (!this.engine.isInPlay(unit)) {
+                this.finishEnemyTurn(unit);
+                return;
+              }
               // After moving, try to act
               this.time.delayedCall(300, executeNextAction);
             });
@@ -2153,21 +2385,31 @@ export class BattleScene extends Phaser.Scene {
           break;
 
         case 'attack':
-        case 'ability':
+        case 'ability': {
+          const afterAction = () => {
+            // A Riposte can drop the attacker, or make it surrender
+            if (!this.engine.isInPlay(unit)) {
+              this.finishEnemyTurn(unit);
+              return;
+            }
+            // After attacking, check if we can still move
+            if (!hasMoved) {
+              this.time.delayedCall(500, executeNextAction);
+            } else {
+              this.finishEnemyTurn(unit);
+            }
+          };
           if (decision.targetUnit && decision.ability) {
             hasActed = true;
-            this.executeEnemyAttack(unit, decision.targetUnit, decision.ability, () => {
-              // After attacking, check if we can still move
-              if (!hasMoved) {
-                this.time.delayedCall(500, executeNextAction);
-              } else {
-                this.finishEnemyTurn(unit);
-              }
-            });
+            this.executeEnemyAttack(unit, decision.targetUnit, decision.ability, afterAction);
+          } else if (decision.targetPosition && decision.ability) {
+            hasActed = true;
+            this.executeEnemySummon(unit, decision.targetPosition, decision.ability, afterAction);
           } else {
             this.finishEnemyTurn(unit);
           }
           break;
+        }
 
         case 'wait':
         default:
@@ -2188,36 +2430,13 @@ export class BattleScene extends Phaser.Scene {
     target: { x: number; y: number },
     onComplete: () => void
   ): void {
-    // Find path to target
-    const path = this.gridManager.findPath(
-      unit.gridX,
-      unit.gridY,
-      target.x,
-      target.y,
-      unit
-    );
-
-    if (!path || path.length === 0) {
-      onComplete();
-      return;
-    }
-
-    // Limit path to movement range
-    let limitedPath = path.slice(0, MOVEMENT_RANGE);
+    // Move the unit (zone entry damage is held until the animation finishes)
+    this.holdBattleEvents();
+    const { from, path } = this.engine.execute({ type: 'move', unit, x: target.x, y: target.y });
 
-    // Ensure final destination is not occupied (can path through allies but not stop on them)
-    while (limitedPath.length > 0) {
-      const finalPos = limitedPath[limitedPath.length - 1];
-      const occupant = this.gridManager.getUnitAt(finalPos.x, finalPos.y);
-      if (!occupant || occupant === unit) {
-        break; // Valid destination
-      }
-      // Trim the path to stop one step earlier
-      limitedPath = limitedPath.slice(0, -1);
-    }
-
-    if (limitedPath.length === 0) {
-      // No valid movement possible
+    if (path.length === 0) {
+      // No valid movement possible, or an opportunity attack dropped the unit before its first step
+      this.releaseBattleEvents();
       onComplete();
       return;
     }
@@ -2226,32 +2445,24 @@ export class BattleScene extends Phaser.Scene {
 
     // Animate movement along path
     let pathIndex = 0;
+    let previous = from;
     const moveAlongPath = () => {
-      if (pathIndex >= limitedPath.length) {
-        // Check for zone entry damage at final position
-        const finalPos = limitedPath[limitedPath.length - 1];
-        if (finalPos) {
-          const zonesEntered = this.getZonesAtPosition(finalPos.x, finalPos.y);
-          for (const zone of zonesEntered) {
-            this.applyZoneDamage(unit, zone, 'entry');
-          }
-        }
+      if (pathIndex >= path.length) {
+        this.releaseBattleEvents();
         onComplete();
         return;
       }
 
-      const nextPos = limitedPath[pathIndex];
+      const nextPos = path[pathIndex];
 
       // Update facing based on movement direction
-      const dx = nextPos.x - unit.gridX;
-      const dy = nextPos.y - unit.gridY;
+      const dx = nextPos.x - previous.x;
+      const dy = nextPos.y - previous.y;
       if (dx > 0) unit.facing = 'east';
       else if (dx < 0) unit.facing = 'west';
       else if (dy > 0) unit.facing = 'south';
       else if (dy < 0) unit.facing = 'north';
-
-      // Update grid manager's unit tracking first (before animation)
-      this.gridManager.moveUnit(unit, nextPos.x, nextPos.y);
+      previous = nextPos;
 
       // Calculate target pixel position for indicator
       const targetPixelX = nextPos.x * GAME_CONFIG.TILE_SIZE + GAME_CONFIG.TILE_SIZE / 2;
@@ -2302,135 +2513,110 @@ export class BattleScene extends Phaser.Scene {
       return;
     }
 
+    // Heroes can answer a spell or melee attack aimed at them before it lands
+    this.offerReactions(getTriggersBeforeAbility(unit, ability, [target]), unit, (countered) => {
+      this.resolveEnemyAttack(unit, target, ability, countered, onComplete);
+    });
+  }
+
+  private resolveEnemyAttack(
+    unit: Unit,
+    target: Unit,
+    ability: Ability,
+    countered: Unit[],
+    onComplete: () => void
+  ): void {
     // Build result lines for action panel
     const resultLines: string[] = [];
 
     // Resolve the attack
-    if (ability.type === 'attack') {
-      // Ambusher's Ring: +2 ATK on first attack of battle
-      let ambusherBonus = 0;
-      if (unit.equipment === 'ambushers_ring' &&
-          unit.equipmentBonusState &&
-          !unit.equipmentBonusState.firstAttackUsed) {
-        ambusherBonus = 2;
-        unit.attack += 2;
-        unit.equipmentBonusState.firstAttackUsed = true;
-        this.addCombatLogMessage(`${unit.name}'s Ambusher's Ring grants +2 ATK!`);
-      }
-
-      const result = resolveAttack(unit, target, ability);
-
-      // Restore attack stat if bonus was applied
-      if (ambusherBonus > 0) {
-        unit.attack -= ambusherBonus;
-      }
+    const outcome = this.engine.execute({ type: 'ability', unit, ability, targets: [target], countered });
+    const { attack, spell, damage, defeated, attackBonus, saveBonus, killHealing } = outcome.targets[0];
 
+    if (outcome.targets[0].countered) {
+      resultLines.push(`${unit.name} casts ${ability.name}!`);
+      resultLines.push(`COUNTERED! The spell fizzles before reaching ${target.name}.`);
+      this.addCombatLogMessage(`${unit.name} → ${ability.name} → ${target.name} (countered)`);
+    } else if (attack) {
       // Build descriptive result lines
-      const rollTotal = result.attackRoll.finalTotal || result.attackRoll.total;
-      const bonusText = ambusherBonus > 0 ? ` (+${ambusherBonus})` : '';
+      const rollTotal = attack.attackRoll.finalTotal || attack.attackRoll.total;
+      const bonusText = attackBonus > 0 ? ` (+${attackBonus})` : '';
       resultLines.push(`${unit.name} uses ${ability.name}!`);
-      resultLines.push(`Rolls ${result.attackRoll.rolls[0]} + ${unit.attack + ambusherBonus}${bonusText} = ${rollTotal} vs DEF ${result.targetNumber}`);
-
-      if (result.hit && result.totalDamage !== undefined) {
-        resultLines.push(`HIT! ${result.totalDamage} damage to ${target.name}!`);
-        this.showDamageNumber(target, result.totalDamage, false);
-        this.trackDamage(result.totalDamage, false);
-
-        // Flash the target
-        if (target.sprite) {
-          target.sprite.setTint(0xff0000);
-          this.time.delayedCall(200, () => {
-            target.sprite?.clearTint();
-          });
-        }
+      resultLines.push(`Rolls ${formatAttackDice(attack)} + ${unit.attack + attackBonus + (attack.highGroundBonus ?? 0) + (attack.facingBonus ?? 0)}${bonusText} = ${rollTotal} vs DEF ${attack.targetNumber}`);
+      const modifierText = formatAttackModifiers(attack);
+      if (modifierText) {
+        resultLines.push(modifierText);
+      }
+      if (attack.highGroundBonus) {
+        resultLines.push(`High ground (+${attack.highGroundBonus} ATK)`);
+      }
+      const positionText = formatAttackPosition(attack);
+      if (positionText) {
+        resultLines.push(positionText);
+      }
+      if (attack.coverBonus) {
+        resultLines.push(`${target.name} is in cover (+${attack.coverBonus} DEF)`);
+      }
 
-        if (result.defenderDefeated) {
-          resultLines.push(`${target.name} is DEFEATED!`);
+      if (attack.hit && attack.totalDamage !== undefined) {
+        resultLines.push(`${attack.critical ? 'CRITICAL HIT!' : 'HIT!'} ${damage} damage to ${target.name}!`);
+        this.flashUnitHit(target);
 
-          // Bloodstone: heal 2 HP on first kill
-          if (unit.equipment === 'bloodstone' &&
-              unit.equipmentBonusState &&
-              !unit.equipmentBonusState.firstKillUsed) {
-            unit.equipmentBonusState.firstKillUsed = true;
-            applyHealing(unit, 2);
-            this.showDamageNumber(unit, 2, true);
-            this.addCombatLogMessage(`${unit.name}'s Bloodstone heals 2 HP!`);
-            resultLines.push(`${unit.name}'s Bloodstone heals 2 HP!`);
+        if (defeated) {
+          resultLines.push(`${target.name} is DEFEATED!`);
+          if (killHealing > 0) {
+            resultLines.push(`${unit.name}'s Bloodstone heals ${killHealing} HP!`);
           }
-
-          this.handleUnitDefeated(target);
         }
       } else {
-        resultLines.push(`MISS!`);
+        resultLines.push(attack.fumble ? `Natural 1 - MISS!` : `MISS!`);
       }
 
       // Combat log
       this.addCombatLogMessage(`${unit.name} → ${ability.name} → ${target.name}`);
-      this.addCombatLogMessage(`  ATK: ${rollTotal} vs DEF ${result.targetNumber} - ${result.hit ? 'HIT' : 'MISS'}`);
+      this.addCombatLogMessage(`  ATK: ${rollTotal} vs DEF ${attack.targetNumber} - ${attack.hit ? 'HIT' : 'MISS'}`);
 
-    } else {
-      // Spell attack
-      // Wardstone: +2 RES on first save of battle (for defender)
-      let wardstoneBonus = 0;
-      if (target.equipment === 'wardstone' &&
-          target.equipmentBonusState &&
-          !target.equipmentBonusState.firstSaveUsed) {
-        wardstoneBonus = 2;
-        target.resilience += 2;
-        target.equipmentBonusState.firstSaveUsed = true;
-        this.addCombatLogMessage(`${target.name}'s Wardstone grants +2 RES!`);
-      }
+    } else if (spell && (ability.type === 'buff' || ability.targetType === 'ally' || ability.targetType === 'self')) {
+      // Heals, buffs and cleanses on the enemy's own side
+      resultLines.push(target === unit ? `${unit.name} uses ${ability.name}!` : `${unit.name} uses ${ability.name} on ${target.name}!`);
 
-      const result = resolveSpell(unit, target, ability);
+      if (spell.totalHealing) {
+        resultLines.push(`Heals ${spell.totalHealing} HP!`);
+      }
 
-      // Restore resilience if bonus was applied
-      if (wardstoneBonus > 0) {
-        target.resilience -= wardstoneBonus;
+      if (spell.effectApplied) {
+        resultLines.push(ability.effect?.type === 'remove_status'
+          ? `Removed ${spell.effectApplied.type} from ${target.name}!`
+          : `${target.name} gains ${spell.effectApplied.type}!`);
       }
 
+      // Combat log
+      this.addCombatLogMessage(`${unit.name} → ${ability.name} → ${target.name}`);
+
+    } else if (spell) {
       resultLines.push(`${unit.name} casts ${ability.name}!`);
 
-      if (result.saveRoll.dice !== 'none') {
-        const saveTotal = result.saveRoll.finalTotal || result.saveRoll.total;
-        const bonusText = wardstoneBonus > 0 ? ` (+${wardstoneBonus})` : '';
-        resultLines.push(`${target.name} rolls ${result.saveRoll.rolls[0]} + ${target.resilience + wardstoneBonus}${bonusText} = ${saveTotal} vs MAG ${result.targetNumber}`);
-        resultLines.push(result.savePassed ? 'Save PASSED!' : 'Save FAILED!');
+      if (spell.saveRoll.dice !== 'none') {
+        const saveTotal = spell.saveRoll.finalTotal || spell.saveRoll.total;
+        const bonusText = saveBonus > 0 ? ` (+${saveBonus})` : '';
+        resultLines.push(`${target.name} rolls ${spell.saveRoll.rolls[0]} + ${target.resilience + saveBonus}${bonusText} = ${saveTotal} vs MAG ${spell.targetNumber}`);
+        resultLines.push(spell.savePassed ? 'Save PASSED!' : 'Save FAILED!');
       }
 
-      if (result.totalDamage !== undefined && result.totalDamage > 0) {
-        resultLines.push(`${result.totalDamage} damage to ${target.name}!`);
-        this.showDamageNumber(target, result.totalDamage, false);
-        this.trackDamage(result.totalDamage, false);
-
-        if (target.sprite) {
-          target.sprite.setTint(0xff0000);
-          this.time.delayedCall(200, () => {
-            target.sprite?.clearTint();
-          });
-        }
+      if (damage > 0) {
+        resultLines.push(`${damage} damage to ${target.name}!`);
+        this.flashUnitHit(target);
       }
 
-      if (result.effectApplied) {
-        resultLines.push(`${target.name} is ${result.effectApplied.type}!`);
-        // Update condition markers to show new effect
-        updateConditionMarkers(target, this);
+      if (spell.effectApplied) {
+        resultLines.push(`${target.name} is ${spell.effectApplied.type}!`);
       }
 
-      if (result.targetDefeated) {
+      if (defeated) {
         resultLines.push(`${target.name} is DEFEATED!`);
-
-        // Bloodstone: heal 2 HP on first kill
-        if (unit.equipment === 'bloodstone' &&
-            unit.equipmentBonusState &&
-            !unit.equipmentBonusState.firstKillUsed) {
-          unit.equipmentBonusState.firstKillUsed = true;
-          applyHealing(unit, 2);
-          this.showDamageNumber(unit, 2, true);
-          this.addCombatLogMessage(`${unit.name}'s Bloodstone heals 2 HP!`);
-          resultLines.push(`${unit.name}'s Bloodstone heals 2 HP!`);
+        if (killHealing > 0) {
+          resultLines.push(`${unit.name}'s Bloodstone heals ${killHealing} HP!`);
         }
-
-        this.handleUnitDefeated(target);
       }
 
       // Combat log
@@ -2438,14 +2624,76 @@ export class BattleScene extends Phaser.Scene {
     }
 
     // Show action result panel, then continue
-    this.showActionResultPanel(resultLines, () => {
-      this.checkBattleEnd();
+    this.showActionResultPanel(resultLines, () => this.finishEnemyAbility(outcome, onComplete));
+  }
+
+  /**
+   * After an enemy ability resolves, let heroes react to its hits and knockouts, then continue
+   */
+  private finishEnemyAbility(outcome: AbilityOutcome, onComplete: () => void): void {
+    this.engine.checkBattleEnd();
+    if (this.phase === 'victory' || this.phase === 'defeat') return;
+
+    this.offerReactions(getTriggersAfterAbility(outcome), outcome.unit, () => {
+      this.engine.checkBattleEnd();
       if (this.phase !== 'victory' && this.phase !== 'defeat') {
         onComplete();
       }
     });
   }
 
+  /**
+   * Ask the player about each reaction an enemy action triggers, one window at a time -
+   * the first hero who says yes answers it. Calls back with the targets a Counterspell protects.
+   */
+  private offerReactions(windows: ReactionWindow[], source: Unit, onDone: (countered: Unit[]) => void): void {
+    const countered: Unit[] = [];
+
+    const offerWindow = (windowIndex: number): void => {
+      const window = windows[windowIndex];
+      if (!window) {
+        onDone(countered);
+        return;
+      }
+
+      const reactions = this.engine.getReactions(window.trigger, source, window.subject)
+        .filter(reaction => reaction.unit.team === 'hero' && this.isAbilityUnlocked(reaction.unit, reaction.ability));
+
+      const offer = (index: number): void => {
+        const reaction = reactions[index];
+        if (!reaction) {
+          offerWindow(windowIndex + 1);
+          return;
+        }
+
+        const { unit, ability, subject } = reaction;
+        const cost = ability.cost > 0 && ability.costType ? ` (${ability.cost} ${ability.costType})` : '';
+        this.showFloatingMessage(`${subject.name} ${REACTION_TRIGGER_TEXT[window.trigger]}!`, 0xffdd44, 1500);
+        this.addCombatLogMessage(`${unit.name} can react: ${ability.name}${cost}`);
+
+        this.showChoiceMenu([`${ability.name}${cost}`, 'No'], (choice) => {
+          if (choice === 'No') {
+            offer(index + 1);
+            return;
+          }
+
+          this.engine.execute({ type: 'reaction', reaction });
+          if (ability.reaction?.counters) {
+            countered.push(subject);
+          }
+          updateHpBar(unit);
+          updateConditionMarkers(unit, this);
+          updateConditionMarkers(subject, this);
+          this.time.delayedCall(600, () => offerWindow(windowIndex + 1));
+        }, unit);
+      };
+
+      offer(0);
+    };
+
+    offerWindow(0);
+  }
+
   /**
    * Execute enemy AOE attack - hits all heroes in the area
    */
@@ -2457,34 +2705,17 @@ export class BattleScene extends Phaser.Scene {
   ): void {
     if (!ability.areaSize) return;
 
-    // Calculate AOE area centered on the primary target
-    // The AOE origin is positioned so the target is roughly in the center
-    const aoeWidth = ability.areaSize.width;
-    const aoeHeight = ability.areaSize.height;
-    const originX = Math.max(0, primaryTarget.gridX - Math.floor(aoeWidth / 2));
-    const originY = Math.max(0, primaryTarget.gridY - Math.floor(aoeHeight / 2));
-
-    // Find all heroes in the AOE area
-    const heroesInArea = this.units.filter(u => {
-      if (u.team !== 'hero' || u.isUnconscious) return false;
-      return u.gridX >= originX &&
-             u.gridX < originX + aoeWidth &&
-             u.gridY >= originY &&
-             u.gridY < originY + aoeHeight;
-    });
+    // AOE area is centered on the primary target
+    const area = this.engine.getAreaAroundTarget(ability, primaryTarget);
+    const heroesInArea = this.engine.getUnitsInArea(area).filter(u => !areAllied(u, unit));
 
     // Show visual indicator of AOE area
-    this.showEnemyAOEIndicator(originX, originY, aoeWidth, aoeHeight, heroesInArea);
-
-    // Pay the mana cost
-    if (ability.cost && ability.costType === 'mana' && unit.currentMana !== undefined) {
-      unit.currentMana = Math.max(0, unit.currentMana - ability.cost);
-    }
+    this.showEnemyAOEIndicator(area.originX, area.originY, area.width, area.height, heroesInArea);
 
     // Build result lines
     const resultLines: string[] = [];
     resultLines.push(`${unit.name} casts ${ability.name}!`);
-    resultLines.push(`(${aoeWidth}x${aoeHeight} area)`);
+    resultLines.push(`(${area.width}x${area.height} area)`);
 
     this.addCombatLogMessage(`${unit.name} → ${ability.name} (AOE)`);
 
@@ -2493,77 +2724,97 @@ export class BattleScene extends Phaser.Scene {
       // Clear AOE indicator
       this.clearEnemyAOEIndicator();
 
-      if (heroesInArea.length === 0) {
-        resultLines.push('No targets hit!');
-        this.addCombatLogMessage('  No targets hit!');
-      } else {
-        let totalDefeated = 0;
-
+      // Heroes caught in the area can answer the spell before it lands
+      this.offerReactions(getTriggersBeforeAbility(unit, ability, heroesInArea), unit, (countered) => {
         // Resolve spell against each hero in the area
-        heroesInArea.forEach(target => {
-          // Wardstone: +2 RES on first save of battle
-          let wardstoneBonus = 0;
-          if (target.equipment === 'wardstone' &&
-              target.equipmentBonusState &&
-              !target.equipmentBonusState.firstSaveUsed) {
-            wardstoneBonus = 2;
-            target.resilience += 2;
-            target.equipmentBonusState.firstSaveUsed = true;
-            this.addCombatLogMessage(`${target.name}'s Wardstone grants +2 RES!`);
-          }
+        const outcome = this.engine.execute({ type: 'ability', unit, ability, targets: heroesInArea, area, countered });
+        this.reportEnemyAOEAttack(outcome, resultLines);
 
-          const result = resolveSpell(unit, target, ability);
+        // Show action result panel, then continue
+        this.showActionResultPanel(resultLines, () => this.finishEnemyAbility(outcome, onComplete));
+      });
+    });
+  }
 
-          // Restore resilience if bonus was applied
-          if (wardstoneBonus > 0) {
-            target.resilience -= wardstoneBonus;
-          }
+  /**
+   * Enemy summon - mark the chosen tile, then bring the summoned unit in
+   */
+  private executeEnemySummon(
+    unit: Unit,
+    tile: { x: number; y: number },
+    ability: Ability,
+    onComplete: () => void
+  ): void {
+    const area = { originX: tile.x, originY: tile.y, width: 1, height: 1 };
+    this.showEnemyAOEIndicator(area.originX, area.originY, area.width, area.height, []);
+    this.addCombatLogMessage(`${unit.name} → ${ability.name}`);
 
-          // Log save roll
-          if (result.saveRoll.dice !== 'none') {
-            const saveTotal = result.saveRoll.finalTotal || result.saveRoll.total;
-            const bonusText = wardstoneBonus > 0 ? `(+${wardstoneBonus})` : '';
-            const saveResult = result.savePassed ? 'SAVED!' : 'FAILED!';
-            this.addCombatLogMessage(`  ${target.name}: SAVE ${result.saveRoll.rolls[0]}+${target.resilience + wardstoneBonus}${bonusText}=${saveTotal} - ${saveResult}`);
-            resultLines.push(`${target.name}: ${saveResult}`);
-          }
+    this.time.delayedCall(600, () => {
+      this.clearEnemyAOEIndicator();
 
-          // Apply damage
-          if (result.totalDamage !== undefined && result.totalDamage > 0) {
-            this.addCombatLogMessage(`    DMG: ${result.totalDamage}`);
-            resultLines.push(`  ${result.totalDamage} damage!`);
-            this.showDamageNumber(target, result.totalDamage, false);
-            this.trackDamage(result.totalDamage, false);
-
-            // Flash the target
-            if (target.sprite) {
-              target.sprite.setTint(0xff0000);
-              this.time.delayedCall(200, () => {
-                target.sprite?.clearTint();
-              });
-            }
-          }
+      const outcome = this.engine.execute({ type: 'ability', unit, ability, targets: [], area });
+      const resultLines = [`${unit.name} casts ${ability.name}!`];
+      resultLines.push(outcome.summoned ? `${outcome.summoned.name} appears!` : 'The summoning fails!');
 
-          if (result.targetDefeated) {
-            totalDefeated++;
-            resultLines.push(`${target.name} is DEFEATED!`);
-            this.handleUnitDefeated(target);
-          }
-        });
+      this.showActionResultPanel(resultLines, () => this.finishEnemyAbility(outcome, onComplete));
+    });
+  }
 
-        if (totalDefeated > 0) {
-          this.addCombatLogMessage(`  ${totalDefeated} defeated!`);
-        }
+  /**
+   * Add each target's save, damage and defeat from an enemy AOE to the log and result lines
+   */
+  private reportEnemyAOEAttack(outcome: AbilityOutcome, resultLines: string[]): void {
+    if (outcome.targets.length === 0) {
+      resultLines.push('No targets hit!');
+      this.addCombatLogMessage('  No targets hit!');
+      return;
+    }
+
+    let totalDefeated = 0;
+
+    outcome.targets.forEach(({ target, spell, damage, defeated, saveBonus, countered }) => {
+      if (countered) {
+        this.addCombatLogMessage(`  ${target.name}: COUNTERED!`);
+        resultLines.push(`${target.name}: COUNTERED!`);
+        return;
       }
 
-      // Show action result panel, then continue
-      this.showActionResultPanel(resultLines, () => {
-        this.checkBattleEnd();
-        if (this.phase !== 'victory' && this.phase !== 'defeat') {
-          onComplete();
-        }
-      });
+      // Log save roll
+      if (spell && spell.saveRoll.dice !== 'none') {
+        const saveTotal = spell.saveRoll.finalTotal || spell.saveRoll.total;
+        const bonusText = saveBonus > 0 ? `(+${saveBonus})` : '';
+        const saveResult = spell.savePassed ? 'SAVED!' : 'FAILED!';
+        this.addCombatLogMessage(`  ${target.name}: SAVE ${spell.saveRoll.rolls[0]}+${target.resilience + saveBonus}${bonusText}=${saveTotal} - ${saveResult}`);
+        resultLines.push(`${target.name}: ${saveResult}`);
+      }
+
+      if (damage > 0) {
+        this.addCombatLogMessage(`    DMG: ${damage}`);
+        resultLines.push(`  ${damage} damage!`);
+        this.flashUnitHit(target);
+      }
+
+      if (defeated) {
+        totalDefeated++;
+        resultLines.push(`${target.name} is DEFEATED!`);
+      }
     });
+
+    if (totalDefeated > 0) {
+      this.addCombatLogMessage(`  ${totalDefeated} defeated!`);
+    }
+  }
+
+  /**
+   * Briefly tint a unit red when it takes damage
+   */
+  private flashUnitHit(unit: Unit): void {
+    if (unit.sprite) {
+      unit.sprite.setTint(0xff0000);
+      this.time.delayedCall(200, () => {
+        unit.sprite?.clearTint();
+      });
+    }
   }
 
   /**
@@ -2646,33 +2897,19 @@ export class BattleScene extends Phaser.Scene {
     this.deselectUnit();
 
     // Advance to next unit
-    this.currentTurnIndex++;
+    this.engine.endTurn();
     this.startNextTurn();
   }
 
   /**
-   * Handle end of round - process status effects, check victory/defeat
+   * Handle end of round - zone durations tick down, then check victory/defeat
    */
   private endRound(): void {
-    this.phase = 'round_end';
-
     // Track completed rounds
-    this.battleStats.roundsCompleted = this.round;
-
-    // Process zone durations (decrement and remove expired)
-    this.processZoneRoundEnd();
+    this.battleStats.roundsCompleted = this.engine.state.round;
 
-    // Check victory/defeat conditions
-    const allEnemiesDefeated = this.enemyUnits.every((u) => u.isUnconscious);
-    const allHeroesDefeated = this.heroUnits.every((u) => u.isUnconscious);
-
-    if (allEnemiesDefeated) {
-      this.handleVictory();
-      return;
-    }
-
-    if (allHeroesDefeated) {
-      this.handleDefeat();
+    // Victory/defeat is handled by the battle_end event
+    if (this.engine.endRound()) {
       return;
     }
 
@@ -2686,12 +2923,11 @@ export class BattleScene extends Phaser.Scene {
    * Handle victory condition
    */
   private handleVictory(): void {
-    this.phase = 'victory';
     this.hideActiveUnitPanel();
     this.showFloatingMessage('Victory!', 0x44ff44);
 
     // Update final round count
-    this.battleStats.roundsCompleted = this.round;
+    this.battleStats.roundsCompleted = this.engine.state.round;
 
     // Mark this battle as complete in game flags
     this.gameFlags[`${this.battleMap}_battle_complete`] = true;
@@ -2706,12 +2942,11 @@ export class BattleScene extends Phaser.Scene {
    * Handle defeat condition
    */
   private handleDefeat(): void {
-    this.phase = 'defeat';
     this.hideActiveUnitPanel();
     this.showFloatingMessage('Defeat...', 0xff4444);
 
     // Update final round count
-    this.battleStats.roundsCompleted = this.round;
+    this.battleStats.roundsCompleted = this.engine.state.round;
 
     // Show defeat screen after a brief delay
     this.time.delayedCall(1000, () => {
@@ -2963,8 +3198,8 @@ export class BattleScene extends Phaser.Scene {
       this.time.delayedCall(300, () => {
         this.showMerisEncounter();
       });
-    } else if (this.battleMap === 'quetzi_shrine' && this.propSprites.length >= 3) {
-      // Special rescue animation for Quetzi Shrine
+    } else if (this.battleConfig.postVictoryScene === 'quetzi_rescue' && this.propSprites.length >= 3) {
+      // Rescuers carry Quetzi off the map
       this.time.delayedCall(300, () => {
         this.playQuetziRescueAnimation();
       });
@@ -3139,9 +3374,9 @@ export class BattleScene extends Phaser.Scene {
     // Draw exit trigger zone visualization
     this.drawExitTriggers();
 
-    // Spawn shrine for Quetzi Shrine map (at Vessan's old position)
-    if (this.battleMap === 'quetzi_shrine') {
-      this.spawnExplorationShrine(11, 8);
+    // Spawn a save shrine if the battle has one
+    if (this.battleConfig.explorationShrine) {
+      this.spawnExplorationShrine(this.battleConfig.explorationShrine.x, this.battleConfig.explorationShrine.y);
     }
 
     // Spawn treasure chests for this battle map
@@ -3548,17 +3783,17 @@ export class BattleScene extends Phaser.Scene {
   }
 
   /**
-   * Position choice menu relative to exploration leader
+   * Position choice menu relative to a unit (the exploration leader by default)
    */
-  private positionChoiceMenuForPlayer(): void {
-    if (!this.explorationLeader) return;
-    const playerWorldX = this.explorationLeader.gridX * GAME_CONFIG.TILE_SIZE + GAME_CONFIG.TILE_SIZE / 2;
-    const playerWorldY = this.explorationLeader.gridY * GAME_CONFIG.TILE_SIZE + GAME_CONFIG.TILE_SIZE / 2;
+  private positionChoiceMenu(anchor: Unit | null = this.explorationLeader): void {
+    if (!anchor) return;
+    const playerWorldX = anchor.gridX * GAME_CONFIG.TILE_SIZE + GAME_CONFIG.TILE_SIZE / 2;
+    const playerWorldY = anchor.gridY * GAME_CONFIG.TILE_SIZE + GAME_CONFIG.TILE_SIZE / 2;
     // Position above and to the right of player to avoid bottom cutoff
     this.choiceMenuContainer.setPosition(playerWorldX + 50, playerWorldY - 80);
   }
 
-  private showChoiceMenu(options: string[], callback: (choice: string) => void): void {
+  private showChoiceMenu(options: string[], callback: (choice: string) => void, anchor?: Unit): void {
     this.choiceMenuOptions = options;
     this.choiceMenuCallback = callback;
     this.choiceMenuSelectedIndex = 0;
@@ -3610,7 +3845,7 @@ export class BattleScene extends Phaser.Scene {
     });
 
     // Position relative to player and show
-    this.positionChoiceMenuForPlayer();
+    this.positionChoiceMenu(anchor);
     this.updateChoiceMenuSelection();
     this.choiceMenuContainer.setVisible(true);
   }
@@ -3941,8 +4176,9 @@ export class BattleScene extends Phaser.Scene {
       this.uiContainer.setVisible(false);
     }
 
-    // Destroy enemy sprites
-    this.enemyUnits.forEach((enemy) => {
+    // Destroy enemy sprites, and those of allies and summons that fought with the party
+    const otherUnits = this.units.filter(u => u.team !== 'enemy' && !this.heroUnits.includes(u));
+    [...this.enemyUnits, ...otherUnits].forEach((enemy) => {
       if (enemy.sprite) {
         enemy.sprite.destroy();
       }
@@ -4032,10 +4268,8 @@ export class BattleScene extends Phaser.Scene {
     if (!this.activeUnit || this.activeUnit.team !== 'hero') return;
     if (this.phase !== 'select_action' && this.phase !== 'select_move') return;
 
-    // Mark as having used all actions
-    this.activeUnit.hasMoved = true;
-    this.activeUnit.hasActed = true;
-    this.activeUnit.actionsRemaining = 0;
+    // Use up the rest of the turn
+    this.engine.execute({ type: 'wait', unit: this.activeUnit });
 
     this.showFloatingMessage(`${this.activeUnit.name} waits`);
 
@@ -4045,6 +4279,82 @@ export class BattleScene extends Phaser.Scene {
     });
   }
 
+  /**
+   * Undo action - put the active hero back where it was before moving
+   */
+  private undoMoveAction(): void {
+    if (!this.activeUnit || this.activeUnit.team !== 'hero') return;
+    if (this.phase !== 'select_action' && this.phase !== 'select_move') return;
+
+    const unit = this.activeUnit;
+    const { to, undone } = this.engine.execute({ type: 'undo_move', unit });
+    if (!undone) {
+      this.showActionMenu();
+      return;
+    }
+
+    // Snap the sprite back and restore its facing, HP bar and condition markers
+    moveUnitToGrid(unit, to.x, to.y, this, false);
+    this.setUnitFacingSprite(unit);
+    updateHpBar(unit);
+    updateConditionMarkers(unit, this);
+    this.updateActiveUnitPanel();
+
+    this.addCombatLogMessage(`${unit.name} returns to their starting position.`);
+    this.showActionMenu();
+  }
+
+  /**
+   * Interact action - use the objective object or hazard switch next to the active hero
+   */
+  private interactAction(): void {
+    if (!this.activeUnit || this.activeUnit.team !== 'hero') return;
+
+    const unit = this.activeUnit;
+    const object = this.engine.getInteractableObjects(unit)[0];
+    if (!object || !this.engine.execute({ type: 'interact', unit, objectId: object.id })) {
+      this.showActionMenu();
+      return;
+    }
+
+    this.showFloatingMessage(`${unit.name} uses the ${object.name}`, 0xffdd44);
+
+    this.time.delayedCall(800, () => {
+      this.engine.checkBattleEnd();
+      if (this.phase === 'victory' || this.phase === 'defeat') {
+        return;
+      }
+
+      // Check if unit can still act (Azrael's double action)
+      if (unit.actionsRemaining > 0) {
+        this.showActionMenu();
+      } else {
+        this.endCurrentTurn();
+      }
+    });
+  }
+
+  /**
+   * Disengage action - spend the action so this turn's move doesn't provoke opportunity attacks
+   */
+  private disengageAction(): void {
+    if (!this.activeUnit || this.activeUnit.team !== 'hero') return;
+
+    const unit = this.activeUnit;
+    if (!this.engine.execute({ type: 'disengage', unit })) {
+      this.showActionMenu();
+      return;
+    }
+
+    this.addCombatLogMessage(`${unit.name} disengages.`);
+    this.showFloatingMessage(`${unit.name} disengages`, 0xaaaaaa);
+    updateConditionMarkers(unit, this);
+    this.updateActiveUnitPanel();
+
+    // The hero can still move (and act again with Azrael's double action)
+    this.time.delayedCall(800, () => this.showActionMenu());
+  }
+
   /**
    * Show floating message in center of screen
    */
@@ -4101,11 +4411,11 @@ export class BattleScene extends Phaser.Scene {
     const container = this.add.container(unit.sprite.x, unit.sprite.y);
     container.setDepth(45); // Below HP bars but above ground
 
-    const size = GAME_CONFIG.TILE_SIZE;
+    const size = GAME_CONFIG.TILE_SIZE * getUnitSize(unit);
     const halfSize = size / 2;
     const bracketLength = 8;
     const bracketWidth = 3;
-    const color = 0xff4444; // Red to match enemy theme
+    const color = TEAM_COLORS[unit.team]; // Red for enemies, blue for allies
 
     // Draw 4 corner brackets
     const graphics = this.add.graphics();
@@ -4377,9 +4687,10 @@ export class BattleScene extends Phaser.Scene {
     this.cameras.main.ignore(this.turnOrderContainer);
 
     // List units in turn order
+    const { turnOrder, currentTurnIndex } = this.engine.state;
     const maxDisplay = 8;
-    const startIdx = Math.max(0, this.currentTurnIndex - 2);
-    const endIdx = Math.min(this.turnOrder.length, startIdx + maxDisplay);
+    const startIdx = Math.max(0, currentTurnIndex - 2);
+    const endIdx = Math.min(turnOrder.length, startIdx + maxDisplay);
 
     // Background
     const bgHeight = (endIdx - startIdx) * rowHeight + 45;
@@ -4400,18 +4711,18 @@ export class BattleScene extends Phaser.Scene {
     let y = 35;
 
     for (let i = startIdx; i < endIdx; i++) {
-      const entry = this.turnOrder[i];
-      const isActive = i === this.currentTurnIndex;
-      const isPast = i < this.currentTurnIndex;
+      const entry = turnOrder[i];
+      const isActive = i === currentTurnIndex;
+      const isPast = i < currentTurnIndex;
 
       // Color based on team and status
-      let color = entry.unit.team === 'hero' ? '#44ff44' : '#ff4444';
+      let color = `#${TEAM_COLORS[entry.unit.team].toString(16).padStart(6, '0')}`;
       if (isPast) color = '#666666';
       if (entry.unit.isUnconscious) color = '#333333';
 
       // Add portrait
       const heroData = this.heroesData[entry.unit.dataId];
-      const enemyData = this.enemiesData[entry.unit.dataId];
+      const enemyData = this.getAIUnitData(entry.unit.dataId);
       const portraitKey = heroData?.portrait || enemyData?.sprite || null;
 
       if (portraitKey) {
@@ -4422,7 +4733,7 @@ export class BattleScene extends Phaser.Scene {
           portrait.setDisplaySize(portraitSize, portraitSize);
 
           // Determine border color based on status effects (priority: active > status > team)
-          let borderColor = isActive ? 0xffff00 : (entry.unit.team === 'hero' ? 0x44ff44 : 0xff4444);
+          let borderColor = isActive ? 0xffff00 : TEAM_COLORS[entry.unit.team];
           let borderWidth = isActive ? 2 : 1;
 
           // Check for status effects and use the first one's color
@@ -4536,8 +4847,8 @@ export class BattleScene extends Phaser.Scene {
     }
 
     // Show "..." if there are more units
-    if (endIdx < this.turnOrder.length) {
-      const moreText = this.add.text(panelWidth / 2, y, `+${this.turnOrder.length - endIdx} more`, {
+    if (endIdx < turnOrder.length) {
+      const moreText = this.add.text(panelWidth / 2, y, `+${turnOrder.length - endIdx} more`, {
         fontFamily: 'monospace',
         fontSize: '10px',
         color: '#666666',
@@ -4819,15 +5130,14 @@ export class BattleScene extends Phaser.Scene {
     const colWidth = 52;
 
     // Check for status effects that modify stats
-    const hasBarkskin = hasStatusEffect(unit, 'barkskin');
-    const hasExposed = hasStatusEffect(unit, 'exposed');
-    const hasImmobilized = hasStatusEffect(unit, 'immobilized');
+    const defenseModifier = getStatusModifier(unit, 'defense');
+    const hasImmobilized = isMovementPrevented(unit);
 
     // Helper to get stat color
     const getStatColor = (stat: string): string => {
       if (stat === 'DEF') {
-        if (hasBarkskin) return '#44ff44'; // Buffed - green
-        if (hasExposed) return '#ff4444'; // Debuffed - red
+        if (defenseModifier > 0) return '#44ff44'; // Buffed - green
+        if (defenseModifier < 0) return '#ff4444'; // Debuffed - red
       }
       if (stat === 'MOV' && hasImmobilized) {
         return '#ff4444'; // Debuffed - red
@@ -5005,7 +5315,7 @@ export class BattleScene extends Phaser.Scene {
     // First option: Move or Wait (Move if hasn't moved, Wait if already moved)
     if (!this.activeUnit.hasMoved) {
       // Check if immobilized
-      const isImmobilized = hasStatusEffect(this.activeUnit, 'immobilized');
+      const isImmobilized = isMovementPrevented(this.activeUnit);
       options.push({
         label: isImmobilized ? 'Move (Immobilized!)' : 'Move (M)',
         action: 'move',
@@ -5018,22 +5328,27 @@ export class BattleScene extends Phaser.Scene {
         action: 'wait',
         enabled: true,
       });
-    }
 
-    // Get hero level for ability filtering from heroState (not static heroesData)
-    const heroState = this.heroState[this.activeUnit.dataId];
-    const heroLevel = heroState?.level ?? 1;
+      // Misclicked moves can be taken back until the unit acts
+      if (this.engine.canUndoMove(this.activeUnit)) {
+        options.push({
+          label: 'Undo Move (U)',
+          action: 'undo_move',
+          enabled: true,
+        });
+      }
+    }
 
     // Add abilities with hotkey hints
     const abilityKeys = ['A', 'S', 'D'];
     let abilityIndex = 0;
     for (const abilityId of this.activeUnit.abilities) {
       const ability = this.abilitiesData[abilityId];
-      if (!ability) continue;
+      // Reactions are offered on enemy turns, not picked from the menu
+      if (!ability || ability.reaction) continue;
 
       // Check level requirement
-      const levelRequired = ability.levelRequired ?? 1;
-      const meetsLevelRequirement = heroLevel >= levelRequired || this.devMode;
+      const meetsLevelRequirement = this.isAbilityUnlocked(this.activeUnit, ability);
 
       const canUse = canUseAbility(this.activeUnit, ability);
       let costStr: string | undefined;
@@ -5060,6 +5375,29 @@ export class BattleScene extends Phaser.Scene {
       abilityIndex++;
     }
 
+    // Interact with an objective object next to the hero
+    const interactable = this.engine.getInteractableObjects(this.activeUnit);
+    if (interactable.length > 0) {
+      options.push({
+        label: `Interact: ${interactable[0].name} (F)`,
+        action: 'interact',
+        enabled: !this.activeUnit.hasActed,
+      });
+    }
+
+    // Disengage to step away from adjacent enemies without provoking opportunity attacks
+    const activeUnit = this.activeUnit;
+    const nextToEnemy = this.units.some(u =>
+      !areAllied(u, activeUnit) && !u.isUnconscious && getUnitDistance(activeUnit, u) <= 1
+    );
+    if (this.battleConfig.zoneOfControl && !activeUnit.hasMoved && nextToEnemy) {
+      options.push({
+        label: 'Disengage (G)',
+        action: 'disengage',
+        enabled: !activeUnit.hasActed,
+      });
+    }
+
     // Add Item option (after abilities, before Wait)
     const hasItems = this.inventoryManager.hasAnyConsumables();
     options.push({
@@ -5080,6 +5418,15 @@ export class BattleScene extends Phaser.Scene {
     return options;
   }
 
+  /**
+   * Whether a hero has reached the level an ability needs (dev mode unlocks everything)
+   * Hero level comes from heroState (not static heroesData)
+   */
+  private isAbilityUnlocked(unit: Unit, ability: Ability): boolean {
+    const heroLevel = this.heroState[unit.dataId]?.level ?? 1;
+    return heroLevel >= (ability.levelRequired ?? 1) || this.devMode;
+  }
+
   /**
    * Navigate the action menu
    */
@@ -5127,6 +5474,15 @@ export class BattleScene extends Phaser.Scene {
     if (selected.action === 'wait') {
       this.hideActionMenu();
       this.waitAction();
+    } else if (selected.action === 'undo_move') {
+      this.hideActionMenu();
+      this.undoMoveAction();
+    } else if (selected.action === 'interact') {
+      this.hideActionMenu();
+      this.interactAction();
+    } else if (selected.action === 'disengage') {
+      this.hideActionMenu();
+      this.disengageAction();
     } else if (selected.action === 'move') {
       this.hideActionMenu();
       // Enter movement mode for the active unit
@@ -5460,171 +5816,91 @@ export class BattleScene extends Phaser.Scene {
     this.targetHighlightGraphics.clear();
 
     // Execute the item effect
-    this.resolveItemEffect(item, target);
-  }
-
-  /**
-   * Resolve item effect on target
-   */
-  private resolveItemEffect(item: ItemData, target: Unit): void {
-    if (!this.activeUnit) return;
+    const outcome = this.engine.execute({ type: 'item', unit: this.activeUnit, item, target });
+    const { unit: user, effect } = outcome;
 
-    const user = this.activeUnit;
+    switch (effect.type) {
+      case 'heal': {
+        // Healing Potion
+        this.addCombatLogMessage(`${user.name} uses ${item.name} on ${target.name}!`);
+        this.addCombatLogMessage(`Healed ${effect.restored} HP (${item.effect.amount}: ${effect.rolled})`);
+        this.showItemResultPanel(outcome, `+${effect.restored} HP`);
+        break;
+      }
 
-    switch (item.effect.type) {
-      case 'heal':
-        this.resolveHealingItem(item, user, target);
+      case 'restore_resource': {
+        // Distilled Dendritium
+        this.addCombatLogMessage(`${user.name} uses ${item.name} on ${target.name}!`);
+        this.addCombatLogMessage(`Restored ${effect.restored} ${effect.resource} (${item.effect.amount}: ${effect.rolled})`);
+        this.showItemResultPanel(outcome, `+${effect.restored} ${effect.resource}`);
         break;
+      }
 
-      case 'restore_resource':
-        this.resolveResourceItem(item, user, target);
+      case 'remove_condition': {
+        // Antidote, Celestial Tears
+        this.addCombatLogMessage(`${user.name} uses ${item.name} on ${target.name}!`);
+        if (!effect.removed) {
+          this.addCombatLogMessage(effect.condition === 'any'
+            ? `${target.name} has no conditions to remove!`
+            : `${target.name} is not affected by ${effect.condition}!`);
+          this.showItemResultPanel(outcome, 'No effect');
+        } else {
+          this.addCombatLogMessage(`${effect.removed} removed!`);
+          this.showItemResultPanel(outcome, `${effect.removed} removed`);
+        }
         break;
+      }
 
-      case 'remove_condition':
-        this.resolveConditionRemovalItem(item, user, target);
+      case 'no_resource':
+        // Target has no mana or ki (shouldn't happen for heroes)
+        this.addCombatLogMessage(`${user.name} uses ${item.name} on ${target.name}!`);
+        this.addCombatLogMessage(`${target.name} has no resource to restore!`);
+        this.finishItemUse();
         break;
 
-      default:
-        console.warn(`Unknown item effect type: ${item.effect.type}`);
+      case 'unsupported':
+        console.warn(`Unknown item effect type: ${effect.effectType}`);
         this.finishItemUse();
+        break;
     }
   }
 
   /**
-   * Resolve healing item (Healing Potion)
+   * Show item result panel and wait for click to continue
    */
-  private resolveHealingItem(item: ItemData, user: Unit, target: Unit): void {
-    const healDice = item.effect.amount as string;
-    const healRoll = rollDice(healDice);
-    const healAmount = Math.min(healRoll.total, target.maxHp - target.currentHp);
-
-    target.currentHp = Math.min(target.maxHp, target.currentHp + healRoll.total);
+  private showItemResultPanel(outcome: ItemOutcome, result: string): void {
+    const { item, unit: user, target, xpEarned } = outcome;
 
-    // Update HP bar
-    updateHpBar(target);
+    // Remove the item from inventory
+    this.inventoryManager.removeConsumable(item.id as ConsumableId);
 
-    // Combat log
-    this.addCombatLogMessage(`${user.name} uses ${item.name} on ${target.name}!`);
-    this.addCombatLogMessage(`Healed ${healAmount} HP (${healDice}: ${healRoll.total})`);
+    // Create result panel similar to action result panel
+    const screenWidth = this.cameras.main.width;
+    const screenHeight = this.cameras.main.height;
 
-    // Show result panel
-    this.showItemResultPanel(item, user, target, `+${healAmount} HP`);
-  }
+    this.actionResultPanel = this.add.container(screenWidth / 2, screenHeight / 2 - 50);
+    this.actionResultPanel.setScrollFactor(0);
+    this.actionResultPanel.setDepth(600);
+    this.cameras.main.ignore(this.actionResultPanel);
 
-  /**
-   * Resolve resource restoration item (Distilled Dendritium)
-   */
-  private resolveResourceItem(item: ItemData, user: Unit, target: Unit): void {
-    const restoreDice = item.effect.amount as string;
-    const restoreRoll = rollDice(restoreDice);
+    // Background - taller to fit XP line
+    const panelWidth = 280;
+    const panelHeight = 120;
+    const bg = this.add.graphics();
+    bg.fillStyle(0x000000, 0.9);
+    bg.fillRoundedRect(-panelWidth / 2, 0, panelWidth, panelHeight, 8);
+    bg.lineStyle(2, 0x44ff44, 0.8);
+    bg.strokeRoundedRect(-panelWidth / 2, 0, panelWidth, panelHeight, 8);
+    this.actionResultPanel.add(bg);
 
-    let resourceRestored = 0;
-    let resourceName = '';
-
-    // Restore mana or ki depending on the target
-    if (target.currentMana !== undefined && target.maxMana !== undefined) {
-      resourceRestored = Math.min(restoreRoll.total, target.maxMana - target.currentMana);
-      target.currentMana = Math.min(target.maxMana, target.currentMana + restoreRoll.total);
-      resourceName = 'MP';
-    } else if (target.currentKi !== undefined && target.maxKi !== undefined) {
-      resourceRestored = Math.min(restoreRoll.total, target.maxKi - target.currentKi);
-      target.currentKi = Math.min(target.maxKi, target.currentKi + restoreRoll.total);
-      resourceName = 'Ki';
-    } else {
-      // Target has no mana or ki (shouldn't happen for heroes)
-      this.addCombatLogMessage(`${user.name} uses ${item.name} on ${target.name}!`);
-      this.addCombatLogMessage(`${target.name} has no resource to restore!`);
-      this.finishItemUse();
-      return;
-    }
-
-    // Combat log
-    this.addCombatLogMessage(`${user.name} uses ${item.name} on ${target.name}!`);
-    this.addCombatLogMessage(`Restored ${resourceRestored} ${resourceName} (${restoreDice}: ${restoreRoll.total})`);
-
-    // Show result panel
-    this.showItemResultPanel(item, user, target, `+${resourceRestored} ${resourceName}`);
-  }
-
-  /**
-   * Resolve condition removal item (Antidote, Celestial Tears)
-   */
-  private resolveConditionRemovalItem(item: ItemData, user: Unit, target: Unit): void {
-    const conditionToRemove = item.effect.condition;
-
-    if (conditionToRemove === 'any') {
-      // Celestial Tears - remove any one condition
-      if (target.statusEffects.length === 0) {
-        this.addCombatLogMessage(`${user.name} uses ${item.name} on ${target.name}!`);
-        this.addCombatLogMessage(`${target.name} has no conditions to remove!`);
-        this.showItemResultPanel(item, user, target, 'No effect');
-        return;
-      }
-
-      // Remove the first condition
-      const removed = target.statusEffects.shift();
-      if (removed) {
-        this.addCombatLogMessage(`${user.name} uses ${item.name} on ${target.name}!`);
-        this.addCombatLogMessage(`${removed.type} removed!`);
-        updateConditionMarkers(target, this);
-        this.showItemResultPanel(item, user, target, `${removed.type} removed`);
-      }
-    } else {
-      // Specific condition removal (Antidote removes poison)
-      const conditionIndex = target.statusEffects.findIndex(e => e.type === conditionToRemove);
-
-      if (conditionIndex === -1) {
-        this.addCombatLogMessage(`${user.name} uses ${item.name} on ${target.name}!`);
-        this.addCombatLogMessage(`${target.name} is not affected by ${conditionToRemove}!`);
-        this.showItemResultPanel(item, user, target, 'No effect');
-        return;
-      }
-
-      target.statusEffects.splice(conditionIndex, 1);
-      this.addCombatLogMessage(`${user.name} uses ${item.name} on ${target.name}!`);
-      this.addCombatLogMessage(`${conditionToRemove} removed!`);
-      updateConditionMarkers(target, this);
-      this.showItemResultPanel(item, user, target, `${conditionToRemove} removed`);
-    }
-  }
-
-  /**
-   * Show item result panel and wait for click to continue
-   */
-  private showItemResultPanel(item: ItemData, user: Unit, target: Unit, result: string): void {
-    // Remove the item from inventory
-    this.inventoryManager.removeConsumable(this.selectedItemId as ConsumableId);
-
-    // Award XP for using an item
-    const xpEarned = this.xpTracker.awardItemXP(user.dataId, item.name);
-
-    // Create result panel similar to action result panel
-    const screenWidth = this.cameras.main.width;
-    const screenHeight = this.cameras.main.height;
-
-    this.actionResultPanel = this.add.container(screenWidth / 2, screenHeight / 2 - 50);
-    this.actionResultPanel.setScrollFactor(0);
-    this.actionResultPanel.setDepth(600);
-    this.cameras.main.ignore(this.actionResultPanel);
-
-    // Background - taller to fit XP line
-    const panelWidth = 280;
-    const panelHeight = 120;
-    const bg = this.add.graphics();
-    bg.fillStyle(0x000000, 0.9);
-    bg.fillRoundedRect(-panelWidth / 2, 0, panelWidth, panelHeight, 8);
-    bg.lineStyle(2, 0x44ff44, 0.8);
-    bg.strokeRoundedRect(-panelWidth / 2, 0, panelWidth, panelHeight, 8);
-    this.actionResultPanel.add(bg);
-
-    // Item name
-    const itemText = this.add.text(0, 15, item.name, {
-      fontFamily: 'monospace',
-      fontSize: '16px',
-      color: '#44ff44',
-      fontStyle: 'bold',
-    }).setResolution(GAME_CONFIG.TEXT_RESOLUTION).setOrigin(0.5, 0);
-    this.actionResultPanel.add(itemText);
+    // Item name
+    const itemText = this.add.text(0, 15, item.name, {
+      fontFamily: 'monospace',
+      fontSize: '16px',
+      color: '#44ff44',
+      fontStyle: 'bold',
+    }).setResolution(GAME_CONFIG.TEXT_RESOLUTION).setOrigin(0.5, 0);
+    this.actionResultPanel.add(itemText);
 
     // Usage text
     const usageText = this.add.text(0, 40, `${user.name} → ${target.name}`, {
@@ -5679,7 +5955,7 @@ export class BattleScene extends Phaser.Scene {
   }
 
   /**
-   * Finish item use (consume action, continue turn)
+   * Finish item use (continue turn)
    */
   private finishItemUse(): void {
     // Clean up result panel
@@ -5691,13 +5967,8 @@ export class BattleScene extends Phaser.Scene {
     // Clear item selection
     this.selectedItemId = null;
 
-    // Consume the action
+    // The engine already consumed the action
     if (this.activeUnit) {
-      this.activeUnit.actionsRemaining--;
-      if (this.activeUnit.actionsRemaining <= 0) {
-        this.activeUnit.hasActed = true;
-      }
-
       // Check if unit can still act (Azrael's double action)
       if (this.activeUnit.actionsRemaining > 0) {
         this.showActionMenu();
@@ -5732,11 +6003,12 @@ export class BattleScene extends Phaser.Scene {
       return;
     }
 
-    // Get valid targets
-    this.validTargets = getValidTargets(this.activeUnit, ability, this.units);
+    // Get valid targets (walls block line of sight)
+    this.validTargets = getValidTargets(this.activeUnit, ability, this.units, this.gridManager);
 
     if (this.validTargets.length === 0) {
-      this.showFloatingMessage('No valid targets!', 0xff4444);
+      const blocked = this.getLineOfSightBlockedTargets(ability).length > 0;
+      this.showFloatingMessage(blocked ? 'No line of sight!' : 'No valid targets!', 0xff4444);
       this.showActionMenu();
       return;
     }
@@ -5753,25 +6025,28 @@ export class BattleScene extends Phaser.Scene {
 
   /**
    * Highlight all valid targets for the ability
+   * Tiles hidden behind walls stay dark, and targets in range but out of sight are marked
    */
   private highlightValidTargets(ability: Ability): void {
     this.targetHighlightGraphics.clear();
+    this.clearTargetingLabels();
 
     // Determine highlight color based on target type
     const color = ability.targetType === 'ally' ? 0x44ff44 : 0xff4444;
 
-    // Highlight range tiles
+    // Highlight range tiles (ranged abilities reach one tile further onto lower ground)
     if (this.activeUnit && ability.range > 0) {
       this.targetHighlightGraphics.fillStyle(color, 0.2);
+      const maxRange = ability.range > 1 ? ability.range + HIGH_GROUND_RANGE_BONUS : ability.range;
 
-      for (let dx = -ability.range; dx <= ability.range; dx++) {
-        for (let dy = -ability.range; dy <= ability.range; dy++) {
-          if (Math.abs(dx) + Math.abs(dy) <= ability.range) {
-            const tx = this.activeUnit.gridX + dx;
-            const ty = this.activeUnit.gridY + dy;
-
+      for (let dx = -maxRange; dx <= maxRange; dx++) {
+        for (let dy = -maxRange; dy <= maxRange; dy++) {
+          const tx = this.activeUnit.gridX + dx;
+          const ty = this.activeUnit.gridY + dy;
+          if (Math.abs(dx) + Math.abs(dy) <= getEffectiveRange(this.activeUnit, ability, tx, ty, this.gridManager)) {
             if (tx >= 0 && tx < this.battleConfig.gridWidth &&
-                ty >= 0 && ty < this.battleConfig.gridHeight) {
+                ty >= 0 && ty < this.battleConfig.gridHeight &&
+                this.gridManager.getLineOfSight(this.activeUnit.gridX, this.activeUnit.gridY, tx, ty).clear) {
               const pixelX = tx * GAME_CONFIG.TILE_SIZE;
               const pixelY = ty * GAME_CONFIG.TILE_SIZE;
               this.targetHighlightGraphics.fillRect(pixelX, pixelY, GAME_CONFIG.TILE_SIZE, GAME_CONFIG.TILE_SIZE);
@@ -5780,6 +6055,78 @@ export class BattleScene extends Phaser.Scene {
         }
       }
     }
+
+    // Show why in-range targets can't be picked: sight line up to the wall that blocks it
+    const caster = this.activeUnit;
+    if (!caster) return;
+    const half = GAME_CONFIG.TILE_SIZE / 2;
+    for (const target of this.getLineOfSightBlockedTargets(ability)) {
+      const sight = this.gridManager.getLineOfSight(caster.gridX, caster.gridY, target.gridX, target.gridY);
+      const wall = sight.blockedAt ?? { x: target.gridX, y: target.gridY };
+      const from = this.gridManager.gridToPixel(caster.gridX, caster.gridY);
+      const to = this.gridManager.gridToPixel(wall.x, wall.y);
+
+      this.targetHighlightGraphics.lineStyle(2, 0x888888, 0.8);
+      this.targetHighlightGraphics.lineBetween(from.x, from.y, to.x, to.y);
+      this.targetHighlightGraphics.lineStyle(3, 0xff4444, 0.9);
+      this.targetHighlightGraphics.lineBetween(to.x - half / 2, to.y - half / 2, to.x + half / 2, to.y + half / 2);
+      this.targetHighlightGraphics.lineBetween(to.x + half / 2, to.y - half / 2, to.x - half / 2, to.y + half / 2);
+
+      this.addTargetingLabel(target, 'No line of sight', '#aaaaaa');
+    }
+
+    // Note targets whose cover will raise their defense, or who are open to a flank or backstab
+    if (ability.type !== 'attack') return;
+    for (const target of this.validTargets) {
+      const notes: string[] = [];
+      const angle = getAttackAngle(caster, target);
+      if (angle === 'rear') notes.push('Backstab!');
+      if (angle === 'side') notes.push(`Side +${getFacingBonus(angle)}`);
+      if (isFlanking(caster, target, this.units)) notes.push('Flanked!');
+      const coverBonus = getCoverBonus(caster, target, this.gridManager);
+      if (coverBonus > 0) notes.push(`Cover +${coverBonus} DEF`);
+
+      if (notes.length > 0) {
+        this.addTargetingLabel(target, notes.join(' '), coverBonus > 0 ? '#ffcc44' : '#ff8844');
+      }
+    }
+  }
+
+  /**
+   * Units the ability could target if walls weren't in the way
+   */
+  private getLineOfSightBlockedTargets(ability: Ability): Unit[] {
+    const caster = this.activeUnit;
+    if (!caster) return [];
+
+    return this.units.filter((target) => {
+      if (target === caster) return false;
+      const sameTeam = areAllied(target, caster);
+      if (ability.targetType === 'ally' ? !sameTeam : sameTeam || target.isUnconscious) return false;
+      return getTargetBlockReason(caster, target, ability, this.gridManager) === 'No line of sight';
+    });
+  }
+
+  /**
+   * Small note above a unit during targeting (cleared with the targeting preview)
+   */
+  private addTargetingLabel(target: Unit, text: string, color: string): void {
+    const pixelPos = getFootprintCenter(target);
+    const label = this.add.text(pixelPos.x, pixelPos.y - getUnitSize(target) * GAME_CONFIG.TILE_SIZE / 2 - 6, text, {
+      fontFamily: 'monospace',
+      fontSize: '10px',
+      color,
+      stroke: '#000000',
+      strokeThickness: 2,
+    }).setResolution(GAME_CONFIG.TEXT_RESOLUTION).setOrigin(0.5);
+    label.setDepth(900);
+    this.uiCamera.ignore(label);
+    this.targetingLabels.push(label);
+  }
+
+  private clearTargetingLabels(): void {
+    this.targetingLabels.forEach(label => label.destroy());
+    this.targetingLabels = [];
   }
 
   /**
@@ -5813,23 +6160,23 @@ export class BattleScene extends Phaser.Scene {
     }
 
     // Draw yellow cursor around target tile
-    this.drawTargetCursor(target.gridX, target.gridY);
+    this.drawTargetCursor(target.gridX, target.gridY, getUnitSize(target));
 
     // Pan camera to target
-    const pixelPos = this.gridManager.gridToPixel(target.gridX, target.gridY);
+    const pixelPos = getFootprintCenter(target);
     this.cameras.main.pan(pixelPos.x, pixelPos.y, 200);
   }
 
   /**
-   * Draw a yellow cursor around the target tile
+   * Draw a yellow cursor around the target tile (tiles: footprint width of a boss target)
    */
-  private drawTargetCursor(gridX: number, gridY: number): void {
+  private drawTargetCursor(gridX: number, gridY: number, tiles: number = 1): void {
     // Clear previous cursor (but keep range highlight)
     this.cursorGraphics.clear();
 
     const pixelX = gridX * GAME_CONFIG.TILE_SIZE;
     const pixelY = gridY * GAME_CONFIG.TILE_SIZE;
-    const size = GAME_CONFIG.TILE_SIZE;
+    const size = GAME_CONFIG.TILE_SIZE * tiles;
 
     // Draw animated cursor (yellow pulsing border)
     this.cursorGraphics.lineStyle(3, 0xffff00, 1);
@@ -5871,6 +6218,7 @@ export class BattleScene extends Phaser.Scene {
     });
     this.targetHighlightGraphics.clear();
     this.cursorGraphics.clear();
+    this.clearTargetingLabels();
 
     this.isTargeting = false;
     this.selectedAbility = null;
@@ -5937,6 +6285,11 @@ export class BattleScene extends Phaser.Scene {
             }
           }
         }
+        // Summons need an empty tile to appear on
+        if (hasValidTile && ability.effect?.type === 'summon' &&
+            (!this.gridManager.isWalkable(ox, oy) || this.gridManager.isOccupied(ox, oy))) {
+          hasValidTile = false;
+        }
         if (hasValidTile) {
           validTiles.push({ x: ox, y: oy });
         }
@@ -6020,7 +6373,7 @@ export class BattleScene extends Phaser.Scene {
     // Update instructions with target count
     const targetsInAOE = this.getUnitsInAOE();
     const enemyCount = targetsInAOE.filter(u => u.team === 'enemy').length;
-    const allyCount = targetsInAOE.filter(u => u.team === 'hero').length;
+    const allyCount = targetsInAOE.filter(u => u.team !== 'enemy').length;
     let targetInfo = '';
     if (enemyCount > 0) targetInfo += `${enemyCount} enem${enemyCount === 1 ? 'y' : 'ies'}`;
     if (allyCount > 0) {
@@ -6054,12 +6407,11 @@ export class BattleScene extends Phaser.Scene {
    * Get all units within the current AOE area
    */
   private getUnitsInAOE(): Unit[] {
-    return this.units.filter(u => {
-      if (u.isUnconscious) return false;
-      return u.gridX >= this.aoeOrigin.x &&
-             u.gridX < this.aoeOrigin.x + this.aoeSize.width &&
-             u.gridY >= this.aoeOrigin.y &&
-             u.gridY < this.aoeOrigin.y + this.aoeSize.height;
+    return this.engine.getUnitsInArea({
+      originX: this.aoeOrigin.x,
+      originY: this.aoeOrigin.y,
+      width: this.aoeSize.width,
+      height: this.aoeSize.height,
     });
   }
 
@@ -6119,70 +6471,45 @@ export class BattleScene extends Phaser.Scene {
 
     this.phase = 'executing_action';
 
-    // Pay the cost
-    payAbilityCost(this.activeUnit, ability);
+    this.addCombatLogMessage(`${this.activeUnit.name} → ${ability.name} (AOE)`);
+
+    // Pay the cost, resolve the spell against each target and leave any zone behind
+    const outcome = this.engine.execute({
+      type: 'ability',
+      unit: this.activeUnit,
+      ability,
+      targets,
+      area: { originX: origin.x, originY: origin.y, width: size.width, height: size.height },
+    });
 
     // Update the active unit panel to reflect mana/ki cost
     this.updateActiveUnitPanel();
 
-    this.addCombatLogMessage(`${this.activeUnit.name} → ${ability.name} (AOE)`);
-
-    if (targets.length === 0) {
+    if (outcome.summoned) {
+      this.showFloatingMessage(`${outcome.summoned.name} appears!`, 0x88ccff);
+    } else if (outcome.targets.length === 0) {
       this.addCombatLogMessage('  No targets hit!');
       this.showFloatingMessage(`${ability.name}: No targets!`, 0xaaaaaa);
     } else {
-      // Resolve spell against each target
       let totalDefeated = 0;
 
-      targets.forEach(target => {
-        // Wardstone: +2 RES on first save of battle (for defender)
-        let wardstoneBonus = 0;
-        if (target.equipment === 'wardstone' &&
-            target.equipmentBonusState &&
-            !target.equipmentBonusState.firstSaveUsed) {
-          wardstoneBonus = 2;
-          target.resilience += 2;
-          target.equipmentBonusState.firstSaveUsed = true;
-          this.addCombatLogMessage(`${target.name}'s Wardstone grants +2 RES!`);
-        }
-
-        const result = resolveSpell(this.activeUnit!, target, ability);
-
-        // Restore resilience if bonus was applied
-        if (wardstoneBonus > 0) {
-          target.resilience -= wardstoneBonus;
-        }
-
-        // Log result for each target
-        const saveRoll = result.saveRoll;
-        if (saveRoll.dice !== 'none') {
-          const bonusText = wardstoneBonus > 0 ? `(+${wardstoneBonus})` : '';
-          const rollStr = `${saveRoll.rolls[0]}+${target.resilience + wardstoneBonus}${bonusText}=${saveRoll.finalTotal || saveRoll.total}`;
-          const saveResult = result.savePassed ? 'SAVED!' : 'FAILED!';
+      // Log result for each target
+      outcome.targets.forEach(({ target, spell, damage, defeated, saveBonus }) => {
+        if (spell && spell.saveRoll.dice !== 'none') {
+          const saveRoll = spell.saveRoll;
+          const bonusText = saveBonus > 0 ? `(+${saveBonus})` : '';
+          const rollStr = `${saveRoll.rolls[0]}+${target.resilience + saveBonus}${bonusText}=${saveRoll.finalTotal || saveRoll.total}`;
+          const saveResult = spell.savePassed ? 'SAVED!' : 'FAILED!';
           this.addCombatLogMessage(`  ${target.name}: SAVE ${rollStr}`);
           this.addCombatLogMessage(`    ${saveResult}`);
         }
 
-        if (result.totalDamage !== undefined && result.totalDamage > 0) {
-          this.addCombatLogMessage(`    DMG: ${result.totalDamage}`);
-          this.showDamageNumber(target, result.totalDamage, false);
-          this.trackDamage(result.totalDamage, true); // Hero AOE dealing damage
+        if (damage > 0) {
+          this.addCombatLogMessage(`    DMG: ${damage}`);
         }
 
-        if (result.targetDefeated) {
+        if (defeated) {
           totalDefeated++;
-
-          // Bloodstone: heal 2 HP on first kill (AOE)
-          if (this.activeUnit!.equipment === 'bloodstone' &&
-              this.activeUnit!.equipmentBonusState &&
-              !this.activeUnit!.equipmentBonusState.firstKillUsed) {
-            this.activeUnit!.equipmentBonusState.firstKillUsed = true;
-            applyHealing(this.activeUnit!, 2);
-            this.showDamageNumber(this.activeUnit!, 2, true);
-            this.addCombatLogMessage(`${this.activeUnit!.name}'s Bloodstone heals 2 HP!`);
-          }
-
-          this.handleUnitDefeated(target);
         }
       });
 
@@ -6194,22 +6521,11 @@ export class BattleScene extends Phaser.Scene {
       }
     }
 
-    // Create persistent zone if ability has entangle_zone effect
-    if (ability.effect?.type === 'entangle_zone') {
-      this.createZone(ability, origin, size);
-    }
-
-    // Mark as having acted
-    this.activeUnit.actionsRemaining--;
-    if (this.activeUnit.actionsRemaining <= 0) {
-      this.activeUnit.hasActed = true;
-    }
-
     // Check if unit still has actions (Azrael's double action)
     const hasMoreActions = this.activeUnit && this.activeUnit.actionsRemaining > 0;
 
     this.time.delayedCall(500, () => {
-      this.checkBattleEnd();
+      this.engine.checkBattleEnd();
 
       if (this.phase !== 'victory' && this.phase !== 'defeat') {
         if (hasMoreActions) {
@@ -6225,143 +6541,101 @@ export class BattleScene extends Phaser.Scene {
     });
   }
 
-  // ============================================
-  // Persistent Zones (e.g. Entangle)
-  // ============================================
-
   /**
-   * Create a persistent zone on the battlefield
+   * Slide a pushed or pulled unit along its path (its grid position is already updated)
    */
-  private createZone(
-    ability: Ability,
-    origin: { x: number; y: number },
-    size: { width: number; height: number }
-  ): void {
-    if (!this.activeUnit || !ability.effect) return;
-
-    // Roll duration
-    const durationNotation = ability.effect.duration;
-    let duration = 1;
-    if (typeof durationNotation === 'string') {
-      const durationRoll = rollDice(durationNotation);
-      duration = durationRoll.total;
-    } else if (typeof durationNotation === 'number') {
-      duration = durationNotation;
-    }
-
-    const zone: Zone = {
-      id: `zone_${Date.now()}`,
-      type: 'entangle',
-      originX: origin.x,
-      originY: origin.y,
-      width: size.width,
-      height: size.height,
-      duration,
-      damage: ability.damage || '1d6',
-      damageOnSave: ability.damageOnSave || 'half',
-      casterId: this.activeUnit.dataId,
-    };
-
-    this.zones.push(zone);
-    this.addCombatLogMessage(`  Zone created for ${duration} rounds!`);
-
-    // Draw the zone
-    this.drawZones();
+  private async animateForcedMove(unit: Unit, path: { x: number; y: number }[]): Promise<void> {
+    for (const step of path) {
+      await moveUnitToGrid(unit, step.x, step.y, this, true, 80);
+    }
   }
 
+  // ============================================
+  // Persistent Zones (Entangle and map hazards)
+  // ============================================
+
   /**
-   * Draw all active zones on the battlefield
+   * Draw all zones on the battlefield - switched-off hazards are drawn faintly,
+   * and hazard switches get a small square marker
    */
   private drawZones(): void {
     this.zoneGraphics.clear();
+    const tileSize = GAME_CONFIG.TILE_SIZE;
 
-    for (const zone of this.zones) {
-      const color = STATUS_COLORS.entangle_zone; // Forest green
-      const startX = zone.originX * GAME_CONFIG.TILE_SIZE;
-      const startY = zone.originY * GAME_CONFIG.TILE_SIZE;
-      const zoneWidth = zone.width * GAME_CONFIG.TILE_SIZE;
-      const zoneHeight = zone.height * GAME_CONFIG.TILE_SIZE;
+    for (const zone of this.engine.state.zones) {
+      const color = ZONE_COLORS[zone.type];
+      const startX = zone.originX * tileSize;
+      const startY = zone.originY * tileSize;
+      const zoneWidth = zone.width * tileSize;
+      const zoneHeight = zone.height * tileSize;
 
       // Fill with semi-transparent color
-      this.zoneGraphics.fillStyle(color, 0.2);
+      this.zoneGraphics.fillStyle(color, zone.active ? 0.2 : 0.05);
       this.zoneGraphics.fillRect(startX, startY, zoneWidth, zoneHeight);
 
       // Draw border
-      this.zoneGraphics.lineStyle(3, color, 0.8);
+      this.zoneGraphics.lineStyle(zone.active ? 3 : 1, color, zone.active ? 0.8 : 0.4);
       this.zoneGraphics.strokeRect(startX, startY, zoneWidth, zoneHeight);
+
+      if (zone.switch) {
+        const size = tileSize / 3;
+        const switchX = zone.switch.x * tileSize + (tileSize - size) / 2;
+        const switchY = zone.switch.y * tileSize + (tileSize - size) / 2;
+        this.zoneGraphics.fillStyle(color, 0.7);
+        this.zoneGraphics.fillRect(switchX, switchY, size, size);
+        this.zoneGraphics.lineStyle(2, 0xffffff, 0.9);
+        this.zoneGraphics.strokeRect(switchX, switchY, size, size);
+      }
     }
   }
 
-  /**
-   * Check if a position is inside any zone
-   */
-  private getZonesAtPosition(x: number, y: number): Zone[] {
-    return this.zones.filter(zone =>
-      x >= zone.originX &&
-      x < zone.originX + zone.width &&
-      y >= zone.originY &&
-      y < zone.originY + zone.height
-    );
-  }
+  // ============================================
+  // Battle Objectives
+  // ============================================
 
   /**
-   * Apply zone damage to a unit (on entry or turn start)
+   * Refresh the objectives panel under the unit count info
    */
-  private applyZoneDamage(unit: Unit, zone: Zone, reason: string): void {
-    if (unit.isUnconscious) return;
-
-    // Roll save
-    const saveRoll = rollDice('1d20');
-    const saveTotal = saveRoll.total + unit.resilience;
-    const targetNumber = 13; // Use standard magic target
-    const savePassed = saveTotal >= targetNumber;
+  private updateObjectivesUI(): void {
+    if (!this.objectivesText || !this.engine) return;
 
-    // Roll damage
-    const damageRoll = rollDice(zone.damage);
-    let totalDamage = damageRoll.total;
-
-    if (savePassed && zone.damageOnSave === 'half') {
-      totalDamage = Math.floor(totalDamage / 2);
-    } else if (savePassed && zone.damageOnSave === 'none') {
-      totalDamage = 0;
+    const lines = ['Objectives:'];
+    for (const objective of describeObjectives(this.engine.state)) {
+      const mark = objective.met ? (objective.kind === 'victory' ? '✓' : '✗') : '•';
+      const progress = objective.progress ? ` (${objective.progress})` : '';
+      lines.push(`${mark} ${objective.label}${progress}`);
     }
+    this.objectivesText.setText(lines.join('\n'));
 
-    if (totalDamage > 0) {
-      unit.currentHp -= totalDamage;
-      this.showDamageNumber(unit, totalDamage, false);
-      this.addCombatLogMessage(`  ${unit.name} takes ${totalDamage} damage from Entangle (${reason})!`);
-
-      if (unit.currentHp <= 0) {
-        unit.currentHp = 0;
-        this.handleUnitDefeated(unit);
-      }
-    } else {
-      this.addCombatLogMessage(`  ${unit.name} avoids Entangle damage!`);
-    }
+    this.objectivesBg.clear();
+    this.objectivesBg.fillStyle(0x000000, 0.7);
+    this.objectivesBg.fillRoundedRect(10, 150, Math.max(200, this.objectivesText.width + 20), this.objectivesText.height + 20, 5);
   }
 
   /**
-   * Process zone effects at the start of a unit's turn
+   * Draw the exit area and remaining interact objects on the battlefield
    */
-  private processZoneTurnStart(unit: Unit): void {
-    const zones = this.getZonesAtPosition(unit.gridX, unit.gridY);
-    for (const zone of zones) {
-      this.applyZoneDamage(unit, zone, 'turn start');
+  private drawObjectiveMarkers(): void {
+    this.objectiveGraphics.clear();
+    const tileSize = GAME_CONFIG.TILE_SIZE;
+
+    const victory = getVictoryCondition(this.battleConfig);
+    if (victory !== 'defeat_all' && victory.type === 'reach_exit') {
+      const { x1, y1, x2, y2 } = victory.bounds;
+      this.objectiveGraphics.fillStyle(0xffdd44, 0.2);
+      this.objectiveGraphics.fillRect(x1 * tileSize, y1 * tileSize, (x2 - x1 + 1) * tileSize, (y2 - y1 + 1) * tileSize);
+      this.objectiveGraphics.lineStyle(3, 0xffdd44, 0.8);
+      this.objectiveGraphics.strokeRect(x1 * tileSize, y1 * tileSize, (x2 - x1 + 1) * tileSize, (y2 - y1 + 1) * tileSize);
     }
-  }
 
-  /**
-   * Decrement zone durations at round end and remove expired zones
-   */
-  private processZoneRoundEnd(): void {
-    for (let i = this.zones.length - 1; i >= 0; i--) {
-      this.zones[i].duration--;
-      if (this.zones[i].duration <= 0) {
-        this.addCombatLogMessage(`Entangle zone fades away.`);
-        this.zones.splice(i, 1);
-      }
+    for (const object of getRemainingObjectiveObjects(this.engine.state)) {
+      const centerX = object.x * tileSize + tileSize / 2;
+      const centerY = object.y * tileSize + tileSize / 2;
+      this.objectiveGraphics.fillStyle(0xffdd44, 0.5);
+      this.objectiveGraphics.fillCircle(centerX, centerY, tileSize / 4);
+      this.objectiveGraphics.lineStyle(2, 0xffffff, 0.9);
+      this.objectiveGraphics.strokeCircle(centerX, centerY, tileSize / 4);
     }
-    this.drawZones();
   }
 
   // ============================================
@@ -6374,311 +6648,150 @@ export class BattleScene extends Phaser.Scene {
   private executeAbility(ability: Ability, target: Unit): void {
     if (!this.activeUnit) return;
 
+    const unit = this.activeUnit;
     this.phase = 'executing_action';
 
-    // Pay the cost
-    payAbilityCost(this.activeUnit, ability);
+    // Face the target
+    this.faceTarget(unit, target);
+
+    // Pay the cost, resolve and award XP (only the first action per turn earns XP)
+    const outcome = this.engine.execute({ type: 'ability', unit, ability, targets: [target] });
+    const {
+      attack,
+      spell,
+      damage,
+      defeated,
+      attackBonus,
+      saveBonus,
+      healingBonus,
+      killHealing,
+    } = outcome.targets[0];
 
     // Update the active unit panel to reflect mana/ki cost
     this.updateActiveUnitPanel();
 
-    // Face the target
-    this.faceTarget(this.activeUnit, target);
-
-    // Only award XP on first action per turn (prevents Azrael Hide+Attack abuse)
-    const shouldTrackXP = this.activeUnit.team === 'hero' && !this.hasEarnedXPThisTurn;
-
-    // Track XP before action (to calculate earned XP)
-    const xpBefore = shouldTrackXP
-      ? this.xpTracker.getBattleXP(this.activeUnit.dataId)
-      : 0;
-
     // Build result lines for the action panel
     const resultLines: string[] = [];
 
-    if (ability.type === 'attack') {
-      // Ambusher's Ring: +2 ATK on first attack of battle
-      let ambusherBonus = 0;
-      if (this.activeUnit.equipment === 'ambushers_ring' &&
-          this.activeUnit.equipmentBonusState &&
-          !this.activeUnit.equipmentBonusState.firstAttackUsed) {
-        ambusherBonus = 2;
-        this.activeUnit.attack += 2;
-        this.activeUnit.equipmentBonusState.firstAttackUsed = true;
-        this.addCombatLogMessage(`${this.activeUnit.name}'s Ambusher's Ring grants +2 ATK!`);
+    if (attack) {
+      // Build descriptive result lines
+      const rollTotal = attack.attackRoll.finalTotal || attack.attackRoll.total;
+      const bonusText = attackBonus > 0 ? ` (+${attackBonus})` : '';
+      resultLines.push(`${unit.name} uses ${ability.name}!`);
+      resultLines.push(`Rolls ${formatAttackDice(attack)} + ${unit.attack + attackBonus + (attack.highGroundBonus ?? 0) + (attack.facingBonus ?? 0)}${bonusText} = ${rollTotal} vs DEF ${attack.targetNumber}`);
+      const modifierText = formatAttackModifiers(attack);
+      if (modifierText) {
+        resultLines.push(modifierText);
       }
-
-      const result = resolveAttack(this.activeUnit, target, ability);
-
-      // Restore attack stat if bonus was applied
-      if (ambusherBonus > 0) {
-        this.activeUnit.attack -= ambusherBonus;
+      if (attack.highGroundBonus) {
+        resultLines.push(`High ground (+${attack.highGroundBonus} ATK)`);
       }
-
-      // Build descriptive result lines
-      const attackRoll = result.attackRoll;
-      const rollTotal = attackRoll.finalTotal || attackRoll.total;
-      const bonusText = ambusherBonus > 0 ? ` (+${ambusherBonus})` : '';
-      resultLines.push(`${this.activeUnit.name} uses ${ability.name}!`);
-      resultLines.push(`Rolls ${attackRoll.rolls[0]} + ${this.activeUnit.attack + ambusherBonus}${bonusText} = ${rollTotal} vs DEF ${result.targetNumber}`);
-
-      // Award XP for resource spent (paid attacks) - regardless of hit/miss
-      if (shouldTrackXP && ability.cost > 0) {
-        this.xpTracker.awardResourceXP(this.activeUnit.dataId, ability.cost, ability.name);
+      const positionText = formatAttackPosition(attack);
+      if (positionText) {
+        resultLines.push(positionText);
+      }
+      if (attack.coverBonus) {
+        resultLines.push(`${target.name} is in cover (+${attack.coverBonus} DEF)`);
       }
 
-      if (result.hit && result.damageRoll) {
-        resultLines.push(`HIT! ${result.totalDamage} damage to ${target.name}!`);
-        this.showDamageNumber(target, result.totalDamage!, false);
-        this.trackDamage(result.totalDamage!, true);
-
-        // Award XP for damage (only for 0-cost attacks)
-        if (shouldTrackXP && ability.cost === 0) {
-          this.xpTracker.awardDamageXP(this.activeUnit.dataId, result.totalDamage!);
-        }
-
-        if (result.defenderDefeated) {
+      if (attack.hit && attack.damageRoll) {
+        resultLines.push(`${attack.critical ? 'CRITICAL HIT!' : 'HIT!'} ${damage} damage to ${target.name}!`);
+        if (defeated) {
           resultLines.push(`${target.name} is DEFEATED!`);
-          if (shouldTrackXP) {
-            this.xpTracker.awardKillXP(this.activeUnit.dataId, target.name);
-          }
-
-          // Bloodstone: heal 2 HP on first kill
-          if (this.activeUnit.equipment === 'bloodstone' &&
-              this.activeUnit.equipmentBonusState &&
-              !this.activeUnit.equipmentBonusState.firstKillUsed) {
-            this.activeUnit.equipmentBonusState.firstKillUsed = true;
-            applyHealing(this.activeUnit, 2);
-            this.showDamageNumber(this.activeUnit, 2, true);
-            this.addCombatLogMessage(`${this.activeUnit.name}'s Bloodstone heals 2 HP!`);
-            resultLines.push(`${this.activeUnit.name}'s Bloodstone heals 2 HP!`);
-          }
-
-          this.handleUnitDefeated(target);
         }
       } else {
-        resultLines.push(`MISS!`);
+        resultLines.push(attack.fumble ? `Natural 1 - MISS!` : `MISS!`);
         this.showMissIndicator(target);
-
-        // Award attempt XP for free attacks even on miss
-        if (shouldTrackXP && ability.cost === 0) {
-          this.xpTracker.awardDamageXP(this.activeUnit.dataId, 0);
-        }
       }
 
       // Combat log
-      this.addCombatLogMessage(`${this.activeUnit.name} → ${ability.name} → ${target.name}`);
-      this.addCombatLogMessage(`  ATK: ${rollTotal} vs DEF ${result.targetNumber} - ${result.hit ? 'HIT' : 'MISS'}`);
-
-    } else if (ability.type === 'spell' && ability.targetType === 'enemy') {
-      // Wardstone: +2 RES on first save of battle (for defender)
-      let wardstoneBonus = 0;
-      if (target.equipment === 'wardstone' &&
-          target.equipmentBonusState &&
-          !target.equipmentBonusState.firstSaveUsed) {
-        wardstoneBonus = 2;
-        target.resilience += 2;
-        target.equipmentBonusState.firstSaveUsed = true;
-        this.addCombatLogMessage(`${target.name}'s Wardstone grants +2 RES!`);
-      }
-
-      const result = resolveSpell(this.activeUnit, target, ability);
-
-      // Restore resilience if bonus was applied
-      if (wardstoneBonus > 0) {
-        target.resilience -= wardstoneBonus;
-      }
-
-      resultLines.push(`${this.activeUnit.name} casts ${ability.name}!`);
+      this.addCombatLogMessage(`${unit.name} → ${ability.name} → ${target.name}`);
+      this.addCombatLogMessage(`  ATK: ${rollTotal} vs DEF ${attack.targetNumber} - ${attack.hit ? 'HIT' : 'MISS'}`);
 
-      // Award XP for resource spent (paid abilities) - regardless of outcome
-      if (shouldTrackXP && ability.cost > 0) {
-        this.xpTracker.awardResourceXP(this.activeUnit.dataId, ability.cost, ability.name);
-      }
+    } else if (spell && ability.type === 'spell' && ability.targetType === 'enemy') {
+      resultLines.push(`${unit.name} casts ${ability.name}!`);
 
-      if (result.saveRoll.dice !== 'none') {
-        const saveTotal = result.saveRoll.finalTotal || result.saveRoll.total;
-        const bonusText = wardstoneBonus > 0 ? ` (+${wardstoneBonus})` : '';
-        resultLines.push(`${target.name} rolls ${result.saveRoll.rolls[0]} + ${target.resilience + wardstoneBonus}${bonusText} = ${saveTotal} vs MAG ${result.targetNumber}`);
-        resultLines.push(result.savePassed ? 'Save PASSED!' : 'Save FAILED!');
+      if (spell.saveRoll.dice !== 'none') {
+        const saveTotal = spell.saveRoll.finalTotal || spell.saveRoll.total;
+        const bonusText = saveBonus > 0 ? ` (+${saveBonus})` : '';
+        resultLines.push(`${target.name} rolls ${spell.saveRoll.rolls[0]} + ${target.resilience + saveBonus}${bonusText} = ${saveTotal} vs MAG ${spell.targetNumber}`);
+        resultLines.push(spell.savePassed ? 'Save PASSED!' : 'Save FAILED!');
       }
 
-      if (result.damageRoll && result.totalDamage !== undefined && result.totalDamage > 0) {
+      if (spell.damageRoll && damage > 0) {
         // Indicate if damage was halved by a successful save
-        const fullDamage = result.damageRoll.finalTotal || result.damageRoll.total;
-        if (result.savePassed && ability.damageOnSave === 'half' && result.totalDamage < fullDamage) {
-          resultLines.push(`${result.totalDamage} damage (halved) to ${target.name}!`);
+        const fullDamage = spell.damageRoll.finalTotal || spell.damageRoll.total;
+        if (spell.savePassed && ability.damageOnSave === 'half' && damage < fullDamage) {
+          resultLines.push(`${damage} damage (halved) to ${target.name}!`);
         } else {
-          resultLines.push(`${result.totalDamage} damage to ${target.name}!`);
+          resultLines.push(`${damage} damage to ${target.name}!`);
         }
-        this.showDamageNumber(target, result.totalDamage, false);
-        this.trackDamage(result.totalDamage, true);
-
-        // Award damage XP only for free spells (0 cost)
-        if (shouldTrackXP && ability.cost === 0) {
-          this.xpTracker.awardDamageXP(this.activeUnit.dataId, result.totalDamage);
-        }
-      } else if (result.damageRoll && shouldTrackXP && ability.cost === 0) {
-        // Award attempt XP for free spells even when damage is 0 (enemy saved)
-        this.xpTracker.awardDamageXP(this.activeUnit.dataId, 0);
       }
 
-      if (result.effectApplied) {
-        resultLines.push(`${target.name} is ${result.effectApplied.type}!`);
-        // No separate debuff XP - already covered by resource XP if ability costs mana
-        // Update condition markers to show new effect
-        updateConditionMarkers(target, this);
+      if (spell.effectApplied) {
+        resultLines.push(`${target.name} is ${spell.effectApplied.type}!`);
       }
 
-      if (result.targetDefeated) {
+      if (defeated) {
         resultLines.push(`${target.name} is DEFEATED!`);
-        if (shouldTrackXP) {
-          this.xpTracker.awardKillXP(this.activeUnit.dataId, target.name);
-        }
-
-        // Bloodstone: heal 2 HP on first kill
-        if (this.activeUnit.equipment === 'bloodstone' &&
-            this.activeUnit.equipmentBonusState &&
-            !this.activeUnit.equipmentBonusState.firstKillUsed) {
-          this.activeUnit.equipmentBonusState.firstKillUsed = true;
-          applyHealing(this.activeUnit, 2);
-          this.showDamageNumber(this.activeUnit, 2, true);
-          this.addCombatLogMessage(`${this.activeUnit.name}'s Bloodstone heals 2 HP!`);
-          resultLines.push(`${this.activeUnit.name}'s Bloodstone heals 2 HP!`);
-        }
-
-        this.handleUnitDefeated(target);
       }
 
       // Combat log
-      this.addCombatLogMessage(`${this.activeUnit.name} → ${ability.name} → ${target.name}`);
-
-    } else if (ability.type === 'buff' || ability.targetType === 'ally') {
-      const result = resolveHeal(this.activeUnit, target, ability);
-
-      // Healer's Pendant: +1 to first heal of battle
-      let healerBonus = 0;
-      if (ability.healing &&
-          this.activeUnit.equipment === 'healers_pendant' &&
-          this.activeUnit.equipmentBonusState &&
-          !this.activeUnit.equipmentBonusState.firstHealUsed) {
-        healerBonus = 1;
-        this.activeUnit.equipmentBonusState.firstHealUsed = true;
-        // Apply the extra healing
-        applyHealing(target, healerBonus);
-        if (result.totalHealing) {
-          result.totalHealing += healerBonus;
-        }
-        this.addCombatLogMessage(`${this.activeUnit.name}'s Healer's Pendant grants +1 healing!`);
-      }
+      this.addCombatLogMessage(`${unit.name} → ${ability.name} → ${target.name}`);
 
-      resultLines.push(`${this.activeUnit.name} uses ${ability.name} on ${target.name}!`);
+    } else if (spell && (ability.type === 'buff' || ability.targetType === 'ally')) {
+      resultLines.push(`${unit.name} uses ${ability.name} on ${target.name}!`);
 
-      // Award XP for resource spent (paid abilities) - regardless of outcome
-      if (shouldTrackXP && ability.cost > 0) {
-        this.xpTracker.awardResourceXP(this.activeUnit.dataId, ability.cost, ability.name);
+      if (spell.healingRoll && spell.totalHealing) {
+        const bonusText = healingBonus > 0 ? ` (+${healingBonus})` : '';
+        resultLines.push(`Heals ${spell.totalHealing}${bonusText} HP!`);
       }
 
-      if (result.healingRoll && result.totalHealing) {
-        const bonusText = healerBonus > 0 ? ` (+${healerBonus})` : '';
-        resultLines.push(`Heals ${result.totalHealing}${bonusText} HP!`);
-        this.showDamageNumber(target, result.totalHealing, true);
-        // No separate healing XP - already covered by resource XP
-      }
-
-      if (result.effectApplied) {
+      if (spell.effectApplied) {
         // Check if this was a status removal ability (like Restoration)
         if (ability.effect && (ability.effect as { type: string }).type === 'remove_status') {
-          resultLines.push(`Removed ${result.effectApplied.type} from ${target.name}!`);
+          resultLines.push(`Removed ${spell.effectApplied.type} from ${target.name}!`);
         } else {
-          resultLines.push(`${target.name} gains ${result.effectApplied.type}!`);
+          resultLines.push(`${target.name} gains ${spell.effectApplied.type}!`);
         }
-        // No separate buff XP - already covered by resource XP
-        // Update condition markers to show new buff
-        updateConditionMarkers(target, this);
       }
 
       // Combat log
-      this.addCombatLogMessage(`${this.activeUnit.name} → ${ability.name} → ${target.name}`);
-
-    } else if (ability.type === 'toggle' || ability.targetType === 'self') {
-      const result = resolveSelfAbility(this.activeUnit, ability);
-
-      resultLines.push(`${this.activeUnit.name} uses ${ability.name}!`);
+      this.addCombatLogMessage(`${unit.name} → ${ability.name} → ${target.name}`);
 
-      // Award XP for resource spent (paid abilities only)
-      if (shouldTrackXP && ability.cost > 0) {
-        this.xpTracker.awardResourceXP(this.activeUnit.dataId, ability.cost, ability.name);
-      }
+    } else if (spell && (ability.type === 'toggle' || ability.targetType === 'self')) {
+      resultLines.push(`${unit.name} uses ${ability.name}!`);
 
-      if (result.effectApplied) {
-        resultLines.push(`${this.activeUnit.name} is now ${result.effectApplied.type}!`);
-        // No separate buff XP - already covered by resource XP if paid
-        // Update condition markers to show new buff (Rage, Dodge, etc.)
-        updateConditionMarkers(this.activeUnit, this);
+      if (spell.effectApplied) {
+        resultLines.push(`${unit.name} is now ${spell.effectApplied.type}!`);
       }
 
       // Combat log
-      this.addCombatLogMessage(`${this.activeUnit.name} → ${ability.name}`);
-
-    } else if (ability.type === 'debuff') {
-      // Wardstone: +2 RES on first save of battle (for defender)
-      let wardstoneBonus = 0;
-      if (target.equipment === 'wardstone' &&
-          target.equipmentBonusState &&
-          !target.equipmentBonusState.firstSaveUsed) {
-        wardstoneBonus = 2;
-        target.resilience += 2;
-        target.equipmentBonusState.firstSaveUsed = true;
-        this.addCombatLogMessage(`${target.name}'s Wardstone grants +2 RES!`);
-      }
-
-      const result = resolveSpell(this.activeUnit, target, ability);
-
-      // Restore resilience if bonus was applied
-      if (wardstoneBonus > 0) {
-        target.resilience -= wardstoneBonus;
-      }
-
-      resultLines.push(`${this.activeUnit.name} uses ${ability.name} on ${target.name}!`);
+      this.addCombatLogMessage(`${unit.name} → ${ability.name}`);
 
-      // Award XP for resource spent (paid abilities only)
-      if (shouldTrackXP && ability.cost > 0) {
-        this.xpTracker.awardResourceXP(this.activeUnit.dataId, ability.cost, ability.name);
-      }
+    } else if (spell) {
+      // Debuffs
+      resultLines.push(`${unit.name} uses ${ability.name} on ${target.name}!`);
 
-      if (result.effectApplied) {
-        resultLines.push(`${target.name} is ${result.effectApplied.type}!`);
-        // No separate debuff XP - already covered by resource XP if paid
-        // Update condition markers to show new debuff
-        updateConditionMarkers(target, this);
+      if (spell.effectApplied) {
+        resultLines.push(`${target.name} is ${spell.effectApplied.type}!`);
       }
 
       // Combat log
-      this.addCombatLogMessage(`${this.activeUnit.name} → ${ability.name} → ${target.name}`);
+      this.addCombatLogMessage(`${unit.name} → ${ability.name} → ${target.name}`);
     }
 
-    // Calculate XP earned this action
-    const xpAfter = shouldTrackXP
-      ? this.xpTracker.getBattleXP(this.activeUnit.dataId)
-      : 0;
-    this.currentActionXP = xpAfter - xpBefore;
-
-    // Mark that this hero has earned XP this turn (prevents double XP from Hide+Attack)
-    if (shouldTrackXP && this.currentActionXP > 0) {
-      this.hasEarnedXPThisTurn = true;
+    if (killHealing > 0) {
+      resultLines.push(`${unit.name}'s Bloodstone heals ${killHealing} HP!`);
     }
 
-    // Mark as having acted
-    this.activeUnit.actionsRemaining--;
-    if (this.activeUnit.actionsRemaining <= 0) {
-      this.activeUnit.hasActed = true;
-    }
+    // XP earned this action
+    this.currentActionXP = outcome.xpEarned;
 
     // Store values for the callback chain
-    const heroName = this.activeUnit.name;
-    const isHero = this.activeUnit.team === 'hero';
-    const hasMoreActions = this.activeUnit && this.activeUnit.actionsRemaining > 0;
+    const heroName = unit.name;
+    const isHero = unit.team === 'hero';
+    const hasMoreActions = unit.actionsRemaining > 0;
     const xpEarned = this.currentActionXP;
 
     // Show action result panel, then XP panel, then continue
@@ -6698,7 +6811,7 @@ export class BattleScene extends Phaser.Scene {
    * Complete ability execution after panels are dismissed
    */
   private finishAbilityExecution(hasMoreActions: boolean): void {
-    this.checkBattleEnd();
+    this.engine.checkBattleEnd();
 
     if (this.phase !== 'victory' && this.phase !== 'defeat') {
       if (hasMoreActions) {
@@ -6711,6 +6824,26 @@ export class BattleScene extends Phaser.Scene {
     }
   }
 
+  /**
+   * Data for a non-hero unit - enemies, summons and allies all share the enemy data shape
+   */
+  private getAIUnitData(dataId: string): EnemyData | undefined {
+    return this.enemiesData[dataId] ?? this.summonsData[dataId] ?? this.alliesData[dataId];
+  }
+
+  /**
+   * Set a unit's sprite texture to match its current facing
+   */
+  private setUnitFacingSprite(unit: Unit): void {
+    if (!unit.sprite) return;
+
+    const spriteDirs = { north: 'back', south: 'front', east: 'right', west: 'left' };
+    const heroData = this.heroesData[unit.dataId];
+    const enemyData = this.getAIUnitData(unit.dataId);
+    const baseSprite = heroData?.sprite || enemyData?.sprite || `sprite_${unit.dataId}`;
+    unit.sprite.setTexture(`${baseSprite}_${spriteDirs[unit.facing]}`);
+  }
+
   /**
    * Face the target before attacking
    */
@@ -6740,7 +6873,7 @@ export class BattleScene extends Phaser.Scene {
 
     if (unit.sprite) {
       const heroData = this.heroesData[unit.dataId];
-      const enemyData = this.enemiesData[unit.dataId];
+      const enemyData = this.getAIUnitData(unit.dataId);
       const baseSprite = heroData?.sprite || enemyData?.sprite || `sprite_${unit.dataId}`;
       unit.sprite.setTexture(`${baseSprite}_${spriteDir}`);
     }
@@ -6750,7 +6883,7 @@ export class BattleScene extends Phaser.Scene {
    * Show damage number floating up from unit
    */
   private showDamageNumber(target: Unit, amount: number, isHealing: boolean): void {
-    const pixelPos = this.gridManager.gridToPixel(target.gridX, target.gridY);
+    const pixelPos = getFootprintCenter(target);
     const color = isHealing ? '#44ff44' : '#ff4444';
     const prefix = isHealing ? '+' : '-';
 
@@ -6779,7 +6912,7 @@ export class BattleScene extends Phaser.Scene {
    * Show miss indicator
    */
   private showMissIndicator(target: Unit): void {
-    const pixelPos = this.gridManager.gridToPixel(target.gridX, target.gridY);
+    const pixelPos = getFootprintCenter(target);
 
     const missText = this.add.text(pixelPos.x, pixelPos.y - 20, 'MISS', {
       fontFamily: 'monospace',
@@ -6811,7 +6944,7 @@ export class BattleScene extends Phaser.Scene {
     }
 
     // Track enemy defeats for battle summary
-    if (unit.team === 'enemy') {
+    if (unit.team === 'enemy' && !unit.summon) {
       this.battleStats.enemiesDefeated++;
     }
   }
@@ -6827,17 +6960,268 @@ export class BattleScene extends Phaser.Scene {
     }
   }
 
+  // ============================================
+  // Battle Events
+  // ============================================
+
   /**
-   * Check for battle end conditions
+   * Buffer engine events until releaseBattleEvents (e.g. zone damage while a move animates)
    */
-  private checkBattleEnd(): void {
-    const allEnemiesDefeated = this.enemyUnits.every((u) => u.isUnconscious);
-    const allHeroesDefeated = this.heroUnits.every((u) => u.isUnconscious);
+  private holdBattleEvents(): void {
+    this.heldBattleEvents = this.heldBattleEvents ?? [];
+  }
 
-    if (allEnemiesDefeated) {
-      this.handleVictory();
-    } else if (allHeroesDefeated) {
-      this.handleDefeat();
+  /**
+   * Present any buffered engine events and stop buffering
+   */
+  private releaseBattleEvents(): void {
+    const held = this.heldBattleEvents ?? [];
+    this.heldBattleEvents = null;
+    for (const event of held) {
+      this.onBattleEvent(event);
+    }
+  }
+
+  /**
+   * Render an engine event - numbers, log lines, markers and zone graphics
+   * Result panels are built by the scene from command outcomes
+   */
+  private onBattleEvent(event: BattleEvent): void {
+    if (this.heldBattleEvents) {
+      this.heldBattleEvents.push(event);
+      return;
+    }
+
+    // Objective progress can change with rounds, movement and defeats
+    if (OBJECTIVE_EVENTS.includes(event.type)) {
+      this.updateObjectivesUI();
+    }
+
+    switch (event.type) {
+      case 'damage': {
+        const { unit, amount, source } = event;
+        this.showDamageNumber(unit, amount, false);
+        if (source.kind === 'ability') {
+          this.trackDamage(amount, source.unit.team === 'hero');
+        } else if (source.kind === 'collision') {
+          this.trackDamage(amount, source.unit.team === 'hero');
+          this.addCombatLogMessage(`  ${unit.name} takes ${amount} collision damage!`);
+        } else if (source.kind === 'status') {
+          this.addCombatLogMessage(`${unit.name} takes ${amount} ${this.getStatusLabels(source.effects)} damage!`);
+        }
+        break;
+      }
+
+      case 'zone_triggered': {
+        const { unit, zone } = event;
+        const reason = event.trigger === 'entry' ? 'entry' : 'turn start';
+        if (event.damage > 0) {
+          this.addCombatLogMessage(`  ${unit.name} takes ${event.damage} damage from ${zone.name} (${reason})!`);
+        } else if (zone.damage) {
+          this.addCombatLogMessage(`  ${unit.name} avoids ${zone.name} damage!`);
+        }
+        if (zone.status) {
+          this.addCombatLogMessage(event.savePassed
+            ? `  ${unit.name} resists the ${zone.name}.`
+            : `  ${unit.name} suffers ${this.getStatusLabels([zone.status.type])} from the ${zone.name}!`);
+        }
+        break;
+      }
+
+      case 'healing':
+        // Item healing is shown on the item result panel
+        if (event.source.kind !== 'item') {
+          this.showDamageNumber(event.unit, event.amount, true);
+        }
+        if (event.source.kind === 'status') {
+          this.addCombatLogMessage(`${event.unit.name} recovers ${event.amount} HP!`);
+        }
+        break;
+
+      case 'status_expired':
+        this.addCombatLogMessage(`${event.unit.name}'s ${this.getStatusLabels([event.effectType])} effect has worn off.`);
+        break;
+
+      case 'status_applied':
+      case 'status_removed':
+        updateConditionMarkers(event.unit, this);
+        break;
+
+      case 'turn_skipped':
+        this.addCombatLogMessage(`${event.unit.name} is ${event.effect} and skips their turn!`);
+        break;
+
+      case 'unit_defeated':
+        if (event.source.kind === 'status') {
+          this.addCombatLogMessage(`${event.unit.name} has succumbed to ${this.getStatusLabels(event.source.effects)}!`);
+        }
+        this.handleUnitDefeated(event.unit);
+        updateConditionMarkers(event.unit, this);
+        break;
+
+      case 'boss_phase': {
+        const abilityNames = event.phase.abilities.map(id => this.abilitiesData[id]?.name ?? id);
+        this.addCombatLogMessage(`${event.unit.name} enters a new phase: ${event.phase.name}!`);
+        this.addCombatLogMessage(`  Abilities: ${abilityNames.join(', ')}`);
+        this.showFloatingMessage(`${event.unit.name}: ${event.phase.name}!`, 0xff4444);
+        break;
+      }
+
+      case 'equipment_triggered':
+        this.addCombatLogMessage(this.getEquipmentMessage(event.unit, event.equipment));
+        break;
+
+      case 'zone_created':
+        this.addCombatLogMessage(`  Zone created for ${event.zone.duration} rounds!`);
+        this.drawZones();
+        break;
+
+      case 'zone_expired':
+        this.addCombatLogMessage(`${event.zone.name} fades away.`);
+        this.drawZones();
+        break;
+
+      case 'reaction_used': {
+        const { unit, ability, source } = event.reaction;
+        this.addCombatLogMessage(`${unit.name} reacts with ${ability.name}!`);
+        this.showFloatingMessage(`${unit.name}: ${ability.name}!`, 0xffdd44);
+        if (ability.targetType === 'enemy') {
+          this.faceTarget(unit, source);
+        }
+        break;
+      }
+
+      case 'opportunity_attack': {
+        const { unit, target, result } = event;
+        const outcome = result.hit ? `hits for ${result.totalDamage}` : 'misses';
+        this.addCombatLogMessage(`${unit.name} makes an opportunity attack on ${target.name} - ${outcome}!`);
+        break;
+      }
+
+      case 'unit_pushed': {
+        const { unit, path, blockedBy } = event;
+        const verb = event.ability.forcedMovement?.type === 'pull' ? 'pulled' : 'pushed';
+        if (path.length > 0) {
+          this.addCombatLogMessage(`  ${unit.name} is ${verb} ${path.length} tile${path.length === 1 ? '' : 's'}!`);
+          this.animateForcedMove(unit, path);
+        }
+        if (blockedBy) {
+          this.addCombatLogMessage(`  ${unit.name} slams into ${blockedBy === 'wall' ? 'a wall' : blockedBy.name}!`);
+        }
+        break;
+      }
+
+      case 'zone_toggled':
+        this.addCombatLogMessage(`${event.zone.name} ${event.active ? 'activates' : 'goes quiet'}.`);
+        this.drawZones();
+        break;
+
+      case 'object_interacted':
+        this.addCombatLogMessage(`${event.unit.name} interacts with the ${event.object.name}.`);
+        this.drawObjectiveMarkers();
+        break;
+
+      case 'reinforcements_arrived':
+        this.showReinforcementsArrival(event.wave, event.units);
+        break;
+
+      case 'unit_summoned':
+        this.showSummonArrival(event.unit, event.summoner);
+        break;
+
+      case 'summon_dismissed':
+        this.removeSummonedUnit(event.unit, event.reason);
+        break;
+
+      case 'morale_broken': {
+        const verb = event.response === 'flee' ? 'flees' : 'surrenders';
+        this.addCombatLogMessage(`${event.unit.name}'s nerve breaks - it ${verb}!`);
+        this.showFloatingMessage(`${event.unit.name} ${verb}!`, 0xffaa44);
+        break;
+      }
+
+      case 'unit_routed':
+        this.removeRoutedUnit(event.unit, event.response);
+        break;
+
+      case 'scripted_event':
+        this.pendingScriptedEvents.push(event.event);
+        break;
+
+      case 'battle_end':
+        if (event.winner === 'hero') {
+          this.handleVictory();
+        } else {
+          this.handleDefeat();
+        }
+        break;
+    }
+  }
+
+  /**
+   * Play triggered scripted dialogue one event at a time with the battle paused, then continue
+   * Events still pending when the battle ends are dropped - the victory/defeat flow takes over
+   */
+  private playScriptedEvents(onComplete: () => void): void {
+    const scripted = this.pendingScriptedEvents.shift();
+    if (!scripted || this.phase === 'victory' || this.phase === 'defeat') {
+      this.pendingScriptedEvents = [];
+      onComplete();
+      return;
+    }
+
+    const resumePhase = this.phase;
+    this.phase = 'cutscene';
+    this.playDialogueLines(scripted.dialogue, () => {
+      for (const flag of scripted.setFlags ?? []) {
+        this.gameFlags[flag] = true;
+      }
+      this.phase = resumePhase;
+      this.playScriptedEvents(onComplete);
+    });
+  }
+
+  /**
+   * Play CutsceneLine dialogue line by line, with each speaker's portrait when it exists
+   */
+  private playDialogueLines(lines: CutsceneLine[], onComplete: () => void, index: number = 0): void {
+    if (index >= lines.length) {
+      onComplete();
+      return;
+    }
+
+    const line = lines[index];
+    const portraitKey = line.portrait || `portrait_${line.speaker.toLowerCase()}`;
+    this.dialogueRenderer.startDialogue(
+      [line.text],
+      line.speaker,
+      () => this.playDialogueLines(lines, onComplete, index + 1),
+      this.textures.exists(portraitKey) ? portraitKey : undefined
+    );
+  }
+
+  /**
+   * Join status effect labels for log messages (e.g. "Poison and Burning")
+   */
+  private getStatusLabels(effects: StatusEffectType[]): string {
+    return effects.map(type => getStatusDefinition(type)?.label ?? type).join(' and ');
+  }
+
+  /**
+   * Combat log line for an equipment bonus
+   */
+  private getEquipmentMessage(unit: Unit, equipment: EquipmentId): string {
+    switch (equipment) {
+      case 'swift_anklet':
+        return `${unit.name}'s Swift Anklet grants +2 initiative!`;
+      case 'ambushers_ring':
+        return `${unit.name}'s Ambusher's Ring grants +2 ATK!`;
+      case 'wardstone':
+        return `${unit.name}'s Wardstone grants +2 RES!`;
+      case 'healers_pendant':
+        return `${unit.name}'s Healer's Pendant grants +1 healing!`;
+      case 'bloodstone':
+        return `${unit.name}'s Bloodstone heals 2 HP!`;
     }
   }
 
@@ -6906,6 +7290,9 @@ export class BattleScene extends Phaser.Scene {
     if (this.cursorGraphics) this.cursorGraphics.clear();
     if (this.pathPreviewGraphics) this.pathPreviewGraphics.clear();
     if (this.targetHighlightGraphics) this.targetHighlightGraphics.clear();
+
+    // Stop feeding the battle seed to anything rolled outside of battle
+    resetRandomSource();
   }
 
   // ==========================================================================
@@ -3,6 +3,7 @@ import { GAME_CONFIG } from '../config';
 import { HeroState, SaveManager } from '../systems/SaveManager';
 import { ProgressBar } from '../components/ProgressBar';
 import { ItemData, InventoryState, CONSUMABLE_IDS, ConsumableId } from '../data/ItemTypes';
+import { ForcedMovement } from '../data/BattleTypes';
 
 interface HeroData {
   id: string;
@@ -30,6 +31,7 @@ interface AbilityData {
   cost: number;
   costType: string | null;
   range: number;
+  forcedMovement?: ForcedMovement;
   levelRequired?: number;
 }
 
@@ -1974,6 +1976,11 @@ export class MenuScene extends Phaser.Scene {
       }
     }
 
+    if (ability.forcedMovement) {
+      const { type, distance } = ability.forcedMovement;
+      lines.push({ text: `  Effect: ${type === 'push' ? 'Pushes' : 'Pulls'} target ${distance} tile${distance === 1 ? '' : 's'}`, color: '#88ffff', size: '12px' });
+    }
+
     // Description
     lines.push({ text: `  "${ability.description}"`, color: '#888888', size: '11px' });
   }
@@ -1,6 +1,7 @@
 import Phaser from 'phaser';
 import { GAME_CONFIG } from '../config';
 import { InventoryState } from '../data/ItemTypes';
+import { validateAbilityDice, validateItemDice } from '../systems/DiceParser';
 
 export class PreloadScene extends Phaser.Scene {
   constructor() {
@@ -119,6 +120,8 @@ export class PreloadScene extends Phaser.Scene {
     // Battle system data
     this.load.json('data_enemies', 'data/enemies.json');
     this.load.json('data_abilities', 'data/abilities.json');
+    this.load.json('data_summons', 'data/summons.json');
+    this.load.json('data_allies', 'data/allies.json');
     this.load.json('data_items', 'data/items.json');
     this.load.json('data_battle_abandoned_distillery', 'data/battles/abandoned_distillery.json');
     this.load.json('data_battle_street', 'data/battles/street.json');
@@ -185,6 +188,15 @@ export class PreloadScene extends Phaser.Scene {
       }
     });
 
+    // Fail loudly on bad dice notation instead of rolling 0 damage mid-battle
+    const diceErrors = [
+      ...validateAbilityDice(this.cache.json.get('data_abilities')),
+      ...validateItemDice(this.cache.json.get('data_items')),
+    ];
+    if (diceErrors.length > 0) {
+      throw new Error(`Invalid dice notation in game data:\n${diceErrors.join('\n')}`);
+    }
+
     // Check if we're in a test mode
     const isBattleTest = this.registry.get('battleTestMode');
     const isTravelTest = this.registry.get('travelTestMode');
@@ -220,6 +232,7 @@ export class PreloadScene extends Phaser.Scene {
     } else if (isBattleTest) {
       // Jump straight to battle scene (dev mode enabled for testing)
       const battleMap = this.registry.get('battleMap') || 'abandoned_distillery';
+      const battleSeed: number | undefined = this.registry.get('battleSeed');
 
       // Create test inventory with items for testing
       const testInventory: InventoryState = {
@@ -252,6 +265,7 @@ export class PreloadScene extends Phaser.Scene {
         inventory: testInventory,
         heroState: testHeroState,
         returnScene: 'SparkworksScene',
+        seed: battleSeed,
       });
     } else if (isTravelTest) {
       // Jump straight to Sparkworks scene for testing
@@ -1,6 +1,7 @@
 import Phaser from 'phaser';
 import { GAME_CONFIG } from '../config';
 import { DialogueRenderer } from '../systems/DialogueRenderer';
+import { MAX_CLIMB_HEIGHT } from '../systems/GridManager';
 import { HeroState } from '../systems/SaveManager';
 import { BattleXPSummary } from '../systems/XPTracker';
 import { LevelUpOverlay } from '../components/LevelUpOverlay';
@@ -35,6 +36,7 @@ interface TravelMapData {
   gridWidth: number;
   gridHeight: number;
   terrain: number[][];
+  elevation?: number[][];
   playerStart: { x: number; y: number };
   locations: Array<{
     id: string;
@@ -86,6 +88,7 @@ export class SparkworksScene extends Phaser.Scene {
   // Map data
   private mapData!: TravelMapData;
   private terrain: number[][] = [];
+  private elevation: number[][] = [];
   private mapGridWidth: number = 20;
   private mapGridHeight: number = 20;
 
@@ -156,6 +159,7 @@ export class SparkworksScene extends Phaser.Scene {
     // Load map data from cache
     this.mapData = this.cache.json.get('data_map_sparkworks');
     this.terrain = this.mapData.terrain;
+    this.elevation = this.mapData.elevation ?? [];
     this.mapGridWidth = this.mapData.gridWidth;
     this.mapGridHeight = this.mapData.gridHeight;
 
@@ -369,6 +373,11 @@ export class SparkworksScene extends Phaser.Scene {
     const terrainValue = this.terrain[gridY]?.[gridX];
     if (terrainValue === 2) return false;
 
+    // Ledges too high to climb (or drop) block the step
+    const heightFrom = this.elevation[this.playerGridY]?.[this.playerGridX] ?? 0;
+    const heightTo = this.elevation[gridY]?.[gridX] ?? 0;
+    if (Math.abs(heightTo - heightFrom) > MAX_CLIMB_HEIGHT) return false;
+
     return true;
   }
 
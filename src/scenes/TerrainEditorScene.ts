@@ -1,5 +1,7 @@
 import Phaser from 'phaser';
 import { GAME_CONFIG } from '../config';
+import { DefeatCondition, TileBounds, VictoryCondition } from '../data/BattleTypes';
+import { MAX_CLIMB_HEIGHT } from '../systems/GridManager';
 
 interface MapOption {
   id: string;
@@ -20,7 +22,15 @@ interface EnemyPlacement {
   y: number;
 }
 
-type EditorMode = 'terrain' | 'hero' | 'enemy';
+type EditorMode = 'terrain' | 'elevation' | 'hero' | 'enemy' | 'objective';
+
+type VictoryType = 'defeat_all' | 'survive' | 'reach_exit' | 'defeat_boss' | 'interact';
+
+// Hero party order used by BattleScene.placeHeroes (H1 = arden, ...)
+const PARTY_ORDER = ['arden', 'quin', 'veil', 'ty', 'thorn'];
+
+// Highest elevation the editor paints (each level shades the tile a little lighter)
+const MAX_ELEVATION = 5;
 
 export class TerrainEditorScene extends Phaser.Scene {
   private maps: MapOption[] = [
@@ -37,6 +47,7 @@ export class TerrainEditorScene extends Phaser.Scene {
   private currentMapIndex: number = 0;
   private mapImage!: Phaser.GameObjects.Image;
   private terrainData: number[][] = [];
+  private elevationData: number[][] = [];
   private terrainOverlay!: Phaser.GameObjects.Graphics;
   private gridOverlay!: Phaser.GameObjects.Graphics;
   private unitOverlay!: Phaser.GameObjects.Graphics;
@@ -50,12 +61,25 @@ export class TerrainEditorScene extends Phaser.Scene {
 
   private isDragging: boolean = false;
   private currentPaintValue: number = 2;
+  private currentElevation: number = 1;
   private editorMode: EditorMode = 'terrain';
 
   // Unit placement data
   private heroPositions: HeroPosition[] = [];
   private enemyPlacements: EnemyPlacement[] = [];
 
+  // Objective data
+  private victoryTypes: VictoryType[] = ['defeat_all', 'survive', 'reach_exit', 'defeat_boss', 'interact'];
+  private currentVictoryTypeIndex: number = 0;
+  private surviveRounds: number = 5;
+  private exitBounds: TileBounds | null = null;
+  private exitCorner: HeroPosition | null = null; // First corner while dragging out the exit area
+  private exitHeroes: 'any' | 'all' = 'any';
+  private bossPlacement: EnemyPlacement | null = null;
+  private objectiveObjects: HeroPosition[] = [];
+  private interactBeforeRound: number = 6;
+  private protectedHeroIndex: number | null = null;
+
   constructor() {
     super({ key: 'TerrainEditorScene' });
   }
@@ -131,14 +155,21 @@ export class TerrainEditorScene extends Phaser.Scene {
     this.input.keyboard!.on('keydown-ONE', () => { this.editorMode = 'terrain'; this.currentPaintValue = 0; this.updateInstructions(); });
     this.input.keyboard!.on('keydown-TWO', () => { this.editorMode = 'terrain'; this.currentPaintValue = 1; this.updateInstructions(); });
     this.input.keyboard!.on('keydown-THREE', () => { this.editorMode = 'terrain'; this.currentPaintValue = 2; this.updateInstructions(); });
+    this.input.keyboard!.on('keydown-FOUR', () => { this.editorMode = 'terrain'; this.currentPaintValue = 3; this.updateInstructions(); });
+    this.input.keyboard!.on('keydown-V', () => { this.editorMode = 'elevation'; this.updateInstructions(); });
 
     // Unit placement modes
     this.input.keyboard!.on('keydown-H', () => { this.editorMode = 'hero'; this.updateInstructions(); });
     this.input.keyboard!.on('keydown-N', () => { this.editorMode = 'enemy'; this.updateInstructions(); });
+    this.input.keyboard!.on('keydown-O', () => { this.editorMode = 'objective'; this.updateInstructions(); });
+
+    // Enemy type / objective cycling (when in enemy or objective mode)
+    this.input.keyboard!.on('keydown-OPEN_BRACKET', () => { this.cycleEnemyType(-1); this.cycleVictoryType(-1); });
+    this.input.keyboard!.on('keydown-CLOSED_BRACKET', () => { this.cycleEnemyType(1); this.cycleVictoryType(1); });
 
-    // Enemy type cycling (when in enemy mode)
-    this.input.keyboard!.on('keydown-OPEN_BRACKET', () => this.cycleEnemyType(-1));
-    this.input.keyboard!.on('keydown-CLOSED_BRACKET', () => this.cycleEnemyType(1));
+    // Objective value (survive rounds, interact deadline, exit any/all) or elevation height
+    this.input.keyboard!.on('keydown-MINUS', () => { this.adjustObjectiveValue(-1); this.adjustElevation(-1); });
+    this.input.keyboard!.on('keydown-PLUS', () => { this.adjustObjectiveValue(1); this.adjustElevation(1); });
 
     // Camera drag with middle mouse or right click
     this.input.on('pointermove', (pointer: Phaser.Input.Pointer) => {
@@ -165,14 +196,73 @@ export class TerrainEditorScene extends Phaser.Scene {
     this.updateInstructions();
   }
 
+  private cycleVictoryType(direction: number): void {
+    if (this.editorMode !== 'objective') return;
+    this.currentVictoryTypeIndex = (this.currentVictoryTypeIndex + direction + this.victoryTypes.length) % this.victoryTypes.length;
+    this.exitCorner = null;
+    this.updateInstructions();
+    this.redrawUnitOverlay();
+  }
+
+  private adjustObjectiveValue(direction: number): void {
+    if (this.editorMode !== 'objective') return;
+
+    const victoryType = this.victoryTypes[this.currentVictoryTypeIndex];
+    if (victoryType === 'survive') {
+      this.surviveRounds = Math.max(1, this.surviveRounds + direction);
+    } else if (victoryType === 'interact') {
+      this.interactBeforeRound = Math.max(2, this.interactBeforeRound + direction);
+    } else if (victoryType === 'reach_exit') {
+      this.exitHeroes = this.exitHeroes === 'any' ? 'all' : 'any';
+    }
+    this.updateInstructions();
+  }
+
+  private adjustElevation(direction: number): void {
+    if (this.editorMode !== 'elevation') return;
+    this.currentElevation = Phaser.Math.Clamp(this.currentElevation + direction, 0, MAX_ELEVATION);
+    this.updateInstructions();
+  }
+
+  private getObjectiveSummary(): string {
+    const victoryType = this.victoryTypes[this.currentVictoryTypeIndex];
+    const protectedHero = this.protectedHeroIndex !== null ? PARTY_ORDER[this.protectedHeroIndex] : 'none';
+
+    let victory: string = victoryType;
+    if (victoryType === 'survive') {
+      victory = `survive ${this.surviveRounds} rounds (-/+ to change)`;
+    } else if (victoryType === 'reach_exit') {
+      const area = this.exitBounds ? `${this.exitBounds.x1},${this.exitBounds.y1} - ${this.exitBounds.x2},${this.exitBounds.y2}` : 'click 2 corners';
+      victory = `reach_exit ${this.exitHeroes} heroes (-/+), area ${area}`;
+    } else if (victoryType === 'defeat_boss') {
+      victory = `defeat_boss ${this.bossPlacement ? this.getEnemyInstanceId(this.bossPlacement) : '(click an enemy)'}`;
+    } else if (victoryType === 'interact') {
+      victory = `interact ${this.objectiveObjects.length} objects before round ${this.interactBeforeRound} (-/+)`;
+    }
+
+    return `Objective: ${victory} ([ ] to cycle)\nProtect: ${protectedHero} (click a hero)`;
+  }
+
+  /**
+   * Instance ID BattleScene.placeEnemies gives this placement (e.g. "cultist_mook_2")
+   */
+  private getEnemyInstanceId(placement: EnemyPlacement): string {
+    const sameType = this.enemyPlacements.filter(e => e.type === placement.type);
+    return `${placement.type}_${sameType.indexOf(placement) + 1}`;
+  }
+
   private updateInstructions(): void {
     const map = this.maps[this.currentMapIndex];
     const isBattle = map.isBattle;
 
     const modeIndicator = this.editorMode === 'terrain'
-      ? `Terrain: ${['0: Walkable', '1: Difficult', '2: Impassable'][this.currentPaintValue]}`
+      ? `Terrain: ${['0: Walkable', '1: Difficult', '2: Impassable', '3: Cover'][this.currentPaintValue]}`
+      : this.editorMode === 'elevation'
+      ? `Elevation: height ${this.currentElevation} (-/+ to change)`
       : this.editorMode === 'hero'
       ? 'Hero Placement (click to add/remove)'
+      : this.editorMode === 'objective'
+      ? this.getObjectiveSummary()
       : `Enemy: ${this.enemyTypes[this.currentEnemyTypeIndex]} ([ ] to cycle)`;
 
     const lines = [
@@ -182,6 +272,8 @@ export class TerrainEditorScene extends Phaser.Scene {
       '',
       'TERRAIN MODE:',
       '1: Walkable  2: Difficult  3: Impassable',
+      '4: Cover (+2 DEF vs ranged)',
+      `V: Elevation (steps over ${MAX_CLIMB_HEIGHT} level blocked)`,
       '',
     ];
 
@@ -191,6 +283,7 @@ export class TerrainEditorScene extends Phaser.Scene {
         'H: Hero positions',
         'N: Enemy positions',
         '[ / ]: Cycle enemy type',
+        'O: Objectives',
         ''
       );
     }
@@ -216,9 +309,10 @@ export class TerrainEditorScene extends Phaser.Scene {
     if (this.gridOverlay) this.gridOverlay.destroy();
     if (this.unitOverlay) this.unitOverlay.destroy();
 
-    // Reset unit placements
+    // Reset unit placements and objectives
     this.heroPositions = [];
     this.enemyPlacements = [];
+    this.resetObjectives();
 
     // Load map image (scaled to match game rendering - default 0.5, overland maps 0.75)
     const mapScale = map.scale ?? 0.5;
@@ -230,12 +324,15 @@ export class TerrainEditorScene extends Phaser.Scene {
     this.mapGridWidth = Math.floor(this.mapImage.displayWidth / GAME_CONFIG.TILE_SIZE);
     this.mapGridHeight = Math.floor(this.mapImage.displayHeight / GAME_CONFIG.TILE_SIZE);
 
-    // Initialize terrain data (all walkable by default)
+    // Initialize terrain data (all walkable and flat by default)
     this.terrainData = [];
+    this.elevationData = [];
     for (let y = 0; y < this.mapGridHeight; y++) {
       this.terrainData[y] = [];
+      this.elevationData[y] = [];
       for (let x = 0; x < this.mapGridWidth; x++) {
         this.terrainData[y][x] = 0;
+        this.elevationData[y][x] = 0;
       }
     }
 
@@ -314,7 +411,7 @@ export class TerrainEditorScene extends Phaser.Scene {
 
     if (gridX >= 0 && gridX < this.mapGridWidth && gridY >= 0 && gridY < this.mapGridHeight) {
       const currentValue = this.terrainData[gridY]?.[gridX] ?? 0;
-      const terrainNames = ['Walkable', 'Difficult', 'Impassable'];
+      const terrainNames = ['Walkable', 'Difficult', 'Impassable', 'Cover'];
 
       // Check for units at this position
       const heroIndex = this.heroPositions.findIndex(h => h.x === gridX && h.y === gridY);
@@ -324,10 +421,12 @@ export class TerrainEditorScene extends Phaser.Scene {
       if (heroIndex !== -1) unitInfo = ` | Hero #${heroIndex + 1}`;
       if (enemy) unitInfo = ` | Enemy: ${enemy.type}`;
 
-      this.coordsText.setText(`Tile: ${gridX}, ${gridY} [${terrainNames[currentValue]}]${unitInfo}`);
+      const elevation = this.elevationData[gridY]?.[gridX] ?? 0;
 
-      // Paint while dragging (terrain mode only)
-      if (this.isDragging && pointer.leftButtonDown() && this.editorMode === 'terrain') {
+      this.coordsText.setText(`Tile: ${gridX}, ${gridY} [${terrainNames[currentValue]}, height ${elevation}]${unitInfo}`);
+
+      // Paint while dragging (terrain and elevation modes only)
+      if (this.isDragging && pointer.leftButtonDown() && (this.editorMode === 'terrain' || this.editorMode === 'elevation')) {
         this.paintTile(gridX, gridY);
       }
     } else {
@@ -344,13 +443,15 @@ export class TerrainEditorScene extends Phaser.Scene {
         return;
       }
 
-      if (this.editorMode === 'terrain') {
+      if (this.editorMode === 'terrain' || this.editorMode === 'elevation') {
         this.isDragging = true;
         this.paintTile(gridX, gridY);
       } else if (this.editorMode === 'hero') {
         this.toggleHeroPosition(gridX, gridY);
       } else if (this.editorMode === 'enemy') {
         this.toggleEnemyPosition(gridX, gridY);
+      } else if (this.editorMode === 'objective') {
+        this.editObjective(gridX, gridY);
       }
     }
   }
@@ -380,7 +481,10 @@ export class TerrainEditorScene extends Phaser.Scene {
 
     if (existingIndex !== -1) {
       // Remove existing enemy
-      this.enemyPlacements.splice(existingIndex, 1);
+      const [removed] = this.enemyPlacements.splice(existingIndex, 1);
+      if (removed === this.bossPlacement) {
+        this.bossPlacement = null;
+      }
     } else {
       // Add new enemy
       this.enemyPlacements.push({
@@ -393,12 +497,91 @@ export class TerrainEditorScene extends Phaser.Scene {
     this.redrawUnitOverlay();
   }
 
+  private editObjective(gridX: number, gridY: number): void {
+    const victoryType = this.victoryTypes[this.currentVictoryTypeIndex];
+    const heroIndex = this.heroPositions.findIndex(h => h.x === gridX && h.y === gridY);
+    const enemy = this.enemyPlacements.find(e => e.x === gridX && e.y === gridY);
+
+    if (heroIndex !== -1) {
+      // Toggle the hero to protect
+      this.protectedHeroIndex = this.protectedHeroIndex === heroIndex ? null : heroIndex;
+    } else if (victoryType === 'defeat_boss' && enemy) {
+      this.bossPlacement = this.bossPlacement === enemy ? null : enemy;
+    } else if (victoryType === 'reach_exit') {
+      if (!this.exitCorner) {
+        this.exitCorner = { x: gridX, y: gridY };
+        this.exitBounds = { x1: gridX, y1: gridY, x2: gridX, y2: gridY };
+      } else {
+        this.exitBounds = {
+          x1: Math.min(this.exitCorner.x, gridX),
+          y1: Math.min(this.exitCorner.y, gridY),
+          x2: Math.max(this.exitCorner.x, gridX),
+          y2: Math.max(this.exitCorner.y, gridY),
+        };
+        this.exitCorner = null;
+      }
+    } else if (victoryType === 'interact') {
+      const existingIndex = this.objectiveObjects.findIndex(o => o.x === gridX && o.y === gridY);
+      if (existingIndex !== -1) {
+        this.objectiveObjects.splice(existingIndex, 1);
+      } else {
+        this.objectiveObjects.push({ x: gridX, y: gridY });
+      }
+    }
+
+    this.updateInstructions();
+    this.redrawUnitOverlay();
+  }
+
+  private resetObjectives(): void {
+    this.currentVictoryTypeIndex = 0;
+    this.exitBounds = null;
+    this.exitCorner = null;
+    this.bossPlacement = null;
+    this.objectiveObjects = [];
+    this.protectedHeroIndex = null;
+  }
+
+  private buildVictoryCondition(): VictoryCondition {
+    switch (this.victoryTypes[this.currentVictoryTypeIndex]) {
+      case 'survive':
+        return { type: 'survive', rounds: this.surviveRounds };
+      case 'reach_exit':
+        return this.exitBounds ? { type: 'reach_exit', bounds: this.exitBounds, heroes: this.exitHeroes } : 'defeat_all';
+      case 'defeat_boss':
+        return this.bossPlacement && this.enemyPlacements.includes(this.bossPlacement)
+          ? { type: 'defeat_boss', unitId: this.getEnemyInstanceId(this.bossPlacement) }
+          : 'defeat_all';
+      case 'interact':
+        return this.objectiveObjects.length > 0
+          ? {
+            type: 'interact',
+            objects: this.objectiveObjects.map((o, i) => ({ id: `object_${i + 1}`, name: 'Object', x: o.x, y: o.y })),
+            count: this.objectiveObjects.length,
+            beforeRound: this.interactBeforeRound,
+          }
+          : 'defeat_all';
+      default:
+        return 'defeat_all';
+    }
+  }
+
+  private buildDefeatCondition(): DefeatCondition {
+    return this.protectedHeroIndex !== null && this.protectedHeroIndex < this.heroPositions.length
+      ? { type: 'protect', unitId: PARTY_ORDER[this.protectedHeroIndex] }
+      : 'all_heroes_down';
+  }
+
   private paintTile(gridX: number, gridY: number): void {
     if (gridX < 0 || gridX >= this.mapGridWidth || gridY < 0 || gridY >= this.mapGridHeight) {
       return;
     }
 
-    this.terrainData[gridY][gridX] = this.currentPaintValue;
+    if (this.editorMode === 'elevation') {
+      this.elevationData[gridY][gridX] = this.currentElevation;
+    } else {
+      this.terrainData[gridY][gridX] = this.currentPaintValue;
+    }
     this.redrawTerrainOverlay();
   }
 
@@ -426,6 +609,27 @@ export class TerrainEditorScene extends Phaser.Scene {
             GAME_CONFIG.TILE_SIZE,
             GAME_CONFIG.TILE_SIZE
           );
+        } else if (value === 3) {
+          // Cover - blue
+          this.terrainOverlay.fillStyle(0x3399ff, 0.4);
+          this.terrainOverlay.fillRect(
+            x * GAME_CONFIG.TILE_SIZE,
+            y * GAME_CONFIG.TILE_SIZE,
+            GAME_CONFIG.TILE_SIZE,
+            GAME_CONFIG.TILE_SIZE
+          );
+        }
+
+        const elevation = this.elevationData[y][x];
+        if (elevation > 0) {
+          // Raised ground - white, lighter the higher it is
+          this.terrainOverlay.fillStyle(0xffffff, 0.1 * elevation);
+          this.terrainOverlay.fillRect(
+            x * GAME_CONFIG.TILE_SIZE,
+            y * GAME_CONFIG.TILE_SIZE,
+            GAME_CONFIG.TILE_SIZE,
+            GAME_CONFIG.TILE_SIZE
+          );
         }
       }
     }
@@ -472,6 +676,29 @@ export class TerrainEditorScene extends Phaser.Scene {
       this.unitOverlay.strokeCircle(centerX, centerY, halfTile - 4);
     });
 
+    // Draw objectives (yellow): exit area, interact objects, boss and protected hero rings
+    this.unitOverlay.lineStyle(3, 0xffdd44, 1);
+    const victoryType = this.victoryTypes[this.currentVictoryTypeIndex];
+    if (victoryType === 'reach_exit' && this.exitBounds) {
+      const { x1, y1, x2, y2 } = this.exitBounds;
+      this.unitOverlay.fillStyle(0xffdd44, 0.25);
+      this.unitOverlay.fillRect(x1 * tileSize, y1 * tileSize, (x2 - x1 + 1) * tileSize, (y2 - y1 + 1) * tileSize);
+      this.unitOverlay.strokeRect(x1 * tileSize, y1 * tileSize, (x2 - x1 + 1) * tileSize, (y2 - y1 + 1) * tileSize);
+    }
+    if (victoryType === 'interact') {
+      this.objectiveObjects.forEach(object => {
+        this.unitOverlay.fillStyle(0xffdd44, 0.7);
+        this.unitOverlay.fillRect(object.x * tileSize + 8, object.y * tileSize + 8, tileSize - 16, tileSize - 16);
+      });
+    }
+    if (victoryType === 'defeat_boss' && this.bossPlacement) {
+      this.unitOverlay.strokeCircle(this.bossPlacement.x * tileSize + halfTile, this.bossPlacement.y * tileSize + halfTile, halfTile);
+    }
+    const protectedHero = this.protectedHeroIndex !== null ? this.heroPositions[this.protectedHeroIndex] : undefined;
+    if (protectedHero) {
+      this.unitOverlay.strokeCircle(protectedHero.x * tileSize + halfTile, protectedHero.y * tileSize + halfTile, halfTile);
+    }
+
     // Add text labels for heroes and enemies
     // Clear any existing labels first
     this.children.list
@@ -511,12 +738,14 @@ export class TerrainEditorScene extends Phaser.Scene {
     for (let y = 0; y < this.mapGridHeight; y++) {
       for (let x = 0; x < this.mapGridWidth; x++) {
         this.terrainData[y][x] = 0;
+        this.elevationData[y][x] = 0;
       }
     }
 
-    // Clear units
+    // Clear units and objectives
     this.heroPositions = [];
     this.enemyPlacements = [];
+    this.resetObjectives();
 
     this.redrawTerrainOverlay();
     this.redrawUnitOverlay();
@@ -525,6 +754,10 @@ export class TerrainEditorScene extends Phaser.Scene {
   private exportData(): void {
     const map = this.maps[this.currentMapIndex];
 
+    // Flat maps leave the elevation layer out
+    const hasElevation = this.elevationData.some(row => row.some(height => height !== 0));
+    const elevation = hasElevation ? { elevation: this.elevationData } : {};
+
     if (map.isBattle) {
       // Export as battle map
       const output = {
@@ -534,10 +767,11 @@ export class TerrainEditorScene extends Phaser.Scene {
         gridWidth: this.mapGridWidth,
         gridHeight: this.mapGridHeight,
         terrain: this.terrainData,
+        ...elevation,
         heroStartPositions: this.heroPositions,
         enemies: this.enemyPlacements,
-        victoryCondition: 'defeat_all',
-        defeatCondition: 'all_heroes_down',
+        victoryCondition: this.buildVictoryCondition(),
+        defeatCondition: this.buildDefeatCondition(),
         introCutscene: ['Battle begins!'],
         victoryCutscene: ['Victory!'],
       };
@@ -555,6 +789,7 @@ export class TerrainEditorScene extends Phaser.Scene {
         gridWidth: this.mapGridWidth,
         gridHeight: this.mapGridHeight,
         terrain: this.terrainData,
+        ...elevation,
         npcs: [],
         playerStart: { x: Math.floor(this.mapGridWidth / 2), y: Math.floor(this.mapGridHeight / 2) },
       };
@@ -1,21 +1,116 @@
-import { Unit, Ability } from '../data/BattleTypes';
+import { Unit, Ability, AIDifficulty, AITargetPriority, EnemyGroup, Position, Zone } from '../data/BattleTypes';
 import { GridManager } from './GridManager';
-import { getDistance } from './CombatResolver';
+import {
+  HIGH_GROUND_ATTACK_BONUS,
+  getAttackAngle,
+  getCoverBonus,
+  getDistance,
+  getFacingBonus,
+  getOpportunityAttacks,
+  getUnitDistance,
+  hasHighGround,
+  hasLineOfSight,
+  isFlanking,
+  isInRange,
+  planForcedMovement,
+} from './CombatResolver';
+import { MOVEMENT_RANGE } from './BattleEngine';
+import { isCycleActive } from './Hazards';
+import { GroupGoal, getGroupGoal, getGroupMembers, getUnitGroup } from './EnemyGroups';
+import { averageDiceRoll, randomFloat } from './DiceRoller';
+import { getStatusDefinition, isNegativeStatus } from './StatusEffectRegistry';
+import {
+  areAllied,
+  getClosestTile,
+  getDiceStatContext,
+  getEffectiveAttack,
+  getEffectiveDamageBonus,
+  getEffectiveDefense,
+  getEffectiveResilience,
+  getTurnSkippingEffect,
+  getUnitSize,
+  hasStatusEffect,
+} from '../entities/Unit';
 
 /**
  * AI Decision Result
  */
 export interface AIDecision {
   action: 'move' | 'attack' | 'ability' | 'wait';
-  targetPosition?: { x: number; y: number }; // For movement
+  targetPosition?: { x: number; y: number }; // For movement, and the tile a summon appears on
   targetUnit?: Unit; // For attacks/abilities
   ability?: Ability; // Which ability to use
 }
 
-// Base aggro range - actual aggro range is BASE_AGGRO_RANGE + current round
+// Base aggro range - standard units' aggro range is BASE_AGGRO_RANGE + current round
 // This allows players to heal/regroup early but prevents turtling indefinitely
 const BASE_AGGRO_RANGE = 5;
 
+// Default target priority for units without an AI profile
+const DEFAULT_TARGET_PRIORITY: AITargetPriority[] = ['closest'];
+
+// How much the AI values shoving a hero into a hazard, or into a wall or unit
+const SHOVE_INTO_HAZARD_SCORE = 30;
+const SHOVE_INTO_OBSTACLE_SCORE = 10;
+
+// How much the AI dislikes each opportunity attack a move would provoke (zone of control)
+const PROVOKED_ATTACK_PENALTY = 25;
+
+// How much a fleeing unit values each tile closer to an escape tile
+const ESCAPE_STEP_SCORE = 10;
+
+// Turn plan scoring - per point of expected damage (or debuff value) an action deals, for
+// the chance it drops its target, for hitting the target the unit's profile prefers, per
+// point of damage heroes could deal to the end tile next turn, and per point of hazard damage there
+const DAMAGE_SCORE = 10;
+const KILL_SCORE = 50;
+const PROFILE_TARGET_SCORE = 15;
+const DANGER_SCORE = 2;
+const HAZARD_SCORE = 10;
+
+// Group plan scoring - for attacking the group's target, per tile closer to it, for a tile
+// that flanks it, per tile too far from the member being guarded, and for standing in front
+// of the members meant to screen a caster
+const GOAL_TARGET_SCORE = 40;
+const GOAL_APPROACH_SCORE = 5;
+const FLANK_SCORE = 30;
+const GUARD_SCORE = 10;
+const SCREEN_SCORE = 30;
+
+// Support scoring, in damage-equivalent points - allies below this % of max HP are worth
+// healing, each point of a buff's attack, defense or resilience bonus and each point of its
+// damage bonus is worth this much, and so is lifting a condition (more if it skips turns)
+const HEAL_BELOW_PERCENT = 60;
+const STAT_BONUS_VALUE = 0.75;
+const DAMAGE_BONUS_VALUE = 1.5;
+const CONDITION_VALUE = 3;
+const SKIPPED_TURN_VALUE = 10;
+
+// What spending mana or ki costs a plan, times the share of the unit's remaining pool it uses -
+// so units pace themselves instead of spending it all at once - and by how healthy the unit is
+// (a unit about to fall has no reason to save anything)
+const RESOURCE_SCORE = 30;
+
+// Hazards that only apply a status count as this much damage
+const STATUS_HAZARD_DAMAGE = 3;
+
+// How well the AI plans its turns:
+//   searchDepth 1 - plans that move and then act; 2 - also plans that act and then move away
+//   noise         - random spread added to each plan's score, so weaker AI sometimes picks a worse plan
+//   maxTiles      - tiles a turn plan scores (its own, then those nearest and farthest from the heroes)
+//                   - a count rather than a time limit, so a seeded fight replays the same anywhere
+const DIFFICULTY_SETTINGS: Record<AIDifficulty, { searchDepth: number; noise: number; maxTiles: number }> = {
+  easy: { searchDepth: 1, noise: 40, maxTiles: 25 },
+  normal: { searchDepth: 1, noise: 10, maxTiles: 50 },
+  hard: { searchDepth: 2, noise: 0, maxTiles: 85 }, // Every tile within MOVEMENT_RANGE
+};
+
+// A scored option for the AI's turn
+interface ScoredDecision {
+  decision: AIDecision;
+  score: number;
+}
+
 /**
  * AI Controller for enemy units
  * Handles decision making for enemy turns
@@ -23,10 +118,26 @@ const BASE_AGGRO_RANGE = 5;
 export class AIController {
   private gridManager: GridManager;
   private abilities: Record<string, Ability>;
-
-  constructor(gridManager: GridManager, abilities: Record<string, Ability>) {
+  private zoneOfControl: boolean;
+  private difficulty: { searchDepth: number; noise: number; maxTiles: number };
+  private groups: EnemyGroup[];
+  private escapeTiles: Position[];
+  private alertedGroups = new Set<string>(); // Groups that have joined the fight
+
+  constructor(
+    gridManager: GridManager,
+    abilities: Record<string, Ability>,
+    zoneOfControl: boolean = false,
+    difficulty: AIDifficulty = 'normal',
+    groups: EnemyGroup[] = [],
+    escapeTiles: Position[] = [] // Where units whose morale broke run to (see Morale.getEscapeTiles)
+  ) {
     this.gridManager = gridManager;
     this.abilities = abilities;
+    this.zoneOfControl = zoneOfControl;
+    this.difficulty = DIFFICULTY_SETTINGS[difficulty];
+    this.groups = groups;
+    this.escapeTiles = escapeTiles;
   }
 
   /**
@@ -37,55 +148,55 @@ export class AIController {
     allUnits: Unit[],
     hasMoved: boolean,
     hasActed: boolean,
-    currentRound: number = 1
+    currentRound: number = 1,
+    zones: Zone[] = [] // Hazards to shove heroes into
   ): AIDecision {
-    const heroes = allUnits.filter(u => u.team === 'hero' && !u.isUnconscious);
+    // "Heroes" here means the opposing side - the same logic drives allies, and hero units in the simulator
+    const heroes = allUnits.filter(u => !areAllied(u, enemy) && !u.isUnconscious);
 
     if (heroes.length === 0) {
       return { action: 'wait' };
     }
 
-    // Calculate dynamic aggro range - increases each round
-    // Round 1: 6 squares, Round 2: 7, Round 3: 8, etc.
-    // This lets players regroup early but prevents turtling indefinitely
-    const aggroRange = BASE_AGGRO_RANGE + currentRound;
+    // Broken morale: run for the nearest way out and nothing else
+    if (enemy.broken === 'flee') {
+      const escape = hasMoved ? null : this.getEscapeTile(enemy, allUnits);
+      return escape ? { action: 'move', targetPosition: escape } : { action: 'wait' };
+    }
 
     // Check aggro range - enemies won't pursue until heroes get close
-    const closestHeroDistance = Math.min(
-      ...heroes.map(h => getDistance(enemy.gridX, enemy.gridY, h.gridX, h.gridY))
-    );
-
-    if (closestHeroDistance > aggroRange) {
+    if (!this.isAggroed(enemy, heroes, allUnits, currentRound)) {
       // No heroes in aggro range - enemy waits passively
       return { action: 'wait' };
     }
 
-    // Get enemy's abilities
-    const enemyAbilities = enemy.abilities
-      .map(id => this.abilities[id])
-      .filter(a => a !== undefined);
+    const enemyAbilities = this.getTurnAbilities(enemy);
+    const group = getUnitGroup(this.groups, enemy);
+    const goal = group ? getGroupGoal(group, enemy, allUnits, this.abilities) : {};
 
-    // Check if we can attack from current position
+    // Call in a summon first, if we don't already have one out
     if (!hasActed) {
-      const attackDecision = this.tryAttack(enemy, heroes, enemyAbilities);
-      if (attackDecision) {
-        return attackDecision;
+      const summonDecision = this.trySummon(enemy, heroes, enemyAbilities, allUnits);
+      if (summonDecision) {
+        return summonDecision;
       }
     }
 
-    // If we haven't moved, try to get in range of a target
-    if (!hasMoved) {
-      const moveDecision = this.decideMoveTarget(enemy, heroes, enemyAbilities, allUnits);
-      if (moveDecision) {
-        return moveDecision;
-      }
+    // Start of the turn: plan the whole turn and take its first step
+    if (!hasMoved && !hasActed) {
+      return this.planTurn(enemy, heroes, enemyAbilities, allUnits, currentRound, zones, goal);
     }
 
-    // If we moved but haven't attacked, try again
+    // Moved: act from wherever we ended up (an opportunity attack can cut a move short)
     if (!hasActed) {
-      const attackDecision = this.tryAttack(enemy, heroes, enemyAbilities);
-      if (attackDecision) {
-        return attackDecision;
+      return this.getBestAction(enemy, heroes, allUnits, enemyAbilities, zones, goal)?.decision ?? { action: 'wait' };
+    }
+
+    // Acted first: deeper planners then move to the best tile to end the turn on
+    if (!hasMoved && this.difficulty.searchDepth >= 2) {
+      const retreat = this.getBestEndTile(enemy, heroes, enemyAbilities, allUnits, currentRound, zones, goal);
+      if (retreat) {
+        return { action: 'move', targetPosition: retreat };
       }
     }
 
@@ -93,62 +204,365 @@ export class AIController {
   }
 
   /**
-   * Try to find an attack or debuff we can make from current position
+   * The reachable tile that gets a fleeing unit closest to an escape tile, avoiding free
+   * swings on the way - null if it can't get any closer
+   */
+  private getEscapeTile(enemy: Unit, allUnits: Unit[]): Position | null {
+    const exits = this.escapeTiles.filter(tile => this.gridManager.isWalkable(tile.x, tile.y, enemy.flying));
+    if (exits.length === 0) return null;
+
+    const exitDistance = (pos: Position) => Math.min(...exits.map(tile => getDistance(pos.x, pos.y, tile.x, tile.y)));
+    const scoreTile = (pos: Position) => {
+      let score = -exitDistance(pos) * ESCAPE_STEP_SCORE;
+      if (this.zoneOfControl && (pos.x !== enemy.gridX || pos.y !== enemy.gridY)) {
+        const path = this.gridManager.findPath(enemy.gridX, enemy.gridY, pos.x, pos.y, enemy) ?? [];
+        score -= getOpportunityAttacks(enemy, path, allUnits, this.abilities).length * PROVOKED_ATTACK_PENALTY;
+      }
+      return score;
+    };
+
+    let best: Position | null = null;
+    let bestScore = scoreTile({ x: enemy.gridX, y: enemy.gridY });
+    for (const pos of this.gridManager.getMovementRange(enemy.gridX, enemy.gridY, MOVEMENT_RANGE, enemy)) {
+      const score = scoreTile(pos);
+      if (score > bestScore) {
+        best = pos;
+        bestScore = score;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Score every tile the unit can reach, plus the best action it could take from there,
+   * and return the first step of the best plan
+   * Deeper searches also weigh acting from where the unit stands and then moving away.
+   * If there are more tiles than the difficulty's budget, it scores the ones nearest the heroes
+   * and the ones farthest from them, so it can still close in or back off.
+   */
+  private planTurn(
+    enemy: Unit,
+    heroes: Unit[],
+    abilities: Ability[],
+    allUnits: Unit[],
+    currentRound: number,
+    zones: Zone[],
+    goal: GroupGoal
+  ): AIDecision {
+    const start = { x: enemy.gridX, y: enemy.gridY };
+    const closestHeroDistance = (tile: Position) => Math.min(...heroes.map(h => getUnitDistance(enemy, h, tile)));
+    const reachable = this.gridManager.getMovementRange(start.x, start.y, MOVEMENT_RANGE, enemy)
+      .sort((a, b) => closestHeroDistance(a) - closestHeroDistance(b));
+    const budget = this.difficulty.maxTiles - 1;
+    const tiles = reachable.length <= budget
+      ? [start, ...reachable]
+      : [start, ...reachable.slice(0, Math.ceil(budget / 2)), ...reachable.slice(reachable.length - Math.floor(budget / 2))];
+
+    const actFirst = this.difficulty.searchDepth >= 2 ? this.getBestAction(enemy, heroes, allUnits, abilities, zones, goal) : null;
+    let best: ScoredDecision = { decision: { action: 'wait' }, score: -Infinity };
+    const consider = (option: ScoredDecision) => {
+      const score = option.score + this.getScoreNoise();
+      if (score > best.score) best = { decision: option.decision, score };
+    };
+
+    for (const tile of tiles) {
+      const tileScore = this.scoreEndTile(enemy, tile, heroes, abilities, allUnits, currentRound, zones, goal);
+      const action = this.getBestAction(this.getUnitAt(enemy, tile), heroes, allUnits, abilities, zones, goal);
+      consider({
+        decision: tile === start ? action?.decision ?? { action: 'wait' } : { action: 'move', targetPosition: tile },
+        score: tileScore + (action?.score ?? 0),
+      });
+
+      if (actFirst && tile !== start) {
+        consider({ decision: actFirst.decision, score: tileScore + actFirst.score });
+      }
+    }
+
+    return best.decision;
+  }
+
+  /**
+   * The reachable tile (or the current one) that's best to end the turn on, if it means moving
+   */
+  private getBestEndTile(
+    enemy: Unit,
+    heroes: Unit[],
+    abilities: Ability[],
+    allUnits: Unit[],
+    currentRound: number,
+    zones: Zone[],
+    goal: GroupGoal
+  ): Position | null {
+    const start = { x: enemy.gridX, y: enemy.gridY };
+    let bestTile = start;
+    let bestScore = -Infinity;
+
+    for (const tile of [start, ...this.gridManager.getMovementRange(start.x, start.y, MOVEMENT_RANGE, enemy)]) {
+      const score = this.scoreEndTile(enemy, tile, heroes, abilities, allUnits, currentRound, zones, goal) +
+        this.getScoreNoise();
+      if (score > bestScore) {
+        bestScore = score;
+        bestTile = tile;
+      }
+    }
+
+    return bestTile === start ? null : bestTile;
+  }
+
+  /**
+   * Random spread added to plan scores at lower difficulties
+   */
+  private getScoreNoise(): number {
+    return this.difficulty.noise > 0 ? (randomFloat() * 2 - 1) * this.difficulty.noise : 0;
+  }
+
+  /**
+   * A copy of the unit standing on another tile, for judging plans that move there
+   */
+  private getUnitAt(unit: Unit, tile: Position): Unit {
+    return tile.x === unit.gridX && tile.y === unit.gridY ? unit : { ...unit, gridX: tile.x, gridY: tile.y };
+  }
+
+  /**
+   * Abilities a unit can use on its own turn (reactions are only used out of turn)
    */
-  private tryAttack(
+  private getTurnAbilities(unit: Unit): Ability[] {
+    return unit.abilities
+      .map(id => this.abilities[id])
+      .filter(a => a !== undefined && !a.reaction);
+  }
+
+  /**
+   * Pick a summon ability and the free tile in range closest to the nearest hero
+   * Units only keep one summon out at a time
+   */
+  private trySummon(
     enemy: Unit,
     heroes: Unit[],
-    abilities: Ability[]
+    abilities: Ability[],
+    allUnits: Unit[]
   ): AIDecision | null {
-    // Get all offensive abilities (damage, debuffs) that target enemies
-    // Filter out buffs that target allies, and abilities we can't afford
-    const offensiveAbilities = abilities
-      .filter(a => {
-        // Must be able to afford the ability
-        if (!this.canAffordAbility(enemy, a)) return false;
+    if (allUnits.some(u => u.summon?.summonerId === enemy.id)) return null;
+
+    const ability = abilities.find(a => a.effect?.type === 'summon' && this.canAffordAbility(enemy, a));
+    if (!ability) return null;
+
+    const nearestHero = [...heroes].sort((a, b) => getUnitDistance(enemy, a) - getUnitDistance(enemy, b))[0];
+    let bestTile: Position | null = null;
+    let bestDistance = Infinity;
+
+    for (let dx = -ability.range; dx <= ability.range; dx++) {
+      for (let dy = -ability.range; dy <= ability.range; dy++) {
+        const tile = { x: enemy.gridX + dx, y: enemy.gridY + dy };
+        if (getDistance(enemy.gridX, enemy.gridY, tile.x, tile.y) > ability.range) continue;
+        if (!this.gridManager.isWalkable(tile.x, tile.y) || this.gridManager.isOccupied(tile.x, tile.y)) continue;
+        if (!this.gridManager.getLineOfSight(enemy.gridX, enemy.gridY, tile.x, tile.y).clear) continue;
+
+        const heroTile = getClosestTile(nearestHero, tile.x, tile.y);
+        const distance = getDistance(heroTile.x, heroTile.y, tile.x, tile.y);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          bestTile = tile;
+        }
+      }
+    }
 
-        // Include attacks
-        if (a.type === 'attack') return true;
+    return bestTile ? { action: 'ability', ability, targetPosition: bestTile } : null;
+  }
 
-        // Include spells that target enemies (damage or debuff)
-        if (a.type === 'spell' && a.targetType === 'enemy') return true;
+  /**
+   * The best-scoring attack, debuff, heal or buff the unit can use from where it stands
+   * Every hero in range is weighed for single-target abilities; area abilities use their best centre
+   */
+  private getBestAction(
+    enemy: Unit,
+    heroes: Unit[],
+    allUnits: Unit[],
+    abilities: Ability[],
+    zones: Zone[],
+    goal: GroupGoal
+  ): ScoredDecision | null {
+    let best = this.getBestSupport(enemy, heroes, allUnits, abilities);
+
+    // Earlier (preferred) abilities win ties
+    for (const ability of this.getOffensiveAbilities(enemy, abilities)) {
+      const favourite = this.selectTarget(enemy, heroes, ability, zones);
+      if (!favourite) continue;
+
+      const candidates = ability.targetType === 'area' && ability.areaSize
+        ? [favourite]
+        : this.getTargetsInRange(enemy, heroes, ability);
+      for (const target of candidates) {
+        const score = this.scoreAction(enemy, target, ability, heroes, zones) +
+          (target === favourite ? PROFILE_TARGET_SCORE : 0) +
+          (target === goal.target ? GOAL_TARGET_SCORE : 0) -
+          this.getResourceCost(enemy, ability);
+        if (!best || score > best.score) {
+          best = {
+            decision: { action: ability.type === 'attack' ? 'attack' : 'ability', targetUnit: target, ability },
+            score,
+          };
+        }
+      }
+    }
 
-        // Include debuffs
-        if (a.type === 'debuff') return true;
+    return best;
+  }
 
-        return false;
-      })
-      .sort((a, b) => {
-        // Sort by estimated tactical value (damage + debuff value)
-        const valueA = this.estimateAbilityValue(a);
-        const valueB = this.estimateAbilityValue(b);
-        return valueB - valueA;
-      });
+  /**
+   * The best heal, buff or condition removal the unit can use on itself or an ally in reach
+   */
+  private getBestSupport(enemy: Unit, heroes: Unit[], allUnits: Unit[], abilities: Ability[]): ScoredDecision | null {
+    let best: ScoredDecision | null = null;
+    // Plans judge the unit from other tiles - it stands in for itself there
+    const allies = allUnits
+      .filter(u => areAllied(u, enemy) && !u.isUnconscious)
+      .map(u => u.id === enemy.id ? enemy : u);
+
+    for (const ability of this.getSupportAbilities(enemy, abilities)) {
+      const inReach = ability.targetType === 'self'
+        ? [enemy]
+        : allies.filter(ally => getUnitDistance(enemy, ally) <= ability.range && hasLineOfSight(enemy, ally, this.gridManager));
+
+      for (const ally of inReach) {
+        const value = this.estimateSupportValue(enemy, ally, ability, heroes);
+        if (value <= 0) continue;
+
+        const score = value * DAMAGE_SCORE - this.getResourceCost(enemy, ability);
+        if (!best || score > best.score) {
+          best = { decision: { action: 'ability', targetUnit: ally, ability }, score };
+        }
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Affordable heals, buffs and condition removal (summons and toggles like Hide are left out)
+   */
+  private getSupportAbilities(unit: Unit, abilities: Ability[]): Ability[] {
+    return abilities.filter(a =>
+      this.canAffordAbility(unit, a) &&
+      a.type !== 'toggle' &&
+      a.effect?.type !== 'summon' &&
+      (a.type === 'buff' || a.targetType === 'ally' || a.targetType === 'self')
+    );
+  }
+
+  /**
+   * What a support ability is worth on an ally, in damage-equivalent points (0 if it's wasted) -
+   * healing a wounded ally, lifting a condition, or a buff for an ally about to engage
+   */
+  private estimateSupportValue(caster: Unit, ally: Unit, ability: Ability, heroes: Unit[]): number {
+    let value = 0;
+
+    if (ability.healing && (ally.currentHp / ally.maxHp) * 100 < HEAL_BELOW_PERCENT) {
+      value += Math.min(averageDiceRoll(ability.healing, getDiceStatContext(caster)), ally.maxHp - ally.currentHp);
+    }
 
-    // Find best target for each ability
-    for (const ability of offensiveAbilities) {
-      const target = this.selectTarget(enemy, heroes, ability);
-      if (target) {
-        return {
-          action: ability.type === 'attack' ? 'attack' : 'ability',
-          targetUnit: target,
-          ability,
-        };
+    const effect = ability.effect;
+    if (effect?.type === 'remove_status') {
+      // Cleanses lift the first negative condition
+      const condition = ally.statusEffects.find(e => isNegativeStatus(e.type));
+      if (condition) {
+        value += getStatusDefinition(condition.type)?.skipsTurn ? SKIPPED_TURN_VALUE : CONDITION_VALUE;
       }
+    } else if (effect && !hasStatusEffect(ally, effect.type) && this.isAboutToEngage(ally, heroes)) {
+      const modifiers = getStatusDefinition(effect.type)?.statModifiers ?? {};
+      const statBonus = Math.max(0, modifiers.attack ?? 0) + Math.max(0, modifiers.defense ?? 0) +
+        Math.max(0, modifiers.resilience ?? 0);
+      value += statBonus * STAT_BONUS_VALUE + Math.max(0, modifiers.damage ?? 0) * DAMAGE_BONUS_VALUE;
+    }
+
+    return value;
+  }
+
+  /**
+   * Whether a unit is fighting or could reach a hero next turn
+   */
+  private isAboutToEngage(unit: Unit, heroes: Unit[]): boolean {
+    return heroes.some(hero => getUnitDistance(unit, hero) <= MOVEMENT_RANGE + 1);
+  }
+
+  /**
+   * How much paying an ability's mana or ki cost sets a plan back - the larger the share of
+   * what's left, the more it costs, and the less the unit has to lose, the less it matters
+   */
+  private getResourceCost(unit: Unit, ability: Ability): number {
+    if (!ability.cost) return 0;
+    const pool = ability.costType === 'mana' ? unit.currentMana : ability.costType === 'ki' ? unit.currentKi : undefined;
+    return pool ? (ability.cost / pool) * RESOURCE_SCORE * (unit.currentHp / unit.maxHp) : 0;
+  }
+
+  /**
+   * How much using an ability on a target is worth - expected damage or debuff value for
+   * everyone it hits, the chance of dropping them, and any useful shove
+   */
+  private scoreAction(enemy: Unit, target: Unit, ability: Ability, heroes: Unit[], zones: Zone[]): number {
+    const hit = ability.targetType === 'area' && ability.areaSize
+      ? this.getHeroesInArea(target, ability, heroes)
+      : [target];
+    let score = this.getShoveValue({ x: enemy.gridX, y: enemy.gridY }, target, ability, zones);
+
+    for (const victim of hit) {
+      const { chance, damage, expected } = this.estimateOutcome(enemy, victim, ability);
+      const debuffValue = ability.damage ? 0 : chance * this.estimateAbilityValue(ability);
+      score += (expected + debuffValue) * DAMAGE_SCORE;
+      score += this.getKillChance(victim, chance, damage) * KILL_SCORE;
     }
 
-    return null;
+    return score;
   }
 
   /**
-   * Select the best target for an ability based on enemy type
+   * Chance an ability lands on a target (hits, or the target fails its save), the damage it
+   * then deals, and the damage to expect overall (counting what a saved spell still deals)
+   * Advantage and disadvantage are ignored
    */
-  private selectTarget(enemy: Unit, heroes: Unit[], ability: Ability): Unit | null {
-    // Get heroes in range
-    const inRange = heroes.filter(hero => {
-      const dist = getDistance(enemy.gridX, enemy.gridY, hero.gridX, hero.gridY);
-      return dist <= ability.range;
-    });
+  private estimateOutcome(unit: Unit, target: Unit, ability: Ability): { chance: number; damage: number; expected: number } {
+    const damage = ability.damage
+      ? Math.max(1, averageDiceRoll(ability.damage, getDiceStatContext(unit)) + (unit.damageBonus ?? 0) + getEffectiveDamageBonus(unit))
+      : 0;
+
+    if (ability.type === 'attack') {
+      // d20 + attack vs defense - natural 1s always miss and natural 20s always hit
+      const attack = getEffectiveAttack(unit) +
+        (hasHighGround(unit, target, this.gridManager) ? HIGH_GROUND_ATTACK_BONUS : 0) +
+        getFacingBonus(getAttackAngle(unit, target));
+      const needed = getEffectiveDefense(target) + getCoverBonus(unit, target, this.gridManager) - attack;
+      const chance = Math.min(0.95, Math.max(0.05, (21 - needed) / 20));
+      return { chance, damage, expected: chance * damage };
+    }
+
+    // Spells and debuffs: the target saves with d20 + resilience vs the caster's magic
+    const chance = Math.min(1, Math.max(0, (unit.magic - getEffectiveResilience(target) - 1) / 20));
+    const damageOnSave = ability.damageOnSave === 'half' ? damage / 2 : ability.damageOnSave === 'none' ? 0 : damage;
+    return { chance, damage, expected: chance * damage + (1 - chance) * damageOnSave };
+  }
+
+  /**
+   * Rough chance an ability drops a target, treating damage as spread evenly from half to one and a half times its average
+   */
+  private getKillChance(target: Unit, chance: number, damage: number): number {
+    if (damage <= 0) return 0;
+    return chance * Math.min(1, Math.max(0, (1.5 * damage - target.currentHp) / damage));
+  }
+
+  /**
+   * Heroes in range (reach grows from high ground) that aren't behind walls
+   */
+  private getTargetsInRange(enemy: Unit, heroes: Unit[], ability: Ability): Unit[] {
+    return heroes.filter(hero =>
+      isInRange(enemy, hero, ability, this.gridManager) && hasLineOfSight(enemy, hero, this.gridManager)
+    );
+  }
+
+  /**
+   * Select the target the unit's AI profile prefers for an ability
+   */
+  private selectTarget(enemy: Unit, heroes: Unit[], ability: Ability, zones: Zone[]): Unit | null {
+    const inRange = this.getTargetsInRange(enemy, heroes, ability);
 
     if (inRange.length === 0) return null;
 
@@ -157,26 +571,18 @@ export class AIController {
       return this.selectAOETarget(enemy, heroes, ability, inRange);
     }
 
-    // Target prioritization based on enemy type
-    const enemyType = enemy.dataId;
-
-    if (enemyType === 'spined_devil') {
-      // Boss: prioritize low HP targets for kills, then squishy targets
-      return this.prioritizeTarget(inRange, ['lowHp', 'lowDef', 'closest']);
-    } else if (enemyType === 'imp') {
-      // Imps: opportunistic, go for low HP
-      return this.prioritizeTarget(inRange, ['lowHp', 'closest']);
-    } else if (enemyType === 'divine_wisp_dark' || enemyType === 'ogre_shaman') {
-      // Casters with debuffs: prioritize healers and high-value targets
-      // For debuffs, lock down the healer; for damage, go for low HP
-      if (ability.effect && !ability.damage) {
-        return this.prioritizeTarget(inRange, ['healer', 'lowDef', 'closest']);
-      }
-      return this.prioritizeTarget(inRange, ['lowHp', 'closest']);
-    } else {
-      // Lemures and default: just attack closest
-      return this.prioritizeTarget(inRange, ['closest']);
+    // Push and pull abilities: go for the hero it would shove into a hazard or a wall
+    if (ability.forcedMovement) {
+      const enemyPos = { x: enemy.gridX, y: enemy.gridY };
+      const shoveTarget = inRange
+        .map(hero => ({ hero, value: this.getShoveValue(enemyPos, hero, ability, zones) }))
+        .filter(option => option.value > 0)
+        .sort((a, b) => b.value - a.value)[0];
+      if (shoveTarget) return shoveTarget.hero;
     }
+
+    // Target prioritization from the unit's AI profile
+    return this.prioritizeTarget(enemy, inRange, enemy.ai?.targetPriority ?? DEFAULT_TARGET_PRIORITY);
   }
 
   /**
@@ -191,26 +597,12 @@ export class AIController {
   ): Unit | null {
     if (!ability.areaSize) return inRange[0];
 
-    const aoeWidth = ability.areaSize.width;
-    const aoeHeight = ability.areaSize.height;
-
     let bestTarget: Unit | null = null;
     let bestHitCount = 0;
 
     // For each potential target, calculate how many heroes would be hit
     for (const target of inRange) {
-      // AOE is centered on target (same logic as executeEnemyAOEAttack)
-      const originX = target.gridX - Math.floor(aoeWidth / 2);
-      const originY = target.gridY - Math.floor(aoeHeight / 2);
-
-      // Count heroes in this AOE area
-      const hitCount = heroes.filter(hero => {
-        if (hero.isUnconscious) return false;
-        return hero.gridX >= originX &&
-               hero.gridX < originX + aoeWidth &&
-               hero.gridY >= originY &&
-               hero.gridY < originY + aoeHeight;
-      }).length;
+      const hitCount = this.getHeroesInArea(target, ability, heroes).length;
 
       if (hitCount > bestHitCount) {
         bestHitCount = hitCount;
@@ -233,157 +625,208 @@ export class AIController {
   }
 
   /**
-   * Prioritize targets based on criteria
+   * Heroes an AOE ability centered on a target would hit (same logic as executeEnemyAOEAttack)
+   */
+  private getHeroesInArea(target: Unit, ability: Ability, heroes: Unit[]): Unit[] {
+    if (!ability.areaSize) return [target];
+
+    const { width, height } = ability.areaSize;
+    const originX = target.gridX - Math.floor(width / 2);
+    const originY = target.gridY - Math.floor(height / 2);
+    return heroes.filter(hero =>
+      !hero.isUnconscious &&
+      hero.gridX >= originX && hero.gridX < originX + width &&
+      hero.gridY >= originY && hero.gridY < originY + height
+    );
+  }
+
+  /**
+   * Pick a target by the priorities in order - later ones only break ties
    */
   private prioritizeTarget(
+    enemy: Unit,
     targets: Unit[],
-    priorities: ('lowHp' | 'lowDef' | 'closest' | 'healer')[]
+    priorities: AITargetPriority[]
   ): Unit {
-    let sorted = [...targets];
-
-    for (const priority of priorities) {
-      if (priority === 'lowHp') {
-        // Sort by HP percentage (lowest first)
-        sorted.sort((a, b) => (a.currentHp / a.maxHp) - (b.currentHp / b.maxHp));
-      } else if (priority === 'lowDef') {
-        // Sort by defense (lowest first) - target squishy units
-        sorted.sort((a, b) => a.defense - b.defense);
-      } else if (priority === 'healer') {
-        // Put healers first (Lyra, anyone with healing abilities)
-        sorted.sort((a, b) => {
-          const aIsHealer = a.dataId === 'lyra' ? 1 : 0;
-          const bIsHealer = b.dataId === 'lyra' ? 1 : 0;
-          return bIsHealer - aIsHealer;
-        });
+    const scores: Record<AITargetPriority, (unit: Unit) => number> = {
+      lowHp: unit => unit.currentHp / unit.maxHp, // HP percentage, lowest first
+      lowDef: unit => unit.defense, // Squishy targets first
+      closest: unit => getUnitDistance(enemy, unit),
+      healer: unit => this.isHealer(unit) ? 0 : 1, // Healers first
+    };
+
+    return [...targets].sort((a, b) => {
+      for (const priority of priorities) {
+        const difference = scores[priority](a) - scores[priority](b);
+        if (difference !== 0) return difference;
       }
-      // 'closest' is handled by default order in most cases
-    }
+      return 0;
+    })[0];
+  }
 
-    return sorted[0];
+  /**
+   * Whether a unit has a healing ability
+   */
+  private isHealer(unit: Unit): boolean {
+    return unit.abilities.some(id => !!this.abilities[id]?.healing);
   }
 
   /**
-   * Decide where to move to get in attack range
+   * How good a tile is to end the turn on, before counting any action taken there -
+   * positioning, minus the danger from heroes next turn and any hazard underfoot
    */
-  private decideMoveTarget(
+  private scoreEndTile(
     enemy: Unit,
+    tile: Position,
     heroes: Unit[],
     abilities: Ability[],
-    allUnits: Unit[]
-  ): AIDecision | null {
-    const moveRange = this.gridManager.getMovementRange(
-      enemy.gridX,
-      enemy.gridY,
-      6, // Standard movement
-      enemy
-    );
-
-    if (moveRange.length === 0) return null;
-
+    allUnits: Unit[],
+    currentRound: number,
+    zones: Zone[],
+    goal: GroupGoal
+  ): number {
     // Find the best ability to use (prefer melee for Lemures, ranged for Imps at distance)
     const preferredAbility = this.getPreferredAbility(enemy, abilities, heroes);
     const attackRange = preferredAbility?.range || 1;
+    const shoveAbilities = abilities.filter(a => a.forcedMovement && this.canAffordAbility(enemy, a));
 
-    // Find the best position to move to
-    let bestPosition: { x: number; y: number } | null = null;
-    let bestScore = -Infinity;
+    // Badly hurt units play it safe, aggressive ones shrug off the risk
+    const caution = this.isRetreating(enemy) ? 2 : enemy.ai?.aggro === 'aggressive' ? 0.5 : 1;
+    const at = this.getUnitAt(enemy, tile);
 
-    for (const pos of moveRange) {
-      const score = this.evaluateMovePosition(
-        pos,
-        enemy,
-        heroes,
-        attackRange,
-        allUnits
-      );
-      if (score > bestScore) {
-        bestScore = score;
-        bestPosition = pos;
+    return this.evaluateMovePosition(tile, enemy, heroes, attackRange, allUnits, shoveAbilities, zones) +
+      this.scoreGoalPosition(enemy, tile, heroes, allUnits, goal) -
+      this.getDanger(at, heroes) * DANGER_SCORE * caution -
+      this.getHazardExposure(at, zones, currentRound) * HAZARD_SCORE;
+  }
+
+  /**
+   * How well a tile serves the unit's group plan - closing in on (and flanking) the group's
+   * target, staying beside the member it guards, and keeping behind its screen
+   */
+  private scoreGoalPosition(enemy: Unit, tile: Position, heroes: Unit[], allUnits: Unit[], goal: GroupGoal): number {
+    let score = 0;
+    const at = this.getUnitAt(enemy, tile);
+
+    if (goal.target) {
+      score -= getUnitDistance(enemy, goal.target, tile) * GOAL_APPROACH_SCORE;
+      if (goal.flank && isFlanking(at, goal.target, allUnits.filter(u => u !== enemy))) {
+        score += FLANK_SCORE;
       }
     }
 
-    // Also consider staying in place
-    const stayScore = this.evaluateMovePosition(
-      { x: enemy.gridX, y: enemy.gridY },
-      enemy,
-      heroes,
-      attackRange,
-      allUnits
-    );
+    if (goal.guard) {
+      score -= Math.max(0, getUnitDistance(enemy, goal.guard, tile) - 1) * GUARD_SCORE;
+    }
+
+    // Out in front of every screening member (or level with the closest) is too exposed
+    if (goal.screen && goal.screen.length > 0) {
+      const closestHero = (unit: Unit, from?: Position) => Math.min(...heroes.map(h => getUnitDistance(unit, h, from)));
+      const front = Math.min(...goal.screen.map(m => closestHero(m)));
+      if (closestHero(enemy, tile) <= front) {
+        score -= SCREEN_SCORE;
+      }
+    }
+
+    return score;
+  }
+
+  /**
+   * Damage heroes could be expected to deal to a unit on its tile next turn - each hero that
+   * can move and reach it with an ability counts its best one
+   */
+  private getDanger(unit: Unit, heroes: Unit[]): number {
+    let danger = 0;
+
+    for (const hero of heroes) {
+      if (getTurnSkippingEffect(hero)) continue;
 
-    // Only move if it improves position significantly
-    if (bestPosition && bestScore > stayScore + 0.5) {
-      return {
-        action: 'move',
-        targetPosition: bestPosition,
-      };
+      let best = 0;
+      for (const ability of this.getOffensiveAbilities(hero, this.getTurnAbilities(hero))) {
+        if (getUnitDistance(hero, unit) > MOVEMENT_RANGE + ability.range) continue;
+        best = Math.max(best, this.estimateOutcome(hero, unit, ability).expected);
+      }
+      danger += best;
     }
 
-    return null;
+    return danger;
   }
 
   /**
-   * Get the preferred ability for an enemy type
+   * Damage a unit can expect from hazards on its tile - zones that are on now or switch on next round
+   */
+  private getHazardExposure(unit: Unit, zones: Zone[], currentRound: number): number {
+    const size = getUnitSize(unit);
+
+    return zones
+      .filter(zone =>
+        (zone.active || (zone.cycle && isCycleActive(zone.cycle, currentRound + 1))) &&
+        unit.gridX < zone.originX + zone.width && unit.gridX + size > zone.originX &&
+        unit.gridY < zone.originY + zone.height && unit.gridY + size > zone.originY
+      )
+      .reduce((total, zone) => total + (zone.damage ? averageDiceRoll(zone.damage) : STATUS_HAZARD_DAMAGE), 0);
+  }
+
+  /**
+   * Get the ability an enemy wants to move into range for
    */
   private getPreferredAbility(
     enemy: Unit,
     abilities: Ability[],
     heroes: Unit[]
   ): Ability | null {
-    // Get all offensive abilities (attacks, damaging spells, debuffs)
-    const offensiveAbilities = abilities.filter(a => {
-      if (!this.canAffordAbility(enemy, a)) return false;
-      if (a.type === 'attack') return true;
-      if (a.type === 'spell' && a.targetType === 'enemy') return true;
-      if (a.type === 'debuff') return true;
-      return false;
-    });
-
+    const offensiveAbilities = this.getOffensiveAbilities(enemy, abilities);
     if (offensiveAbilities.length === 0) return null;
 
-    const enemyType = enemy.dataId;
-
-    if (enemyType === 'imp') {
-      // Imps: prefer ranged if not adjacent to any hero
+    // Ranged units: prefer an ability that reaches from their preferred range if not adjacent to any hero
+    const preferredRange = enemy.ai?.preferredRange ?? 1;
+    if (preferredRange > 1) {
       const adjacentHero = heroes.some(
-        h => getDistance(enemy.gridX, enemy.gridY, h.gridX, h.gridY) <= 1
+        h => getUnitDistance(enemy, h) <= 1
       );
       if (!adjacentHero) {
-        const ranged = offensiveAbilities.find(a => a.range > 1);
+        const ranged = offensiveAbilities.find(a => a.range >= preferredRange);
         if (ranged) return ranged;
       }
     }
 
-    // Shadow wisps and similar casters: prefer debuffs at range
-    if (enemyType === 'divine_wisp_dark' || enemyType === 'ogre_shaman') {
-      const debuffs = offensiveAbilities.filter(a =>
-        a.effect && !a.damage && a.range > 1
-      );
-      if (debuffs.length > 0) {
-        // Prefer hold over other debuffs
-        const hold = debuffs.find(a => a.id === 'hold');
-        if (hold) return hold;
-        return debuffs[0];
-      }
-    }
+    return offensiveAbilities[0];
+  }
 
-    // Default: prefer highest tactical value
-    return offensiveAbilities.sort((a, b) => {
-      const valueA = this.estimateAbilityValue(a);
-      const valueB = this.estimateAbilityValue(b);
-      return valueB - valueA;
-    })[0];
+  /**
+   * Affordable offensive abilities (attacks, enemy-targeted spells, debuffs), best first -
+   * the profile's preferred abilities in order, then the rest by estimated tactical value
+   */
+  private getOffensiveAbilities(enemy: Unit, abilities: Ability[]): Ability[] {
+    const preferred = enemy.ai?.preferredAbilities ?? [];
+    const rank = (ability: Ability) => {
+      const index = preferred.indexOf(ability.id);
+      return index === -1 ? preferred.length : index;
+    };
+
+    return abilities
+      .filter(a => {
+        if (!this.canAffordAbility(enemy, a)) return false;
+        if (a.type === 'attack') return true;
+        if (a.type === 'spell' && a.targetType === 'enemy') return true;
+        if (a.type === 'debuff') return true;
+        return false;
+      })
+      .sort((a, b) => rank(a) - rank(b) || this.estimateAbilityValue(b) - this.estimateAbilityValue(a));
   }
 
   /**
-   * Evaluate how good a movement position is
+   * Evaluate how good a tile is to stand on - closing in (or backing off when hurt), keeping
+   * the preferred range, setting up shoves and avoiding provoked attacks
    */
   private evaluateMovePosition(
     pos: { x: number; y: number },
     enemy: Unit,
     heroes: Unit[],
     desiredRange: number,
-    _allUnits: Unit[]
+    allUnits: Unit[],
+    shoveAbilities: Ability[],
+    zones: Zone[]
   ): number {
     let score = 0;
 
@@ -392,7 +835,7 @@ export class AIController {
     let targetHero: Unit | null = null;
 
     for (const hero of heroes) {
-      const dist = getDistance(pos.x, pos.y, hero.gridX, hero.gridY);
+      const dist = getUnitDistance(enemy, hero, pos);
       if (dist < closestHeroDist) {
         closestHeroDist = dist;
         targetHero = hero;
@@ -401,36 +844,45 @@ export class AIController {
 
     if (!targetHero) return -1000;
 
-    // Reward being in attack range
-    if (closestHeroDist <= desiredRange) {
-      score += 100;
+    // Badly hurt units back away from heroes instead of closing in
+    if (this.isRetreating(enemy)) {
+      score += closestHeroDist * 5;
+    } else {
+      // Reward getting closer to heroes (inverse distance)
+      score -= closestHeroDist * 5;
+
+      // Ranged units and casters like to keep their preferred distance
+      const preferredRange = enemy.ai?.preferredRange ?? 1;
+      if (preferredRange > 1 && desiredRange > 1) {
+        if (closestHeroDist === preferredRange) {
+          score += 20; // Bonus for optimal range
+        } else if (closestHeroDist < preferredRange) {
+          score -= 10; // Penalty for being too close
+        }
+      }
     }
 
-    // Reward getting closer to heroes (inverse distance)
-    score -= closestHeroDist * 5;
-
-    // For ranged enemies (Imps), prefer to stay at range 2 if possible
-    if (enemy.dataId === 'imp' && desiredRange > 1) {
-      if (closestHeroDist === 2) {
-        score += 20; // Bonus for optimal range
-      } else if (closestHeroDist === 1) {
-        score -= 10; // Slight penalty for being too close
+    // Reward spots where a push or pull would send a hero into a hazard or a wall
+    let bestShove = 0;
+    for (const ability of shoveAbilities) {
+      for (const hero of heroes) {
+        if (getUnitDistance(enemy, hero, pos) <= ability.range) {
+          bestShove = Math.max(bestShove, this.getShoveValue(pos, hero, ability, zones));
+        }
       }
     }
+    score += bestShove;
 
-    // Shadow Wisps: ranged casters that prefer range 2 for debuffs
-    if (enemy.dataId === 'divine_wisp_dark') {
-      if (closestHeroDist === 2) {
-        score += 25; // Strong bonus for optimal debuff range
-      } else if (closestHeroDist === 1) {
-        score -= 15; // Penalty for being in melee (squishy caster)
-      }
+    // Avoid walking out of a hero's reach when that gives them a free swing
+    if (this.zoneOfControl && (pos.x !== enemy.gridX || pos.y !== enemy.gridY)) {
+      const path = this.gridManager.findPath(enemy.gridX, enemy.gridY, pos.x, pos.y, enemy) ?? [];
+      score -= getOpportunityAttacks(enemy, path, allUnits, this.abilities).length * PROVOKED_ATTACK_PENALTY;
     }
 
-    // Spined Devil prefers to engage multiple targets
-    if (enemy.dataId === 'spined_devil') {
+    // Aggressive units like to engage multiple targets
+    if (enemy.ai?.aggro === 'aggressive') {
       const heroesInMeleeRange = heroes.filter(
-        h => getDistance(pos.x, pos.y, h.gridX, h.gridY) <= 1
+        h => getUnitDistance(enemy, h, pos) <= 1
       ).length;
       score += heroesInMeleeRange * 15;
     }
@@ -438,16 +890,72 @@ export class AIController {
     return score;
   }
 
+  /**
+   * Whether a unit has joined the fight - once a hero is within its aggro range, or for
+   * group members, once any member of the group has been
+   */
+  private isAggroed(enemy: Unit, heroes: Unit[], allUnits: Unit[], currentRound: number): boolean {
+    const inAggroRange = (unit: Unit) =>
+      Math.min(...heroes.map(h => getUnitDistance(unit, h))) <= this.getAggroRange(unit, currentRound);
+
+    const group = getUnitGroup(this.groups, enemy);
+    if (!group) return inAggroRange(enemy);
+
+    if (!this.alertedGroups.has(group.id) && getGroupMembers(group, allUnits).some(inAggroRange)) {
+      this.alertedGroups.add(group.id);
+    }
+    return this.alertedGroups.has(group.id);
+  }
+
+  /**
+   * How close a hero must come before a unit joins the fight, from its aggro style
+   */
+  private getAggroRange(enemy: Unit, currentRound: number): number {
+    switch (enemy.ai?.aggro ?? 'standard') {
+      case 'aggressive':
+        return Infinity;
+      case 'guard':
+        return BASE_AGGRO_RANGE;
+      case 'standard':
+        // Grows each round - Round 1: 6 squares, Round 2: 7, Round 3: 8, etc.
+        return BASE_AGGRO_RANGE + currentRound;
+    }
+  }
+
+  /**
+   * Whether a unit is hurt badly enough to fall back, from its retreat threshold
+   */
+  private isRetreating(enemy: Unit): boolean {
+    const threshold = enemy.ai?.retreatBelowPercent;
+    return threshold !== undefined && (enemy.currentHp / enemy.maxHp) * 100 < threshold;
+  }
+
+  /**
+   * How much pushing or pulling a hero from a tile is worth (0 if it does nothing useful)
+   */
+  private getShoveValue(from: Position, hero: Unit, ability: Ability, zones: Zone[]): number {
+    if (!ability.forcedMovement) return 0;
+
+    const { path, blockedBy } = planForcedMovement(from, hero, ability.forcedMovement, this.gridManager);
+    const destination = path[path.length - 1];
+    let value = blockedBy ? SHOVE_INTO_OBSTACLE_SCORE : 0;
+    if (destination && zones.some(zone =>
+      zone.active &&
+      zone.triggers.includes('entry') &&
+      destination.x >= zone.originX && destination.x < zone.originX + zone.width &&
+      destination.y >= zone.originY && destination.y < zone.originY + zone.height
+    )) {
+      value += SHOVE_INTO_HAZARD_SCORE;
+    }
+    return value;
+  }
+
   /**
    * Estimate average damage from dice notation
    */
   private estimateDamage(dice: string): number {
-    // Parse dice notation like "1d6", "2d8", "3d6"
-    const match = dice.match(/(\d+)d(\d+)/);
-    if (!match) return 0;
-    const count = parseInt(match[1]);
-    const sides = parseInt(match[2]);
-    return count * ((sides + 1) / 2); // Average roll
+    // Stat references aren't resolved here - they count as 0
+    return averageDiceRoll(dice);
   }
 
   /**
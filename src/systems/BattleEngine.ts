@@ -0,0 +1,1692 @@
+// BattleEngine - rendering-free battle rules and turn state machine
+// Owns the BattleState (round, phase, turn order, zones) and resolves the commands a unit
+// can take on its turn: move, ability, item, interact, disengage and wait, plus the reactions
+// other units take out of turn, and brings in and dismisses summoned units. Every rule
+// outcome is emitted as a typed BattleEvent - BattleScene subscribes and animates them, and
+// BattleSimulator drives the same engine headlessly under Node.
+
+import {
+  Ability,
+  AttackResult,
+  BattleConfig,
+  BossPhase,
+  BattlePhase,
+  BattleState,
+  DiceRoll,
+  EnemyPlacement,
+  InitiativeEntry,
+  MoraleResponse,
+  ObjectivePlacement,
+  Position,
+  ReactionTrigger,
+  ReinforcementWave,
+  ScriptedEvent,
+  Side,
+  SpellResult,
+  StatusEffect,
+  StatusEffectType,
+  Team,
+  Unit,
+  Zone,
+  ZoneTrigger,
+} from '../data/BattleTypes';
+import { EquipmentId, ItemData } from '../data/ItemTypes';
+import { GridManager } from './GridManager';
+import { evaluateBattleEnd, getInteractableObjects, validateObjectives } from './BattleObjectives';
+import { findSpawnTile, getReinforcementUnitIds, isWaveTriggered, validateReinforcements } from './Reinforcements';
+import { getTriggeredScriptedEvents, validateScriptedEvents } from './ScriptedEvents';
+import { validateEnemyGroups } from './EnemyGroups';
+import { getMoraleProfile, isMoraleBroken, isOnEscapeTile, validateMorale } from './Morale';
+import { createHazardZones, getReachableSwitches, isCycleActive, validateHazards } from './Hazards';
+import { findReactions } from './Reactions';
+import { XPTracker } from './XPTracker';
+import { rollDice, rollInitiative } from './DiceRoller';
+import {
+  COLLISION_DAMAGE,
+  getFacingToward,
+  getOpportunityAttacks,
+  OpportunityAttack,
+  payAbilityCost,
+  planForcedMovement,
+  resolveAttack,
+  resolveHeal,
+  resolveSelfAbility,
+  resolveSpell,
+  rollEffectDuration,
+} from './CombatResolver';
+import {
+  addStatusEffect,
+  applyDamage,
+  applyHealing,
+  getDiceStatContext,
+  getFootprint,
+  getTurnSkippingEffect,
+  getUnitSize,
+  isMovementPrevented,
+  markUnitMoved,
+  processStatusEffects,
+  resetUnitTurnState,
+} from '../entities/Unit';
+
+// Movement range for all units (per Phase 4 design: fixed 6 squares)
+export const MOVEMENT_RANGE = 6;
+
+// Zone saving throws use the standard magic target
+const ZONE_SAVE_TARGET = 13;
+
+// Initiative tie-break order - heroes, then allies, then enemies
+const TEAM_TIE_ORDER: Record<Team, number> = { hero: 0, ally: 1, enemy: 2 };
+
+// Equipment bonuses (first-use bonuses are tracked in Unit.equipmentBonusState)
+const SWIFT_ANKLET_INITIATIVE = 2; // Every round
+const AMBUSHERS_RING_ATTACK = 2; // First attack of battle
+const WARDSTONE_RESILIENCE = 2; // First save of battle
+const HEALERS_PENDANT_HEALING = 1; // First heal of battle
+const BLOODSTONE_HEALING = 2; // First kill of battle
+
+/**
+ * Rectangle of grid tiles covered by an area ability or zone
+ */
+export interface Area {
+  originX: number; // Top-left grid X
+  originY: number; // Top-left grid Y
+  width: number;
+  height: number;
+}
+
+// =============================================================================
+// Commands
+// =============================================================================
+
+export interface MoveCommand {
+  type: 'move';
+  unit: Unit;
+  x: number;
+  y: number;
+}
+
+export interface AbilityCommand {
+  type: 'ability';
+  unit: Unit;
+  ability: Ability;
+  targets: Unit[];
+  area?: Area; // Set for area abilities (zone effects are created over it)
+  countered?: Unit[]; // Targets a Counterspell protects - the spell fails against them
+}
+
+export interface ItemCommand {
+  type: 'item';
+  unit: Unit;
+  item: ItemData;
+  target: Unit;
+}
+
+export interface WaitCommand {
+  type: 'wait';
+  unit: Unit;
+}
+
+export interface UndoMoveCommand {
+  type: 'undo_move';
+  unit: Unit;
+}
+
+export interface InteractCommand {
+  type: 'interact';
+  unit: Unit;
+  objectId: string; // Objective object or hazard switch next to the unit
+}
+
+// Use the action to move away from enemies without provoking opportunity attacks this turn
+export interface DisengageCommand {
+  type: 'disengage';
+  unit: Unit;
+}
+
+// Use a reaction ability out of turn - offered by getReactions
+export interface ReactionCommand {
+  type: 'reaction';
+  reaction: ReactionOpportunity;
+}
+
+export type BattleCommand =
+  | MoveCommand
+  | AbilityCommand
+  | ItemCommand
+  | WaitCommand
+  | UndoMoveCommand
+  | InteractCommand
+  | DisengageCommand
+  | ReactionCommand;
+
+// A reaction a unit can take to an enemy's action
+export interface ReactionOpportunity {
+  unit: Unit; // Who reacts
+  ability: Ability;
+  trigger: ReactionTrigger;
+  source: Unit; // Enemy whose action set it off
+  subject: Unit; // Unit that was targeted, hit or downed
+}
+
+// =============================================================================
+// Command Outcomes
+// =============================================================================
+
+export interface MoveOutcome {
+  from: Position;
+  path: Position[]; // Empty if the unit couldn't move - cut short if an opportunity attack downs it
+}
+
+export interface UndoMoveOutcome {
+  from: Position; // Tile the unit was standing on before the undo
+  to: Position; // Pre-move tile the unit is back on
+  undone: boolean; // False if there was no move to take back
+}
+
+export interface AbilityTargetOutcome {
+  target: Unit;
+  attack?: AttackResult; // Attack abilities
+  spell?: SpellResult; // Spells, debuffs, heals, buffs and self abilities
+  damage: number;
+  defeated: boolean;
+  attackBonus: number; // Ambusher's Ring
+  saveBonus: number; // Wardstone
+  healingBonus: number; // Healer's Pendant
+  killHealing: number; // Bloodstone
+  forcedMove?: ForcedMoveOutcome; // Abilities that push or pull, when they land
+  countered?: boolean; // A Counterspell stopped the spell - nothing else is set
+}
+
+export interface ForcedMoveOutcome {
+  from: Position;
+  path: Position[]; // Empty if the target was stopped straight away
+  blockedBy: 'wall' | Unit | null;
+  collisionDamage: number; // Taken by the target (and a living unit it hit)
+}
+
+export interface AbilityOutcome {
+  unit: Unit;
+  ability: Ability;
+  targets: AbilityTargetOutcome[];
+  zone?: Zone;
+  summoned?: Unit; // Summon abilities - unset if the tile wasn't free
+  xpEarned: number;
+}
+
+// Why a summoned unit left the battle
+export type DismissReason = 'expired' | 'summoner_down' | 'defeated';
+
+export type ItemEffectResult =
+  | { type: 'heal'; roll: DiceRoll; rolled: number; restored: number }
+  | { type: 'restore_resource'; roll: DiceRoll; rolled: number; restored: number; resource: 'MP' | 'Ki' }
+  | { type: 'remove_condition'; condition: string; removed: StatusEffectType | null }
+  | { type: 'no_resource' } // Target has no mana or ki to restore
+  | { type: 'unsupported'; effectType: string };
+
+export interface ReactionOutcome {
+  reaction: ReactionOpportunity;
+  target?: AbilityTargetOutcome; // Unset for counters, which act on the triggering spell instead
+}
+
+export interface ItemOutcome {
+  unit: Unit;
+  item: ItemData;
+  target: Unit;
+  effect: ItemEffectResult;
+  consumed: boolean; // False if the item couldn't be used and stays in the inventory
+  xpEarned: number;
+}
+
+export interface TurnStartResult {
+  canAct: boolean;
+  skipReason?: string; // Status that skipped the turn, or 'defeated'
+}
+
+// =============================================================================
+// Events
+// =============================================================================
+
+// Where damage or healing came from
+export type EffectSource =
+  | { kind: 'ability'; unit: Unit; ability: Ability }
+  | { kind: 'status'; effects: StatusEffectType[] }
+  | { kind: 'zone'; zone: Zone; trigger: ZoneTrigger }
+  | { kind: 'item'; unit: Unit; item: ItemData }
+  | { kind: 'equipment'; unit: Unit; equipment: EquipmentId }
+  | { kind: 'collision'; unit: Unit; ability: Ability }; // unit pushed or pulled something into a wall or unit
+
+export type BattleEvent =
+  | { type: 'phase_change'; phase: BattlePhase; previous: BattlePhase }
+  | { type: 'round_start'; round: number; turnOrder: InitiativeEntry[] }
+  | { type: 'turn_start'; unit: Unit }
+  | { type: 'turn_skipped'; unit: Unit; effect: StatusEffectType }
+  | { type: 'turn_end'; unit: Unit }
+  | { type: 'unit_moved'; unit: Unit; from: Position; path: Position[] }
+  | { type: 'unit_pushed'; unit: Unit; by: Unit; ability: Ability; from: Position; path: Position[]; blockedBy: 'wall' | Unit | null }
+  | { type: 'move_undone'; unit: Unit; from: Position; to: Position }
+  | { type: 'unit_waited'; unit: Unit }
+  | { type: 'ability_used'; unit: Unit; ability: Ability; targets: Unit[] }
+  | { type: 'attack_resolved'; result: AttackResult }
+  | { type: 'opportunity_attack'; unit: Unit; target: Unit; ability: Ability; result: AttackResult }
+  | { type: 'reaction_used'; reaction: ReactionOpportunity }
+  | { type: 'spell_resolved'; result: SpellResult }
+  | { type: 'item_used'; outcome: ItemOutcome }
+  | { type: 'object_interacted'; unit: Unit; object: ObjectivePlacement }
+  | { type: 'damage'; unit: Unit; amount: number; source: EffectSource }
+  | { type: 'healing'; unit: Unit; amount: number; source: EffectSource }
+  | { type: 'status_applied'; unit: Unit; effect: StatusEffect }
+  | { type: 'status_removed'; unit: Unit; effectType: StatusEffectType }
+  | { type: 'status_expired'; unit: Unit; effectType: StatusEffectType }
+  | { type: 'equipment_triggered'; unit: Unit; equipment: EquipmentId; amount: number }
+  | { type: 'zone_created'; zone: Zone }
+  | { type: 'zone_triggered'; unit: Unit; zone: Zone; trigger: ZoneTrigger; savePassed: boolean; damage: number }
+  | { type: 'zone_expired'; zone: Zone }
+  | { type: 'zone_toggled'; zone: Zone; active: boolean; unit?: Unit } // unit: who pulled the switch
+  | { type: 'unit_defeated'; unit: Unit; source: EffectSource }
+  | { type: 'boss_phase'; unit: Unit; phase: BossPhase }
+  | { type: 'unit_summoned'; unit: Unit; summoner: Unit; ability: Ability }
+  | { type: 'summon_dismissed'; unit: Unit; reason: DismissReason }
+  | { type: 'morale_broken'; unit: Unit; response: MoraleResponse }
+  | { type: 'unit_routed'; unit: Unit; response: MoraleResponse } // Fled or surrendered - now out of play
+  | { type: 'reinforcements_arrived'; wave: ReinforcementWave; units: Unit[] }
+  | { type: 'scripted_event'; event: ScriptedEvent }
+  | { type: 'round_end'; round: number }
+  | { type: 'battle_end'; winner: Side };
+
+export type BattleEventType = BattleEvent['type'];
+export type BattleEventOf<T extends BattleEventType> = Extract<BattleEvent, { type: T }>;
+export type BattleEventListener = (event: BattleEvent) => void;
+
+export interface BattleEngineOptions {
+  seed: number; // Recorded in the state - callers seed the dice (seedDice) before placing units
+  xpTracker?: XPTracker; // Hero XP is awarded when provided
+  // Builds a reinforcement enemy at its placement - required when the config has waves. The engine
+  // moves it to the nearest tile with room for its footprint, or drops it if there's none.
+  spawnEnemy?: (placement: EnemyPlacement, instanceId: string) => Unit | null;
+  // Ability definitions by ID - required for zone of control (opportunity attacks use each unit's
+  // melee attack) and for reactions
+  abilities?: Record<string, Ability>;
+  // Builds a unit from a summon template at a free tile - required when a summon ability is used.
+  // The engine sets its team and lifetime and adds it to the battle.
+  spawnSummon?: (templateId: string, position: Position, instanceId: string) => Unit | null;
+}
+
+// How an ability resolves against each of its targets
+type AbilityResolution = 'attack' | 'spell' | 'heal' | 'self';
+
+// Unit state from just before its last move, kept until it acts so the move can be undone
+interface MoveSnapshot {
+  unit: Unit;
+  position: Position;
+  facing: Unit['facing'];
+  hasMoved: boolean;
+  actionsRemaining: number;
+  currentHp: number;
+  statusEffects: StatusEffect[];
+}
+
+/**
+ * Battle rules and turn state machine
+ *
+ * Turn flow:
+ *   startRound() -> [nextTurn() -> beginTurn() -> execute(...)* -> endTurn()]* -> endRound()
+ * checkBattleEnd() can be called after any step - it emits battle_end once.
+ */
+export class BattleEngine {
+  readonly state: BattleState;
+  private gridManager: GridManager;
+  private xpTracker?: XPTracker;
+  private listeners: BattleEventListener[] = [];
+  private xpEarnedThisTurn: boolean = false; // Only the first action per turn earns XP
+  private zoneCount: number = 0;
+  private moveSnapshot: MoveSnapshot | null = null;
+  private spawnEnemy?: BattleEngineOptions['spawnEnemy'];
+  private spawnSummon?: BattleEngineOptions['spawnSummon'];
+  private summonCount: number = 0;
+  private abilities: Record<string, Ability>;
+  private reinforcementIds: Record<string, string[]>;
+
+  constructor(config: BattleConfig, units: Unit[], gridManager: GridManager, options: BattleEngineOptions) {
+    // Fail loudly on objectives, waves and groups that point at units the battle doesn't have
+    this.reinforcementIds = getReinforcementUnitIds(config);
+    const unitIds = [...units.map(u => u.id), ...Object.values(this.reinforcementIds).flat()];
+    const objectiveErrors = validateObjectives(config, unitIds);
+    if (objectiveErrors.length > 0) {
+      throw new Error(`Invalid battle objectives:\n${objectiveErrors.join('\n')}`);
+    }
+    const reinforcementErrors = validateReinforcements(config, unitIds);
+    if (config.reinforcements?.length && !options.spawnEnemy) {
+      reinforcementErrors.push(`${config.id}.reinforcements: no spawnEnemy factory provided`);
+    }
+    if (reinforcementErrors.length > 0) {
+      throw new Error(`Invalid battle reinforcements:\n${reinforcementErrors.join('\n')}`);
+    }
+    const scriptedErrors = validateScriptedEvents(config, unitIds);
+    if (scriptedErrors.length > 0) {
+      throw new Error(`Invalid scripted events:\n${scriptedErrors.join('\n')}`);
+    }
+    const groupErrors = validateEnemyGroups(config, unitIds);
+    if (groupErrors.length > 0) {
+      throw new Error(`Invalid enemy groups:\n${groupErrors.join('\n')}`);
+    }
+    if (config.zoneOfControl && !options.abilities) {
+      throw new Error(`Invalid battle rules:\n${config.id}.zoneOfControl: no abilities provided`);
+    }
+    const hazardErrors = validateHazards(config);
+    if (hazardErrors.length > 0) {
+      throw new Error(`Invalid battle hazards:\n${hazardErrors.join('\n')}`);
+    }
+    const moraleErrors = validateMorale(config);
+    if (moraleErrors.length > 0) {
+      throw new Error(`Invalid battle morale:\n${moraleErrors.join('\n')}`);
+    }
+    const phaseErrors = validateBossPhases(units, options.abilities);
+    if (phaseErrors.length > 0) {
+      throw new Error(`Invalid boss phases:\n${phaseErrors.join('\n')}`);
+    }
+
+    this.gridManager = gridManager;
+    this.xpTracker = options.xpTracker;
+    this.spawnEnemy = options.spawnEnemy;
+    this.spawnSummon = options.spawnSummon;
+    this.abilities = options.abilities ?? {};
+    this.state = {
+      config,
+      seed: options.seed,
+      round: 0,
+      phase: 'rolling_initiative',
+      turnOrder: [],
+      currentTurnIndex: 0,
+      units,
+      activeUnit: null,
+      zones: createHazardZones(config),
+      roundsCompleted: 0,
+      interactedObjects: [],
+      arrivedWaves: [],
+      firedScriptedEvents: [],
+      routedUnits: [],
+      winner: null,
+    };
+  }
+
+  // ============================================
+  // Events
+  // ============================================
+
+  /**
+   * Subscribe to one event type - returns an unsubscribe function
+   */
+  on<T extends BattleEventType>(type: T, listener: (event: BattleEventOf<T>) => void): () => void {
+    return this.onAny((event) => {
+      if (event.type === type) {
+        listener(event as BattleEventOf<T>);
+      }
+    });
+  }
+
+  /**
+   * Subscribe to every event - returns an unsubscribe function
+   */
+  onAny(listener: BattleEventListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private emit(event: BattleEvent): void {
+    for (const listener of [...this.listeners]) {
+      listener(event);
+    }
+
+    // A boss changes phase right after the damage that drops it past the threshold
+    if (event.type === 'damage') {
+      this.advanceBossPhases(event.unit);
+    }
+
+    // Morale breaks on the damage or defeat that passes a threshold - surrendering
+    // units leave play once the step that broke them is over (see routSurrendered)
+    if (event.type === 'damage' || event.type === 'unit_defeated') {
+      this.checkMorale(event.source);
+    }
+
+    // Summons vanish when they drop, and so does everything a downed unit summoned
+    if (event.type === 'unit_defeated') {
+      if (event.unit.summon) {
+        this.dismissSummon(event.unit, 'defeated');
+      }
+      for (const summoned of this.state.units.filter(u => u.summon?.summonerId === event.unit.id)) {
+        this.dismissSummon(summoned, 'summoner_down');
+      }
+    }
+
+    // Scripted events are announced right after the event that triggered them
+    if (event.type !== 'scripted_event') {
+      for (const scripted of getTriggeredScriptedEvents(this.state, event)) {
+        this.state.firedScriptedEvents.push(scripted.id);
+        this.emit({ type: 'scripted_event', event: scripted });
+      }
+    }
+
+    // The move that set off a scripted event has been seen by the player - it can't be taken back
+    if (event.type === 'scripted_event') {
+      this.moveSnapshot = null;
+    }
+  }
+
+  /**
+   * Start every boss phase the unit's HP has dropped past - each swaps in its abilities
+   */
+  private advanceBossPhases(unit: Unit): void {
+    const phases = unit.phases ?? [];
+    let entered = unit.phasesEntered ?? 0;
+    while (!unit.isUnconscious && entered < phases.length &&
+      (unit.currentHp / unit.maxHp) * 100 < phases[entered].belowPercent) {
+      const phase = phases[entered];
+      unit.abilities = phase.abilities;
+      unit.phasesEntered = ++entered;
+      this.emit({ type: 'boss_phase', unit, phase });
+    }
+  }
+
+  setPhase(phase: BattlePhase): void {
+    const previous = this.state.phase;
+    if (previous === phase) return;
+    this.state.phase = phase;
+    this.emit({ type: 'phase_change', phase, previous });
+  }
+
+  // ============================================
+  // Turn Flow
+  // ============================================
+
+  /**
+   * Start a new round: bring in due reinforcements, reset turn state and roll initiative
+   * for every living unit
+   */
+  startRound(): InitiativeEntry[] {
+    this.state.round++;
+    this.setPhase('rolling_initiative');
+    this.checkReinforcements();
+
+    this.state.units.forEach((unit) => {
+      if (!unit.isUnconscious) {
+        resetUnitTurnState(unit);
+      }
+    });
+
+    this.state.turnOrder = this.rollInitiative();
+    this.state.currentTurnIndex = 0;
+    this.emit({ type: 'round_start', round: this.state.round, turnOrder: this.state.turnOrder });
+
+    return this.state.turnOrder;
+  }
+
+  /**
+   * Advance to the next living unit in the turn order
+   * Returns null once every unit has had its turn (call endRound)
+   */
+  nextTurn(): Unit | null {
+    // Catch triggers from start-of-turn ticks and zones - new units can take the very next turn
+    this.checkReinforcements(this.state.currentTurnIndex);
+
+    const { turnOrder } = this.state;
+    while (
+      this.state.currentTurnIndex < turnOrder.length &&
+      turnOrder[this.state.currentTurnIndex].unit.isUnconscious
+    ) {
+      this.state.currentTurnIndex++;
+    }
+
+    if (this.state.currentTurnIndex >= turnOrder.length) {
+      return null;
+    }
+
+    const unit = turnOrder[this.state.currentTurnIndex].unit;
+    this.state.activeUnit = unit;
+    this.xpEarnedThisTurn = false;
+    this.moveSnapshot = null;
+    this.emit({ type: 'turn_start', unit });
+
+    return unit;
+  }
+
+  /**
+   * Process start-of-turn effects: status ticks, turn-skipping conditions and zone damage
+   */
+  beginTurn(unit: Unit): TurnStartResult {
+    const result = this.tickTurnStart(unit);
+
+    // Start-of-turn damage can break morale like any other
+    this.routSurrendered();
+    if (this.state.routedUnits.includes(unit)) {
+      return { canAct: false, skipReason: 'surrendered' };
+    }
+    return result;
+  }
+
+  private tickTurnStart(unit: Unit): TurnStartResult {
+    // Turn-skipping effects (held) are checked before durations tick down
+    const skipEffect = getTurnSkippingEffect(unit);
+
+    // Tick every status effect (damage/healing per tick, durations) from the registry
+    const tick = processStatusEffects(unit);
+    const source: EffectSource = { kind: 'status', effects: tick.damageSources };
+
+    if (tick.damage > 0) {
+      applyDamage(unit, tick.damage);
+      this.emit({ type: 'damage', unit, amount: tick.damage, source });
+
+      if (unit.isUnconscious) {
+        this.emit({ type: 'unit_defeated', unit, source });
+        return { canAct: false, skipReason: 'defeated' };
+      }
+    }
+
+    if (tick.healing > 0) {
+      applyHealing(unit, tick.healing);
+      this.emit({ type: 'healing', unit, amount: tick.healing, source });
+    }
+
+    for (const effectType of tick.expiredEffects) {
+      this.emit({ type: 'status_expired', unit, effectType });
+    }
+
+    if (skipEffect) {
+      this.emit({ type: 'turn_skipped', unit, effect: skipEffect.type });
+      return { canAct: false, skipReason: skipEffect.type };
+    }
+
+    // Zones (Entangle, fire, vents...) at turn start
+    for (const zone of this.getZonesUnder(unit)) {
+      this.applyZoneEffect(unit, zone, 'turn_start');
+    }
+    if (unit.isUnconscious) {
+      return { canAct: false, skipReason: 'defeated' };
+    }
+
+    return { canAct: true };
+  }
+
+  /**
+   * Finish the active unit's turn
+   */
+  endTurn(): void {
+    const unit = this.state.activeUnit;
+    if (unit) {
+      this.emit({ type: 'turn_end', unit });
+
+      // Fleeing units get away at the end of a turn spent on an escape tile
+      if (unit.broken === 'flee' && !unit.isUnconscious && isOnEscapeTile(this.state.config, unit)) {
+        this.rout(unit);
+      }
+    }
+    this.state.currentTurnIndex++;
+  }
+
+  /**
+   * End of round: tick zone durations, switch cycling zones for the next round, dismiss
+   * expired summons, then check victory/defeat
+   */
+  endRound(): Side | null {
+    this.setPhase('round_end');
+    this.state.roundsCompleted = this.state.round;
+
+    for (let i = this.state.zones.length - 1; i >= 0; i--) {
+      const zone = this.state.zones[i];
+      if (zone.duration === undefined) continue;
+      zone.duration--;
+      if (zone.duration <= 0) {
+        this.state.zones.splice(i, 1);
+        this.emit({ type: 'zone_expired', zone });
+      }
+    }
+
+    for (const zone of this.state.zones) {
+      if (zone.cycle) {
+        this.setZoneActive(zone, isCycleActive(zone.cycle, this.state.round + 1));
+      }
+    }
+
+    for (const unit of this.state.units.filter(u => u.summon && u.summon.expiresAfterRound <= this.state.round)) {
+      this.dismissSummon(unit, 'expired');
+    }
+
+    this.emit({ type: 'round_end', round: this.state.round });
+    return this.checkBattleEnd();
+  }
+
+  /**
+   * Check victory/defeat conditions (see BattleObjectives) - emits battle_end the first time one is met
+   */
+  checkBattleEnd(): Side | null {
+    if (this.state.winner) return this.state.winner;
+
+    const winner = evaluateBattleEnd(this.state);
+    if (!winner) return null;
+
+    this.state.winner = winner;
+    this.setPhase(winner === 'hero' ? 'victory' : 'defeat');
+    this.emit({ type: 'battle_end', winner });
+    return winner;
+  }
+
+  /**
+   * Roll initiative for all living units and sort turn order
+   */
+  private rollInitiative(): InitiativeEntry[] {
+    const turnOrder = this.state.units
+      .filter(u => !u.isUnconscious)
+      .map(unit => this.rollUnitInitiative(unit));
+
+    return turnOrder.sort(compareInitiative);
+  }
+
+  private rollUnitInitiative(unit: Unit): InitiativeEntry {
+    const roll = rollInitiative(unit.speed);
+    let total = roll.finalTotal || roll.total;
+
+    // Swift Anklet: +2 initiative bonus
+    if (unit.equipment === 'swift_anklet') {
+      total += SWIFT_ANKLET_INITIATIVE;
+      this.emit({ type: 'equipment_triggered', unit, equipment: 'swift_anklet', amount: SWIFT_ANKLET_INITIATIVE });
+    }
+
+    return { unit, roll, total };
+  }
+
+  // ============================================
+  // Reinforcements
+  // ============================================
+
+  /**
+   * Spawn every wave whose trigger now holds
+   * joinFrom: first turn-order slot new units may take this round (omit before initiative is rolled)
+   */
+  private checkReinforcements(joinFrom?: number): void {
+    if (this.state.winner) return;
+
+    for (const wave of this.state.config.reinforcements ?? []) {
+      if (!this.state.arrivedWaves.includes(wave.id) && isWaveTriggered(wave, this.state)) {
+        this.spawnWave(wave, joinFrom);
+      }
+    }
+  }
+
+  private spawnWave(wave: ReinforcementWave, joinFrom?: number): void {
+    this.state.arrivedWaves.push(wave.id);
+    const instanceIds = this.reinforcementIds[wave.id];
+    const spawned: Unit[] = [];
+
+    wave.enemies.forEach((placement, i) => {
+      // Blocked spawn tiles fall back to the nearest tile the whole unit fits on - no room at
+      // all drops the unit
+      const unit = this.spawnEnemy?.(placement, instanceIds[i]);
+      const tile = unit && findSpawnTile(this.gridManager, this.state.config, unit);
+      if (!unit || !tile) return;
+
+      this.gridManager.placeUnit(unit, tile.x, tile.y);
+      resetUnitTurnState(unit);
+      this.state.units.push(unit);
+      spawned.push(unit);
+    });
+
+    // The board changed under the active unit - its move can no longer be taken back
+    this.moveSnapshot = null;
+
+    // Mid-round arrivals roll initiative and slot in among the units still to act
+    if (joinFrom !== undefined) {
+      const { turnOrder } = this.state;
+      const upcoming = [...turnOrder.slice(joinFrom), ...spawned.map(u => this.rollUnitInitiative(u))];
+      turnOrder.splice(joinFrom, turnOrder.length - joinFrom, ...upcoming.sort(compareInitiative));
+    }
+
+    this.emit({ type: 'reinforcements_arrived', wave, units: spawned });
+  }
+
+  // ============================================
+  // Commands
+  // ============================================
+
+  execute(command: MoveCommand): MoveOutcome;
+  execute(command: AbilityCommand): AbilityOutcome;
+  execute(command: ItemCommand): ItemOutcome;
+  execute(command: WaitCommand): void;
+  execute(command: UndoMoveCommand): UndoMoveOutcome;
+  execute(command: InteractCommand): boolean;
+  execute(command: DisengageCommand): boolean;
+  execute(command: ReactionCommand): ReactionOutcome;
+  execute(command: BattleCommand): MoveOutcome | AbilityOutcome | ItemOutcome | UndoMoveOutcome | ReactionOutcome | boolean | void {
+    const outcome = this.runCommand(command);
+    this.routSurrendered();
+
+    // Moves and actions can trip region and HP triggers - arrivals act after the active unit
+    if (command.type !== 'wait' && command.type !== 'undo_move') {
+      this.checkReinforcements(this.state.currentTurnIndex + 1);
+    }
+
+    return outcome;
+  }
+
+  private runCommand(command: BattleCommand): MoveOutcome | AbilityOutcome | ItemOutcome | UndoMoveOutcome | ReactionOutcome | boolean | void {
+    switch (command.type) {
+      case 'move':
+        return this.moveUnit(command);
+      case 'ability':
+        this.moveSnapshot = null;
+        return this.useAbility(command);
+      case 'item':
+        this.moveSnapshot = null;
+        return this.useItem(command);
+      case 'wait':
+        this.moveSnapshot = null;
+        return this.waitUnit(command);
+      case 'undo_move':
+        return this.undoMove(command);
+      case 'interact':
+        this.moveSnapshot = null;
+        return this.interact(command);
+      case 'disengage':
+        this.moveSnapshot = null;
+        return this.disengage(command);
+      case 'reaction':
+        return this.react(command);
+    }
+  }
+
+  /**
+   * Whether a unit is still fighting - not down, and not fled, surrendered or dismissed
+   */
+  isInPlay(unit: Unit): boolean {
+    return !unit.isUnconscious && this.state.units.includes(unit);
+  }
+
+  /**
+   * Interact objective objects and hazard switches the unit can reach this turn
+   */
+  getInteractableObjects(unit: Unit): ObjectivePlacement[] {
+    return [...getInteractableObjects(this.state, unit), ...getReachableSwitches(this.state, unit)];
+  }
+
+  /**
+   * Opportunity attacks a unit would provoke moving along a path (none without zone of control)
+   */
+  getOpportunityAttacks(unit: Unit, path: Position[]): OpportunityAttack[] {
+    if (!this.state.config.zoneOfControl) return [];
+    return getOpportunityAttacks(unit, path, this.state.units, this.abilities);
+  }
+
+  /**
+   * Reactions the subject's side can take when an enemy action triggers them
+   */
+  getReactions(trigger: ReactionTrigger, source: Unit, subject: Unit): ReactionOpportunity[] {
+    return findReactions(this.state.units, this.abilities, trigger, source, subject);
+  }
+
+  /**
+   * Whether the unit's last move can still be taken back (it hasn't acted since moving)
+   */
+  canUndoMove(unit: Unit): boolean {
+    return this.moveSnapshot?.unit === unit && !unit.isUnconscious;
+  }
+
+  /**
+   * Path a unit would take toward a tile, limited to its movement range
+   * Units can path through allies but not stop on them, so the path is trimmed back
+   */
+  planMove(unit: Unit, x: number, y: number): Position[] {
+    const path = this.gridManager.findPath(unit.gridX, unit.gridY, x, y, unit);
+    if (!path || path.length === 0) return [];
+
+    let limitedPath = path.slice(0, MOVEMENT_RANGE);
+    while (limitedPath.length > 0) {
+      const finalPos = limitedPath[limitedPath.length - 1];
+      if (this.gridManager.hasRoomFor(unit, finalPos.x, finalPos.y)) break;
+      limitedPath = limitedPath.slice(0, -1);
+    }
+
+    return limitedPath;
+  }
+
+  private moveUnit(command: MoveCommand): MoveOutcome {
+    const { unit } = command;
+    const from = { x: unit.gridX, y: unit.gridY };
+    if (unit.isUnconscious || isMovementPrevented(unit)) {
+      return { from, path: [] };
+    }
+
+    let path = this.planMove(unit, command.x, command.y);
+    if (path.length === 0) {
+      return { from, path };
+    }
+
+    this.moveSnapshot = {
+      unit,
+      position: from,
+      facing: unit.facing,
+      hasMoved: unit.hasMoved,
+      actionsRemaining: unit.actionsRemaining,
+      currentHp: unit.currentHp,
+      statusEffects: unit.statusEffects.map(effect => ({ ...effect })), // Zone effects can refresh these in place
+    };
+
+    // Opportunity attacks strike as the unit leaves each enemy's reach - a move that
+    // provokes can't be taken back, and one that downs the unit ends there
+    const attacks = this.getOpportunityAttacks(unit, path);
+    for (const attack of attacks) {
+      this.moveSnapshot = null;
+      const leaving = attack.stepIndex === 0 ? from : path[attack.stepIndex - 1];
+      this.gridManager.moveUnit(unit, leaving.x, leaving.y);
+      unit.facing = getFacingToward(leaving, path[attack.stepIndex]);
+      this.resolveOpportunityAttack(attack, unit);
+      if (unit.isUnconscious) {
+        path = path.slice(0, attack.stepIndex);
+        break;
+      }
+    }
+
+    // Units end their move facing along the last step, which decides where they can be backstabbed
+    const destination = path[path.length - 1];
+    if (destination) {
+      this.gridManager.moveUnit(unit, destination.x, destination.y);
+      unit.facing = getFacingToward(path[path.length - 2] ?? from, destination);
+    }
+
+    // Mark unit as moved (this also reduces Azrael's actions)
+    markUnitMoved(unit);
+    this.emit({ type: 'unit_moved', unit, from, path });
+
+    // Zone entry effects
+    if (destination) {
+      for (const zone of this.getZonesUnder(unit)) {
+        this.applyZoneEffect(unit, zone, 'entry');
+      }
+    }
+
+    return { from, path };
+  }
+
+  /**
+   * Free melee attack on a unit leaving the attacker's reach - earns no XP
+   */
+  private resolveOpportunityAttack(attack: OpportunityAttack, target: Unit): void {
+    const { attacker, ability } = attack;
+    const source: EffectSource = { kind: 'ability', unit: attacker, ability };
+    const emitStatusChanges = this.watchStatusEffects([attacker, target]);
+
+    const result = resolveAttack(attacker, target, ability, this.state.units, this.gridManager);
+    this.emit({ type: 'attack_resolved', result });
+    this.emit({ type: 'opportunity_attack', unit: attacker, target, ability, result });
+
+    const damage = result.hit ? result.totalDamage ?? 0 : 0;
+    if (damage > 0) {
+      this.emit({ type: 'damage', unit: target, amount: damage, source });
+    }
+    emitStatusChanges();
+
+    if (result.defenderDefeated) {
+      this.emit({ type: 'unit_defeated', unit: target, source });
+    }
+  }
+
+  /**
+   * Put a unit back on its pre-move tile, restoring facing, turn state and zone entry damage
+   */
+  private undoMove(command: UndoMoveCommand): UndoMoveOutcome {
+    const { unit } = command;
+    const from = { x: unit.gridX, y: unit.gridY };
+    const snapshot = this.moveSnapshot;
+    if (!snapshot || !this.canUndoMove(unit)) {
+      return { from, to: from, undone: false };
+    }
+
+    this.moveSnapshot = null;
+    this.gridManager.moveUnit(unit, snapshot.position.x, snapshot.position.y);
+    unit.facing = snapshot.facing;
+    unit.hasMoved = snapshot.hasMoved;
+    unit.actionsRemaining = snapshot.actionsRemaining;
+    unit.currentHp = snapshot.currentHp;
+
+    const emitStatusChanges = this.watchStatusEffects([unit]);
+    unit.statusEffects = snapshot.statusEffects;
+    emitStatusChanges();
+
+    this.emit({ type: 'move_undone', unit, from, to: snapshot.position });
+    return { from, to: snapshot.position, undone: true };
+  }
+
+  /**
+   * Use an objective object or hazard switch next to the unit - takes the unit's action
+   * Returns false if the object isn't in reach or was already used
+   */
+  private interact(command: InteractCommand): boolean {
+    const { unit, objectId } = command;
+    const object = this.getInteractableObjects(unit).find(o => o.id === objectId);
+    if (!object || unit.isUnconscious) return false;
+
+    // Switches can be pulled again - only objective objects are used up
+    const zone = this.state.zones.find(z => z.switch === object);
+    if (!zone) {
+      this.state.interactedObjects.push(object.id);
+    }
+    unit.actionsRemaining--;
+    if (unit.actionsRemaining <= 0) {
+      unit.hasActed = true;
+    }
+
+    this.emit({ type: 'object_interacted', unit, object });
+    if (zone) {
+      this.setZoneActive(zone, !zone.active, unit);
+    }
+    return true;
+  }
+
+  /**
+   * Take the Disengage action - the unit can move without provoking until its next turn
+   * Returns false if the unit has already acted
+   */
+  private disengage(command: DisengageCommand): boolean {
+    const { unit } = command;
+    if (unit.isUnconscious || unit.hasActed) return false;
+
+    const emitStatusChanges = this.watchStatusEffects([unit]);
+    addStatusEffect(unit, { type: 'disengaged', duration: 1 });
+    emitStatusChanges();
+
+    unit.actionsRemaining--;
+    if (unit.actionsRemaining <= 0) {
+      unit.hasActed = true;
+    }
+    return true;
+  }
+
+  /**
+   * Spend a unit's reaction - a counter only pays for it (the caller marks the target as
+   * countered on the triggering ability); anything else resolves on the enemy for attacks,
+   * or on the unit that was targeted, hit or downed. Reactions earn no XP.
+   */
+  private react(command: ReactionCommand): ReactionOutcome {
+    const { reaction } = command;
+    const { unit, ability } = reaction;
+    payAbilityCost(unit, ability);
+    unit.reactionsRemaining--;
+    this.emit({ type: 'reaction_used', reaction });
+
+    if (ability.reaction?.counters) {
+      return { reaction };
+    }
+
+    const target = ability.targetType === 'enemy' ? reaction.source : reaction.subject;
+    if (target !== unit) {
+      unit.facing = getFacingToward({ x: unit.gridX, y: unit.gridY }, { x: target.gridX, y: target.gridY });
+    }
+    return { reaction, target: this.resolveAbilityOn(unit, target, ability, getAbilityResolution(ability, false), undefined) };
+  }
+
+  private waitUnit(command: WaitCommand): void {
+    const { unit } = command;
+    unit.hasMoved = true;
+    unit.hasActed = true;
+    unit.actionsRemaining = 0;
+    this.emit({ type: 'unit_waited', unit });
+  }
+
+  /**
+   * Pay costs, resolve an ability against each target, create zones and award hero XP
+   */
+  private useAbility(command: AbilityCommand): AbilityOutcome {
+    const { unit, ability, area } = command;
+    const isHero = unit.team === 'hero';
+
+    // Every side pays mana and ki - the AI budgets what its units have left
+    payAbilityCost(unit, ability);
+
+    // Only the first action per turn earns XP (prevents Azrael Hide+Attack abuse)
+    // Area abilities and summoned units don't award XP
+    const xpTracker = isHero && !unit.summon && !area && !this.xpEarnedThisTurn ? this.xpTracker : undefined;
+    const xpBefore = xpTracker ? xpTracker.getBattleXP(unit.dataId) : 0;
+
+    // Resource XP for paid abilities - regardless of outcome
+    if (xpTracker && ability.cost > 0) {
+      xpTracker.awardResourceXP(unit.dataId, ability.cost, ability.name);
+    }
+
+    // Turn to face a single target
+    const facingTarget = !area && command.targets.find(target => target !== unit);
+    if (facingTarget) {
+      unit.facing = getFacingToward({ x: unit.gridX, y: unit.gridY }, { x: facingTarget.gridX, y: facingTarget.gridY });
+    }
+
+    this.emit({ type: 'ability_used', unit, ability, targets: command.targets });
+
+    const resolution = getAbilityResolution(ability, !!area);
+    const targets = command.targets.map(target => command.countered?.includes(target)
+      ? { ...emptyTargetOutcome(target), countered: true }
+      : this.resolveAbilityOn(unit, target, ability, resolution, xpTracker));
+
+    // Persistent zone if the ability leaves one behind
+    let zone: Zone | undefined;
+    if (area && ability.effect?.type === 'entangle_zone') {
+      zone = this.createZone(unit, ability, area);
+    }
+
+    // Summons appear on the area's tile
+    let summoned: Unit | undefined;
+    if (area && ability.effect?.type === 'summon') {
+      summoned = this.summonUnit(unit, ability, { x: area.originX, y: area.originY });
+    }
+
+    // Mark as having acted (Azrael may still have a second action)
+    unit.actionsRemaining--;
+    if (unit.actionsRemaining <= 0) {
+      unit.hasActed = true;
+    }
+
+    const xpEarned = xpTracker ? xpTracker.getBattleXP(unit.dataId) - xpBefore : 0;
+    if (xpEarned > 0) {
+      this.xpEarnedThisTurn = true;
+    }
+
+    return { unit, ability, targets, zone, summoned, xpEarned };
+  }
+
+  private resolveAbilityOn(
+    unit: Unit,
+    target: Unit,
+    ability: Ability,
+    resolution: AbilityResolution | null,
+    xpTracker: XPTracker | undefined
+  ): AbilityTargetOutcome {
+    const outcome = emptyTargetOutcome(target);
+    const source: EffectSource = { kind: 'ability', unit, ability };
+    const emitStatusChanges = this.watchStatusEffects([unit, target]);
+
+    // Summoned targets are worth no XP
+    if (target.summon) {
+      xpTracker = undefined;
+    }
+
+    // Free attacks and damage spells earn XP from damage dealt, and kills earn a bonus
+    const earnsDamageXP = ability.type === 'attack' || ability.type === 'spell';
+
+    if (resolution === 'attack') {
+      outcome.attackBonus = this.useFirstAttackBonus(unit);
+      unit.attack += outcome.attackBonus;
+      const result = resolveAttack(unit, target, ability, this.state.units, this.gridManager);
+      unit.attack -= outcome.attackBonus;
+
+      outcome.attack = result;
+      outcome.damage = result.hit ? result.totalDamage ?? 0 : 0;
+      outcome.defeated = !!result.defenderDefeated;
+      this.emit({ type: 'attack_resolved', result });
+
+      // Free attacks earn attempt XP even on a miss
+      if (xpTracker && ability.cost === 0) {
+        xpTracker.awardDamageXP(unit.dataId, outcome.damage);
+      }
+    } else if (resolution === 'spell') {
+      outcome.saveBonus = this.useFirstSaveBonus(target);
+      target.resilience += outcome.saveBonus;
+      const result = resolveSpell(unit, target, ability);
+      target.resilience -= outcome.saveBonus;
+
+      outcome.spell = result;
+      outcome.damage = result.totalDamage ?? 0;
+      outcome.defeated = !!result.targetDefeated;
+      this.emit({ type: 'spell_resolved', result });
+
+      // Free damage spells earn attempt XP even when the target saves
+      if (xpTracker && earnsDamageXP && ability.cost === 0 && result.damageRoll) {
+        xpTracker.awardDamageXP(unit.dataId, outcome.damage);
+      }
+    } else if (resolution === 'heal') {
+      const result = resolveHeal(unit, target, ability);
+      if (ability.healing) {
+        outcome.healingBonus = this.useFirstHealBonus(unit);
+        if (outcome.healingBonus > 0) {
+          applyHealing(target, outcome.healingBonus);
+          if (result.totalHealing) {
+            result.totalHealing += outcome.healingBonus;
+          }
+        }
+      }
+
+      outcome.spell = result;
+      this.emit({ type: 'spell_resolved', result });
+      if (result.totalHealing) {
+        this.emit({ type: 'healing', unit: target, amount: result.totalHealing, source });
+      }
+    } else if (resolution === 'self') {
+      const result = resolveSelfAbility(unit, ability);
+      outcome.spell = result;
+      this.emit({ type: 'spell_resolved', result });
+    }
+
+    if (outcome.damage > 0) {
+      this.emit({ type: 'damage', unit: target, amount: outcome.damage, source });
+    }
+    emitStatusChanges();
+
+    if (outcome.defeated) {
+      this.emit({ type: 'unit_defeated', unit: target, source });
+    }
+
+    // Push or pull the target if the ability landed - knocking it out against a wall, a unit
+    // or in a hazard counts as the ability defeating it
+    const landed = outcome.attack ? outcome.attack.hit : resolution === 'spell' && !!outcome.spell && !outcome.spell.savePassed;
+    if (ability.forcedMovement && landed && !target.isUnconscious && target !== unit) {
+      outcome.forcedMove = this.forceMove(unit, target, ability);
+      outcome.defeated = target.isUnconscious;
+    }
+
+    if (outcome.defeated) {
+      if (xpTracker && earnsDamageXP) {
+        xpTracker.awardKillXP(unit.dataId, target.name);
+      }
+      outcome.killHealing = this.useFirstKillHealing(unit);
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Bring in a summon ability's unit on a free tile for its caster's team - it rolls
+   * initiative and takes a turn this round if its roll beats the units still to act
+   */
+  private summonUnit(unit: Unit, ability: Ability, tile: Position): Unit | undefined {
+    const effect = ability.effect!;
+    if (!this.spawnSummon) {
+      throw new Error(`${ability.id}: no spawnSummon factory provided`);
+    }
+    if (!this.gridManager.isWalkable(tile.x, tile.y) || this.gridManager.isOccupied(tile.x, tile.y)) {
+      return undefined;
+    }
+
+    this.summonCount++;
+    const summoned = this.spawnSummon(effect.summon!, tile, `${effect.summon}_summon_${this.summonCount}`);
+    if (!summoned) return undefined;
+
+    summoned.team = unit.team;
+    summoned.summon = {
+      summonerId: unit.id,
+      expiresAfterRound: this.state.round + Math.max(1, rollEffectDuration(effect.duration, 1)) - 1,
+    };
+    this.gridManager.placeUnit(summoned, tile.x, tile.y);
+    resetUnitTurnState(summoned);
+    this.state.units.push(summoned);
+
+    const joinFrom = this.state.currentTurnIndex + 1;
+    const { turnOrder } = this.state;
+    const upcoming = [...turnOrder.slice(joinFrom), this.rollUnitInitiative(summoned)];
+    turnOrder.splice(joinFrom, turnOrder.length - joinFrom, ...upcoming.sort(compareInitiative));
+
+    this.emit({ type: 'unit_summoned', unit: summoned, summoner: unit, ability });
+    return summoned;
+  }
+
+  /**
+   * Take a summoned unit off the board and out of the turns still to come this round
+   */
+  private dismissSummon(unit: Unit, reason: DismissReason): void {
+    if (!this.removeFromPlay(unit)) return;
+    this.emit({ type: 'summon_dismissed', unit, reason });
+  }
+
+  /**
+   * Take a unit off the board and out of the turns still to come this round
+   * Returns false if it was already out of play
+   */
+  private removeFromPlay(unit: Unit): boolean {
+    const index = this.state.units.indexOf(unit);
+    if (index === -1) return false;
+
+    this.state.units.splice(index, 1);
+    this.gridManager.removeUnit(unit);
+    const { turnOrder } = this.state;
+    for (let i = turnOrder.length - 1; i > this.state.currentTurnIndex; i--) {
+      if (turnOrder[i].unit === unit) {
+        turnOrder.splice(i, 1);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Break the morale of every enemy now past one of its thresholds
+   * The hero whose action did it gets the XP once the enemy leaves play.
+   */
+  private checkMorale(source: EffectSource): void {
+    for (const unit of this.state.units) {
+      if (unit.isUnconscious || unit.broken) continue;
+      const profile = getMoraleProfile(this.state.config, unit);
+      if (!profile || !isMoraleBroken(profile, unit, this.state)) continue;
+
+      unit.broken = profile.response;
+      if ('unit' in source && source.unit.team === 'hero' && !source.unit.summon) {
+        unit.brokenBy = source.unit.dataId;
+      }
+      this.emit({ type: 'morale_broken', unit, response: profile.response });
+    }
+  }
+
+  /**
+   * Take enemies that surrendered during the last step out of play
+   */
+  private routSurrendered(): void {
+    for (const unit of this.state.units.filter(u => u.broken === 'surrender' && !u.isUnconscious)) {
+      this.rout(unit);
+    }
+  }
+
+  /**
+   * A fleeing or surrendering enemy leaves play - it counts as defeated, and so do its summons
+   */
+  private rout(unit: Unit): void {
+    if (!this.removeFromPlay(unit)) return;
+    this.state.routedUnits.push(unit);
+    if (this.xpTracker && unit.brokenBy) {
+      this.xpTracker.awardKillXP(unit.brokenBy, unit.name, unit.broken);
+    }
+    this.emit({ type: 'unit_routed', unit, response: unit.broken! });
+
+    for (const summoned of this.state.units.filter(u => u.summon?.summonerId === unit.id)) {
+      this.dismissSummon(summoned, 'summoner_down');
+    }
+  }
+
+  /**
+   * Move a unit with a push or pull - a wall or unit that stops it short deals collision
+   * damage (to both units), and a hazard it ends up in goes off as if it walked in
+   */
+  private forceMove(unit: Unit, target: Unit, ability: Ability): ForcedMoveOutcome {
+    const forced = ability.forcedMovement!;
+    const from = { x: target.gridX, y: target.gridY };
+    const { path, blockedBy } = planForcedMovement({ x: unit.gridX, y: unit.gridY }, target, forced, this.gridManager);
+
+    const destination = path[path.length - 1];
+    if (destination) {
+      this.gridManager.moveUnit(target, destination.x, destination.y);
+    }
+    this.emit({ type: 'unit_pushed', unit: target, by: unit, ability, from, path, blockedBy });
+
+    let collisionDamage = 0;
+    if (blockedBy) {
+      const damageRoll = rollDice(forced.collisionDamage ?? COLLISION_DAMAGE, getDiceStatContext(unit));
+      collisionDamage = damageRoll.finalTotal ?? damageRoll.total;
+
+      const source: EffectSource = { kind: 'collision', unit, ability };
+      const struck = blockedBy === 'wall' || blockedBy.isUnconscious ? [target] : [target, blockedBy];
+      for (const struckUnit of struck) {
+        applyDamage(struckUnit, collisionDamage);
+        this.emit({ type: 'damage', unit: struckUnit, amount: collisionDamage, source });
+        if (struckUnit.isUnconscious) {
+          this.emit({ type: 'unit_defeated', unit: struckUnit, source });
+        }
+      }
+    }
+
+    if (destination) {
+      for (const zone of this.getZonesUnder(target)) {
+        this.applyZoneEffect(target, zone, 'entry');
+      }
+    }
+
+    return { from, path, blockedBy, collisionDamage };
+  }
+
+  /**
+   * Resolve a consumable item's effect - removing it from the inventory is up to the caller
+   */
+  private useItem(command: ItemCommand): ItemOutcome {
+    const { unit, item, target } = command;
+    const emitStatusChanges = this.watchStatusEffects([target]);
+    const effect = this.resolveItemEffect(unit, item, target);
+    emitStatusChanges();
+
+    const consumed = effect.type !== 'no_resource' && effect.type !== 'unsupported';
+    const xpEarned = consumed && this.xpTracker ? this.xpTracker.awardItemXP(unit.dataId, item.name) : 0;
+
+    // Using an item takes the unit's action
+    unit.actionsRemaining--;
+    if (unit.actionsRemaining <= 0) {
+      unit.hasActed = true;
+    }
+
+    const outcome: ItemOutcome = { unit, item, target, effect, consumed, xpEarned };
+    this.emit({ type: 'item_used', outcome });
+    return outcome;
+  }
+
+  private resolveItemEffect(unit: Unit, item: ItemData, target: Unit): ItemEffectResult {
+    switch (item.effect.type) {
+      case 'heal': {
+        // Healing Potion
+        const roll = rollDice(item.effect.amount as string, getDiceStatContext(unit));
+        const rolled = roll.finalTotal ?? roll.total;
+        const restored = Math.min(rolled, target.maxHp - target.currentHp);
+        applyHealing(target, rolled);
+        this.emit({ type: 'healing', unit: target, amount: restored, source: { kind: 'item', unit, item } });
+        return { type: 'heal', roll, rolled, restored };
+      }
+
+      case 'restore_resource': {
+        // Distilled Dendritium - restores mana or ki depending on the target
+        const roll = rollDice(item.effect.amount as string, getDiceStatContext(unit));
+        const rolled = roll.finalTotal ?? roll.total;
+        if (target.currentMana !== undefined && target.maxMana !== undefined) {
+          const restored = Math.min(rolled, target.maxMana - target.currentMana);
+          target.currentMana = Math.min(target.maxMana, target.currentMana + rolled);
+          return { type: 'restore_resource', roll, rolled, restored, resource: 'MP' };
+        }
+        if (target.currentKi !== undefined && target.maxKi !== undefined) {
+          const restored = Math.min(rolled, target.maxKi - target.currentKi);
+          target.currentKi = Math.min(target.maxKi, target.currentKi + rolled);
+          return { type: 'restore_resource', roll, rolled, restored, resource: 'Ki' };
+        }
+        return { type: 'no_resource' };
+      }
+
+      case 'remove_condition': {
+        // Antidote removes poison, Celestial Tears remove any one condition
+        const condition = item.effect.condition ?? 'any';
+        const index = condition === 'any'
+          ? (target.statusEffects.length > 0 ? 0 : -1)
+          : target.statusEffects.findIndex(e => e.type === condition);
+        const removed = index === -1 ? null : target.statusEffects.splice(index, 1)[0].type;
+        return { type: 'remove_condition', condition, removed };
+      }
+
+      default:
+        return { type: 'unsupported', effectType: item.effect.type };
+    }
+  }
+
+  // ============================================
+  // Equipment Bonuses
+  // ============================================
+
+  /**
+   * Ambusher's Ring: +2 ATK on the first attack of battle
+   */
+  private useFirstAttackBonus(unit: Unit): number {
+    const bonusState = unit.equipmentBonusState;
+    if (unit.equipment !== 'ambushers_ring' || !bonusState || bonusState.firstAttackUsed) return 0;
+
+    bonusState.firstAttackUsed = true;
+    this.emit({ type: 'equipment_triggered', unit, equipment: 'ambushers_ring', amount: AMBUSHERS_RING_ATTACK });
+    return AMBUSHERS_RING_ATTACK;
+  }
+
+  /**
+   * Wardstone: +2 RES on the defender's first save of battle
+   */
+  private useFirstSaveBonus(unit: Unit): number {
+    const bonusState = unit.equipmentBonusState;
+    if (unit.equipment !== 'wardstone' || !bonusState || bonusState.firstSaveUsed) return 0;
+
+    bonusState.firstSaveUsed = true;
+    this.emit({ type: 'equipment_triggered', unit, equipment: 'wardstone', amount: WARDSTONE_RESILIENCE });
+    return WARDSTONE_RESILIENCE;
+  }
+
+  /**
+   * Healer's Pendant: +1 to the first heal of battle
+   */
+  private useFirstHealBonus(unit: Unit): number {
+    const bonusState = unit.equipmentBonusState;
+    if (unit.equipment !== 'healers_pendant' || !bonusState || bonusState.firstHealUsed) return 0;
+
+    bonusState.firstHealUsed = true;
+    this.emit({ type: 'equipment_triggered', unit, equipment: 'healers_pendant', amount: HEALERS_PENDANT_HEALING });
+    return HEALERS_PENDANT_HEALING;
+  }
+
+  /**
+   * Bloodstone: heal 2 HP on the first kill of battle
+   */
+  private useFirstKillHealing(unit: Unit): number {
+    const bonusState = unit.equipmentBonusState;
+    if (unit.equipment !== 'bloodstone' || !bonusState || bonusState.firstKillUsed) return 0;
+
+    bonusState.firstKillUsed = true;
+    applyHealing(unit, BLOODSTONE_HEALING);
+    this.emit({ type: 'equipment_triggered', unit, equipment: 'bloodstone', amount: BLOODSTONE_HEALING });
+    this.emit({
+      type: 'healing',
+      unit,
+      amount: BLOODSTONE_HEALING,
+      source: { kind: 'equipment', unit, equipment: 'bloodstone' },
+    });
+    return BLOODSTONE_HEALING;
+  }
+
+  // ============================================
+  // Zones
+  // ============================================
+
+  /**
+   * Area centered on a target's footprint - how AI-cast area abilities are aimed
+   */
+  getAreaAroundTarget(ability: Ability, target: Unit): Area {
+    const width = ability.areaSize?.width ?? 1;
+    const height = ability.areaSize?.height ?? 1;
+    const size = getUnitSize(target);
+    return {
+      originX: Math.max(0, target.gridX + Math.floor((size - width) / 2)),
+      originY: Math.max(0, target.gridY + Math.floor((size - height) / 2)),
+      width,
+      height,
+    };
+  }
+
+  /**
+   * Living units inside an area (allies included) - a boss counts once however many of its
+   * tiles the area covers
+   */
+  getUnitsInArea(area: Area): Unit[] {
+    return this.state.units.filter(u => !u.isUnconscious && overlapsArea(area, u));
+  }
+
+  /**
+   * Zones covering a tile
+   */
+  getZonesAt(x: number, y: number): Zone[] {
+    return this.state.zones.filter(zone => isInArea(zone, x, y));
+  }
+
+  /**
+   * Zones covering any of a unit's tiles
+   */
+  getZonesUnder(unit: Unit): Zone[] {
+    return this.state.zones.filter(zone => overlapsArea(zone, unit));
+  }
+
+  private createZone(caster: Unit, ability: Ability, area: Area): Zone {
+    const durationNotation = ability.effect?.duration;
+    let duration = 1;
+    if (typeof durationNotation === 'string') {
+      const durationRoll = rollDice(durationNotation);
+      duration = durationRoll.finalTotal ?? durationRoll.total;
+    } else if (typeof durationNotation === 'number') {
+      duration = durationNotation;
+    }
+
+    this.zoneCount++;
+    const zone: Zone = {
+      id: `zone_${this.zoneCount}`,
+      type: 'entangle',
+      name: ability.name,
+      originX: area.originX,
+      originY: area.originY,
+      width: area.width,
+      height: area.height,
+      duration,
+      triggers: ['entry', 'turn_start'],
+      damage: ability.damage || '1d6',
+      damageOnSave: ability.damageOnSave || 'half',
+      active: true,
+      casterId: caster.dataId,
+    };
+
+    this.state.zones.push(zone);
+    this.emit({ type: 'zone_created', zone });
+    return zone;
+  }
+
+  /**
+   * Switch a zone on or off - emits zone_toggled if it changed
+   */
+  private setZoneActive(zone: Zone, active: boolean, unit?: Unit): void {
+    if (zone.active === active) return;
+    zone.active = active;
+    this.emit({ type: 'zone_toggled', zone, active, unit });
+  }
+
+  /**
+   * Zone effect on entry or turn start - a RES save halves or negates the damage
+   * and resists the zone's status. Inactive zones and other triggers do nothing.
+   */
+  private applyZoneEffect(unit: Unit, zone: Zone, trigger: ZoneTrigger): void {
+    if (unit.isUnconscious || !zone.active || !zone.triggers.includes(trigger)) return;
+
+    const saveRoll = rollDice('1d20');
+    const savePassed = saveRoll.total + unit.resilience >= ZONE_SAVE_TARGET;
+
+    // Stat references in the damage use the caster's stats
+    let damage = 0;
+    if (zone.damage) {
+      const caster = this.state.units.find(u => u.dataId === zone.casterId);
+      const damageRoll = rollDice(zone.damage, caster ? getDiceStatContext(caster) : undefined);
+      damage = damageRoll.finalTotal ?? damageRoll.total;
+    }
+
+    if (savePassed && zone.damageOnSave === 'half') {
+      damage = Math.floor(damage / 2);
+    } else if (savePassed && zone.damageOnSave === 'none') {
+      damage = 0;
+    }
+
+    this.emit({ type: 'zone_triggered', unit, zone, trigger, savePassed, damage });
+
+    // A sprung trap stays sprung - the move that set it off can't be taken back
+    if (zone.once) {
+      this.moveSnapshot = null;
+      this.setZoneActive(zone, false);
+    }
+
+    if (zone.status && !savePassed) {
+      const emitStatusChanges = this.watchStatusEffects([unit]);
+      addStatusEffect(unit, { ...zone.status });
+      emitStatusChanges();
+    }
+
+    if (damage <= 0) return;
+
+    const source: EffectSource = { kind: 'zone', zone, trigger };
+    applyDamage(unit, damage);
+    this.emit({ type: 'damage', unit, amount: damage, source });
+    if (unit.isUnconscious) {
+      this.emit({ type: 'unit_defeated', unit, source });
+    }
+  }
+
+  // ============================================
+  // Helpers
+  // ============================================
+
+  /**
+   * Snapshot status effects so changes made by a rule can be emitted afterwards
+   * New effect instances emit status_applied, types that disappeared emit status_removed
+   */
+  private watchStatusEffects(units: Unit[]): () => void {
+    const snapshots = Array.from(new Set(units)).map(unit => ({ unit, before: [...unit.statusEffects] }));
+
+    return () => {
+      for (const { unit, before } of snapshots) {
+        for (const effect of unit.statusEffects) {
+          if (effect.type !== 'unconscious' && !before.includes(effect)) {
+            this.emit({ type: 'status_applied', unit, effect });
+          }
+        }
+        for (const effect of before) {
+          if (!unit.statusEffects.some(e => e.type === effect.type)) {
+            this.emit({ type: 'status_removed', unit, effectType: effect.type });
+          }
+        }
+      }
+    };
+  }
+}
+
+/**
+ * Outcome for a target nothing has happened to yet
+ */
+function emptyTargetOutcome(target: Unit): AbilityTargetOutcome {
+  return {
+    target,
+    damage: 0,
+    defeated: false,
+    attackBonus: 0,
+    saveBonus: 0,
+    healingBonus: 0,
+    killHealing: 0,
+  };
+}
+
+/**
+ * Map an ability to how it resolves (matches the ability menu's targeting rules)
+ */
+function getAbilityResolution(ability: Ability, isArea: boolean): AbilityResolution | null {
+  if (isArea) return 'spell';
+  if (ability.type === 'attack') return 'attack';
+  if ((ability.type === 'spell' && ability.targetType === 'enemy') || ability.type === 'debuff') return 'spell';
+  if (ability.type === 'buff' || ability.targetType === 'ally') return 'heal';
+  if (ability.type === 'toggle' || ability.targetType === 'self') return 'self';
+  return null;
+}
+
+function isInArea(area: Area, x: number, y: number): boolean {
+  return x >= area.originX &&
+    x < area.originX + area.width &&
+    y >= area.originY &&
+    y < area.originY + area.height;
+}
+
+function overlapsArea(area: Area, unit: Unit): boolean {
+  return getFootprint(unit).some(tile => isInArea(area, tile.x, tile.y));
+}
+
+/**
+ * Check boss phase definitions - thresholds must fall phase by phase and name known abilities
+ * Returns one message per problem (empty if valid)
+ */
+function validateBossPhases(units: Unit[], abilities?: Record<string, Ability>): string[] {
+  const errors: string[] = [];
+  for (const unit of units) {
+    let previous = 100;
+    (unit.phases ?? []).forEach((phase, i) => {
+      const label = `${unit.dataId}.phases[${i}]`;
+      if (phase.belowPercent <= 0 || phase.belowPercent > previous) {
+        errors.push(`${label}: threshold must be above 0 and no higher than the phase before`);
+      }
+      if (phase.abilities.length === 0) {
+        errors.push(`${label}: phase has no abilities`);
+      }
+      const unknown = abilities ? phase.abilities.filter(id => !abilities[id]) : [];
+      if (unknown.length > 0) {
+        errors.push(`${label}: unknown abilities ${unknown.join(', ')}`);
+      }
+      previous = phase.belowPercent;
+    });
+  }
+  return errors;
+}
+
+/**
+ * Turn order comparator - higher total first, ties broken by speed, then by team
+ */
+function compareInitiative(a: InitiativeEntry, b: InitiativeEntry): number {
+  if (b.total !== a.total) return b.total - a.total;
+  if (b.unit.speed !== a.unit.speed) return b.unit.speed - a.unit.speed;
+  return TEAM_TIE_ORDER[a.unit.team] - TEAM_TIE_ORDER[b.unit.team];
+}
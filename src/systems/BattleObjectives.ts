@@ -0,0 +1,247 @@
+// BattleObjectives - victory and defeat conditions from the battle config
+// Wiping out either side always ends the fight. On top of that a battle can be won by
+// surviving, reaching an exit, defeating a boss or interacting with objects, and lost
+// when a protected unit (the defeat condition's, or an ally placed with protect) goes down
+// or an interact deadline passes.
+
+import {
+  BattleConfig,
+  BattleState,
+  DefeatCondition,
+  ObjectivePlacement,
+  ReinforcementWave,
+  Side,
+  TileBounds,
+  Unit,
+  VictoryCondition,
+} from '../data/BattleTypes';
+import { isTeamDefeated } from '../entities/Unit';
+import { getDistance } from './CombatResolver';
+
+/**
+ * One on-screen objective line
+ */
+export interface ObjectiveStatus {
+  kind: 'victory' | 'defeat';
+  label: string; // e.g. "Survive 5 rounds"
+  progress?: string; // e.g. "2/5"
+  met: boolean; // Victory reached, or defeat triggered
+}
+
+export function getVictoryCondition(config: BattleConfig): VictoryCondition {
+  return config.victoryCondition ?? 'defeat_all';
+}
+
+export function getDefeatCondition(config: BattleConfig): DefeatCondition {
+  return config.defeatCondition ?? 'all_heroes_down';
+}
+
+/**
+ * Check objective references against the battle's unit IDs (reinforcement waves included)
+ * Returns one message per problem (empty if valid)
+ */
+export function validateObjectives(config: BattleConfig, unitIds: string[]): string[] {
+  const errors: string[] = [];
+  const requireUnit = (unitId: string, condition: string) => {
+    if (!unitIds.includes(unitId)) {
+      errors.push(`${config.id}.${condition}: no unit with id "${unitId}"`);
+    }
+  };
+
+  const victory = getVictoryCondition(config);
+  if (victory !== 'defeat_all') {
+    switch (victory.type) {
+      case 'survive':
+        if (victory.rounds < 1) {
+          errors.push(`${config.id}.victoryCondition: survive needs at least 1 round`);
+        }
+        break;
+      case 'defeat_boss':
+        requireUnit(victory.unitId, 'victoryCondition');
+        break;
+      case 'interact':
+        if (victory.count < 1 || victory.count > victory.objects.length) {
+          errors.push(`${config.id}.victoryCondition: interact count must be 1-${victory.objects.length}`);
+        }
+        break;
+      case 'reach_exit':
+        break;
+    }
+  }
+
+  const defeat = getDefeatCondition(config);
+  if (defeat !== 'all_heroes_down') {
+    requireUnit(defeat.unitId, 'defeatCondition');
+  }
+
+  return errors;
+}
+
+/**
+ * Which team has won, or null while the battle goes on
+ */
+export function evaluateBattleEnd(state: BattleState): Side | null {
+  if (areEnemiesWipedOut(state)) return 'hero';
+  if (isTeamDefeated(state.units, 'hero')) return 'enemy';
+  if (isDefeatConditionMet(state)) return 'enemy';
+  if (isVictoryConditionMet(state)) return 'hero';
+  return null;
+}
+
+/**
+ * Objective lines for the battle HUD
+ */
+export function describeObjectives(state: BattleState): ObjectiveStatus[] {
+  const victory = getVictoryCondition(state.config);
+  const defeat = getDefeatCondition(state.config);
+  const met = isVictoryConditionMet(state);
+  const objectives: ObjectiveStatus[] = [];
+
+  if (victory === 'defeat_all') {
+    // Enemies that fled or surrendered count as defeated, and waves still to come count too
+    const enemies = [...state.units, ...state.routedUnits].filter(u => u.team === 'enemy' && !u.summon);
+    const defeated = enemies.filter(u => u.isUnconscious || state.routedUnits.includes(u)).length;
+    const total = enemies.length + getPendingWaves(state).reduce((count, wave) => count + wave.enemies.length, 0);
+    objectives.push({ kind: 'victory', label: 'Defeat all enemies', progress: `${defeated}/${total}`, met });
+  } else {
+    switch (victory.type) {
+      case 'survive':
+        objectives.push({
+          kind: 'victory',
+          label: `Survive ${victory.rounds} rounds`,
+          progress: `${Math.min(state.roundsCompleted, victory.rounds)}/${victory.rounds}`,
+          met,
+        });
+        break;
+
+      case 'reach_exit': {
+        const living = getLivingHeroes(state.units);
+        const atExit = living.filter(u => isInBounds(u, victory.bounds)).length;
+        objectives.push({
+          kind: 'victory',
+          label: victory.heroes === 'all' ? 'Get all heroes to the exit' : 'Get a hero to the exit',
+          progress: victory.heroes === 'all' ? `${atExit}/${living.length}` : undefined,
+          met,
+        });
+        break;
+      }
+
+      case 'defeat_boss': {
+        const boss = [...state.units, ...state.routedUnits].find(u => u.id === victory.unitId);
+        objectives.push({ kind: 'victory', label: `Defeat ${boss?.name ?? victory.unitId}`, met });
+        break;
+      }
+
+      case 'interact':
+        objectives.push({
+          kind: 'victory',
+          label: `Interact with ${victory.count} objects before round ${victory.beforeRound}`,
+          progress: `${Math.min(getInteractedCount(state, victory.objects), victory.count)}/${victory.count}`,
+          met,
+        });
+        break;
+    }
+  }
+
+  if (defeat !== 'all_heroes_down') {
+    const unit = state.units.find(u => u.id === defeat.unitId);
+    objectives.push({ kind: 'defeat', label: `Keep ${unit?.name ?? defeat.unitId} alive`, met: !!unit?.isUnconscious });
+  }
+
+  for (const ally of getProtectedAllies(state.units)) {
+    if (defeat !== 'all_heroes_down' && ally.id === defeat.unitId) continue;
+    objectives.push({ kind: 'defeat', label: `Keep ${ally.name} alive`, met: ally.isUnconscious });
+  }
+
+  return objectives;
+}
+
+/**
+ * Interact objective objects still to be used (empty if the battle has none)
+ */
+export function getRemainingObjectiveObjects(state: BattleState): ObjectivePlacement[] {
+  const victory = getVictoryCondition(state.config);
+  if (victory === 'defeat_all' || victory.type !== 'interact') return [];
+  return victory.objects.filter(o => !state.interactedObjects.includes(o.id));
+}
+
+/**
+ * Remaining objects a unit is standing on or next to
+ */
+export function getInteractableObjects(state: BattleState, unit: Unit): ObjectivePlacement[] {
+  return getRemainingObjectiveObjects(state).filter(o =>
+    getDistance(unit.gridX, unit.gridY, o.x, o.y) <= 1
+  );
+}
+
+/**
+ * Every enemy is down or out of play, and no reinforcement wave is still to come
+ */
+function areEnemiesWipedOut(state: BattleState): boolean {
+  return getPendingWaves(state).length === 0 && isTeamDefeated(state.units, 'enemy');
+}
+
+function getPendingWaves(state: BattleState): ReinforcementWave[] {
+  return (state.config.reinforcements ?? []).filter(wave => !state.arrivedWaves.includes(wave.id));
+}
+
+function isVictoryConditionMet(state: BattleState): boolean {
+  const victory = getVictoryCondition(state.config);
+  if (victory === 'defeat_all') {
+    return areEnemiesWipedOut(state);
+  }
+
+  switch (victory.type) {
+    case 'survive':
+      return state.roundsCompleted >= victory.rounds;
+
+    case 'reach_exit': {
+      const living = getLivingHeroes(state.units);
+      const atExit = living.filter(u => isInBounds(u, victory.bounds));
+      return victory.heroes === 'all'
+        ? living.length > 0 && atExit.length === living.length
+        : atExit.length > 0;
+    }
+
+    case 'defeat_boss':
+      return !!state.units.find(u => u.id === victory.unitId)?.isUnconscious ||
+        state.routedUnits.some(u => u.id === victory.unitId);
+
+    case 'interact':
+      return getInteractedCount(state, victory.objects) >= victory.count;
+  }
+}
+
+function isDefeatConditionMet(state: BattleState): boolean {
+  const defeat = getDefeatCondition(state.config);
+  if (defeat !== 'all_heroes_down' && state.units.find(u => u.id === defeat.unitId)?.isUnconscious) {
+    return true;
+  }
+  if (getProtectedAllies(state.units).some(u => u.isUnconscious)) {
+    return true;
+  }
+
+  // Interact objectives fail once the last round before the deadline ends
+  const victory = getVictoryCondition(state.config);
+  if (victory !== 'defeat_all' && victory.type === 'interact') {
+    return state.roundsCompleted >= victory.beforeRound - 1 && !isVictoryConditionMet(state);
+  }
+
+  return false;
+}
+
+function isInBounds(unit: Unit, bounds: TileBounds): boolean {
+  return unit.gridX >= bounds.x1 && unit.gridX <= bounds.x2 && unit.gridY >= bounds.y1 && unit.gridY <= bounds.y2;
+}
+
+function getLivingHeroes(units: Unit[]): Unit[] {
+  return units.filter(u => u.team === 'hero' && !u.summon && !u.isUnconscious);
+}
+
+function getProtectedAllies(units: Unit[]): Unit[] {
+  return units.filter(u => u.team === 'ally' && u.protect);
+}
+
+function getInteractedCount(state: BattleState, objects: ObjectivePlacement[]): number {
+  return objects.filter(o => state.interactedObjects.includes(o.id)).length;
+}
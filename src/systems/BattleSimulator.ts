@@ -0,0 +1,486 @@
+// BattleSimulator - headless battle runner for balance testing
+// Drives BattleEngine (the same rules BattleScene uses) with AI or scripted hero policies
+// and no Phaser dependency, so it can run under Node from the command line.
+// Not simulated: consumable items, heroes fight without equipment, and heroes never head
+// for exit or interact objectives.
+
+import {
+  Ability,
+  AIDifficulty,
+  BattleConfig,
+  EnemyData,
+  EnemyPlacement,
+  HeroData,
+  Position,
+  Side,
+  Unit,
+  Zone,
+} from '../data/BattleTypes';
+import { GridManager } from './GridManager';
+import { AIController, AIDecision } from './AIController';
+import { BattleEngine, MOVEMENT_RANGE } from './BattleEngine';
+import { getTriggersAfterAbility, getTriggersBeforeAbility, ReactionWindow } from './Reactions';
+import { getEscapeTiles } from './Morale';
+import { XPTracker } from './XPTracker';
+import { HeroState, SaveManager } from './SaveManager';
+import { resetRandomSource, seedDice } from './DiceRoller';
+import { hasLineOfSight } from './CombatResolver';
+import { areAllied, buildEnemyUnit, buildHeroUnit } from '../entities/Unit';
+
+// Battles still running after this many rounds count as a draw
+const DEFAULT_MAX_ROUNDS = 50;
+
+// Hero party order used by BattleScene.placeHeroes
+const DEFAULT_PARTY = ['arden', 'quin', 'veil', 'ty', 'thorn'];
+
+/**
+ * Everything the simulator needs - the parsed JSON data files
+ */
+export interface SimulationData {
+  battle: BattleConfig;
+  heroes: Record<string, HeroData>;
+  enemies: Record<string, EnemyData>;
+  abilities: Record<string, Ability>;
+  summons: Record<string, EnemyData>; // Units summon abilities bring in, by template ID
+  allies: Record<string, EnemyData>; // AI-controlled units on the heroes' side
+}
+
+/**
+ * Decides a hero's next action, with the same contract as AIController.decideAction
+ */
+export interface HeroPolicy {
+  decideAction(
+    unit: Unit,
+    allUnits: Unit[],
+    hasMoved: boolean,
+    hasActed: boolean,
+    round: number,
+    zones: Zone[]
+  ): AIDecision;
+}
+
+// Built-in hero policies:
+//   ai           - heroes use the enemy AIController logic (at normal difficulty) against the enemy team
+//   basic_attack - heroes close in and use their first free attack on the nearest enemy
+export type HeroPolicyName = 'ai' | 'basic_attack';
+
+export interface SimulationOptions {
+  heroLevel?: number; // Defaults to the battle's heroLevel, then 1
+  heroPolicy?: HeroPolicyName | HeroPolicy;
+  maxRounds?: number;
+  party?: string[]; // Hero IDs in placement order
+  difficulty?: AIDifficulty; // Enemy and ally AI difficulty (default: the battle's aiDifficulty, then 'normal')
+}
+
+export interface BattleSimulationResult {
+  seed: number;
+  winner: 'hero' | 'enemy' | 'draw';
+  rounds: number;
+  enemiesRouted: number; // Enemies that fled or surrendered
+  damageByHero: Record<string, number>;
+  xpByHero: Record<string, number>;
+}
+
+export interface SimulationSummary {
+  battleId: string;
+  runs: number;
+  heroLevel: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  winRate: number;
+  averageRounds: number;
+  averageEnemiesRouted: number;
+  averageDamageByHero: Record<string, number>;
+  averageXPByHero: Record<string, number>;
+}
+
+/**
+ * Run a single seeded battle to completion
+ */
+export function simulateBattle(
+  data: SimulationData,
+  seed: number,
+  options: SimulationOptions = {}
+): BattleSimulationResult {
+  seedDice(seed);
+  try {
+    return new HeadlessBattle(data, options, seed).run();
+  } finally {
+    resetRandomSource();
+  }
+}
+
+/**
+ * Run N seeded battles (seeds baseSeed, baseSeed+1, ...) and aggregate the results
+ */
+export function runSimulations(
+  data: SimulationData,
+  runs: number,
+  options: SimulationOptions & { baseSeed?: number } = {}
+): SimulationSummary {
+  if (!data.battle.enemies || data.battle.enemies.length === 0) {
+    throw new Error(`Battle "${data.battle.id}" has no enemies to simulate`);
+  }
+
+  const baseSeed = options.baseSeed ?? 1;
+  const results: BattleSimulationResult[] = [];
+
+  for (let i = 0; i < runs; i++) {
+    results.push(simulateBattle(data, baseSeed + i, options));
+  }
+
+  const wins = results.filter(r => r.winner === 'hero').length;
+  const losses = results.filter(r => r.winner === 'enemy').length;
+
+  return {
+    battleId: data.battle.id,
+    runs,
+    heroLevel: resolveHeroLevel(data, options),
+    wins,
+    losses,
+    draws: runs - wins - losses,
+    winRate: runs > 0 ? wins / runs : 0,
+    averageRounds: average(results.map(r => r.rounds)),
+    averageEnemiesRouted: average(results.map(r => r.enemiesRouted)),
+    averageDamageByHero: averageByKey(results.map(r => r.damageByHero)),
+    averageXPByHero: averageByKey(results.map(r => r.xpByHero)),
+  };
+}
+
+/**
+ * Scripted hero policy: move toward the nearest enemy and use the first free attack when in range
+ */
+class BasicAttackPolicy implements HeroPolicy {
+  private gridManager: GridManager;
+  private abilities: Record<string, Ability>;
+
+  constructor(gridManager: GridManager, abilities: Record<string, Ability>) {
+    this.gridManager = gridManager;
+    this.abilities = abilities;
+  }
+
+  decideAction(unit: Unit, allUnits: Unit[], hasMoved: boolean, hasActed: boolean): AIDecision {
+    const targets = allUnits
+      .filter(u => !areAllied(u, unit) && !u.isUnconscious)
+      .sort((a, b) => distance(unit, a) - distance(unit, b));
+    if (targets.length === 0) return { action: 'wait' };
+
+    const attack = unit.abilities
+      .map(id => this.abilities[id])
+      .find(a => a && a.type === 'attack' && a.cost === 0 && !a.reaction);
+    if (!attack) return { action: 'wait' };
+
+    const nearest = targets[0];
+    if (!hasActed && distance(unit, nearest) <= attack.range && hasLineOfSight(unit, nearest, this.gridManager)) {
+      return { action: 'attack', targetUnit: nearest, ability: attack };
+    }
+
+    if (!hasMoved) {
+      const reachable = this.gridManager.getMovementRange(unit.gridX, unit.gridY, MOVEMENT_RANGE, unit);
+      let best: { x: number; y: number } | null = null;
+      let bestDistance = distance(unit, nearest);
+      for (const pos of reachable) {
+        const d = Math.abs(pos.x - nearest.gridX) + Math.abs(pos.y - nearest.gridY);
+        if (d < bestDistance) {
+          bestDistance = d;
+          best = pos;
+        }
+      }
+      if (best) return { action: 'move', targetPosition: best };
+    }
+
+    return { action: 'wait' };
+  }
+}
+
+/**
+ * One battle instance - drives BattleEngine through the same turn loop as BattleScene,
+ * without any timers or display
+ */
+class HeadlessBattle {
+  private data: SimulationData;
+  private options: SimulationOptions;
+  private gridManager: GridManager;
+  private aiController: AIController;
+  private heroPolicy: HeroPolicy;
+  private xpTracker: XPTracker;
+  private engine: BattleEngine;
+  private units: Unit[] = [];
+  private damageByHero: Record<string, number> = {};
+
+  constructor(data: SimulationData, options: SimulationOptions, seed: number) {
+    this.data = data;
+    this.options = options;
+
+    const battle = data.battle;
+    this.gridManager = new GridManager(battle.terrain, battle.gridWidth, battle.gridHeight, battle.elevation);
+    for (const prop of battle.props ?? []) {
+      if (prop.cover) this.gridManager.setCover(prop.x, prop.y);
+    }
+    this.aiController = new AIController(
+      this.gridManager,
+      data.abilities,
+      battle.zoneOfControl,
+      options.difficulty ?? battle.aiDifficulty,
+      battle.enemyGroups,
+      getEscapeTiles(battle)
+    );
+
+    const heroState = SaveManager.createHeroStateAtLevel(resolveHeroLevel(data, options));
+    this.xpTracker = new XPTracker(heroState);
+
+    const policy = options.heroPolicy ?? 'ai';
+    if (policy === 'ai') {
+      // Heroes always plan at normal difficulty, so the difficulty option only changes the enemy side
+      this.heroPolicy = new AIController(this.gridManager, data.abilities, battle.zoneOfControl);
+    } else if (policy === 'basic_attack') {
+      this.heroPolicy = new BasicAttackPolicy(this.gridManager, data.abilities);
+    } else {
+      this.heroPolicy = policy;
+    }
+
+    this.placeHeroes(heroState);
+    this.placeAllies();
+    this.placeEnemies();
+
+    this.engine = new BattleEngine(battle, this.units, this.gridManager, {
+      seed,
+      xpTracker: this.xpTracker,
+      spawnEnemy: (placement, instanceId) => this.createEnemy(placement, instanceId),
+      spawnSummon: (templateId, position, instanceId) => this.createSummon(templateId, position, instanceId),
+      abilities: data.abilities,
+    });
+    this.engine.on('damage', (event) => {
+      const { source } = event;
+      if ((source.kind === 'ability' || source.kind === 'collision') && source.unit.team === 'hero' && !source.unit.summon) {
+        const heroId = source.unit.dataId;
+        this.damageByHero[heroId] = (this.damageByHero[heroId] ?? 0) + event.amount;
+      }
+    });
+  }
+
+  run(): BattleSimulationResult {
+    const maxRounds = this.options.maxRounds ?? DEFAULT_MAX_ROUNDS;
+    let winner = this.engine.checkBattleEnd();
+
+    while (!winner && this.engine.state.round < maxRounds) {
+      winner = this.playRound();
+    }
+
+    return {
+      seed: this.engine.state.seed,
+      winner: winner ?? 'draw',
+      rounds: this.engine.state.round,
+      enemiesRouted: this.engine.state.routedUnits.length,
+      damageByHero: { ...this.damageByHero },
+      xpByHero: this.xpTracker.getAllBattleXP(),
+    };
+  }
+
+  private placeHeroes(heroState: Record<string, HeroState>): void {
+    const party = this.options.party ?? DEFAULT_PARTY;
+    const positions = this.data.battle.heroStartPositions;
+    if (!positions || positions.length === 0) {
+      throw new Error(`Battle "${this.data.battle.id}" has no heroStartPositions to place heroes on`);
+    }
+    const level = resolveHeroLevel(this.data, this.options);
+
+    party.forEach((heroId, index) => {
+      if (index >= positions.length) return;
+      const heroData = this.data.heroes[heroId];
+      if (!heroData) {
+        throw new Error(`Hero data not found for: ${heroId}`);
+      }
+
+      const unit = buildHeroUnit(heroData, positions[index].x, positions[index].y);
+
+      // Level scaling, as BattleScene applies from saved hero state
+      unit.maxHp = SaveManager.getMaxHp(heroId, level);
+      unit.currentHp = heroState[heroId]?.currentHp ?? unit.maxHp;
+      const maxMana = SaveManager.getMaxMana(heroId, level);
+      if (maxMana !== null && unit.maxMana !== undefined) {
+        unit.maxMana = maxMana;
+        unit.currentMana = maxMana;
+      }
+      if (heroId === 'veil') {
+        unit.maxKi = SaveManager.getMaxKi(level);
+        unit.currentKi = unit.maxKi;
+      }
+
+      // Only abilities the hero has unlocked at this level
+      unit.abilities = heroData.abilities.filter(
+        id => (this.data.abilities[id]?.levelRequired ?? 1) <= level
+      );
+
+      this.damageByHero[heroId] = 0;
+      this.addUnit(unit);
+    });
+  }
+
+  private placeAllies(): void {
+    const instanceCounts: Record<string, number> = {};
+
+    (this.data.battle.allies ?? []).forEach((placement) => {
+      instanceCounts[placement.type] = (instanceCounts[placement.type] || 0) + 1;
+      const allyData = this.data.allies[placement.type];
+      if (!allyData) {
+        throw new Error(`Ally data not found for: ${placement.type}`);
+      }
+
+      const unit = buildEnemyUnit(allyData, `${placement.type}_${instanceCounts[placement.type]}`, placement.x, placement.y);
+      unit.team = 'ally';
+      unit.protect = placement.protect;
+      this.addUnit(unit);
+    });
+  }
+
+  private placeEnemies(): void {
+    const instanceCounts: Record<string, number> = {};
+
+    this.data.battle.enemies.forEach((placement) => {
+      instanceCounts[placement.type] = (instanceCounts[placement.type] || 0) + 1;
+      const instanceId = `${placement.type}_${instanceCounts[placement.type]}`;
+      this.addUnit(this.createEnemy(placement, instanceId));
+    });
+  }
+
+  /**
+   * Build an enemy unit - also the engine's factory for reinforcements, which it places itself
+   */
+  private createEnemy(placement: EnemyPlacement, instanceId: string): Unit {
+    const enemyData = this.data.enemies[placement.type];
+    if (!enemyData) {
+      throw new Error(`Enemy data not found for: ${placement.type}`);
+    }
+    return buildEnemyUnit(enemyData, instanceId, placement.x, placement.y);
+  }
+
+  /**
+   * Build a summoned unit - the engine sets its team and places it
+   */
+  private createSummon(templateId: string, position: Position, instanceId: string): Unit {
+    const template = this.data.summons[templateId];
+    if (!template) {
+      throw new Error(`Summon data not found for: ${templateId}`);
+    }
+    return buildEnemyUnit(template, instanceId, position.x, position.y);
+  }
+
+  private addUnit(unit: Unit): void {
+    this.units.push(unit);
+    this.gridManager.placeUnit(unit, unit.gridX, unit.gridY);
+  }
+
+  private playRound(): Side | null {
+    this.engine.startRound();
+
+    let unit = this.engine.nextTurn();
+    while (unit) {
+      this.playTurn(unit);
+      const winner = this.engine.checkBattleEnd();
+      if (winner) return winner;
+
+      this.engine.endTurn();
+      unit = this.engine.nextTurn();
+    }
+
+    return this.engine.endRound();
+  }
+
+  private playTurn(unit: Unit): void {
+    if (!this.engine.beginTurn(unit).canAct) return;
+
+    const policy = unit.team === 'hero' ? this.heroPolicy : this.aiController;
+    let hasMoved = false;
+    let hasActed = false;
+
+    // Move/act loop, as in BattleScene.executeEnemyAI
+    for (let step = 0; step < 4; step++) {
+      const decision = policy.decideAction(unit, this.units, hasMoved, hasActed, this.engine.state.round, this.engine.state.zones);
+
+      if (decision.action === 'move' && decision.targetPosition && !hasMoved) {
+        hasMoved = true;
+        this.engine.execute({ type: 'move', unit, x: decision.targetPosition.x, y: decision.targetPosition.y });
+        if (!this.engine.isInPlay(unit)) return;
+      } else if ((decision.action === 'attack' || decision.action === 'ability') &&
+                 (decision.targetUnit || decision.targetPosition) && decision.ability && !hasActed) {
+        hasActed = true;
+        this.useAbility(unit, decision.ability, decision.targetUnit, decision.targetPosition);
+        if (this.engine.checkBattleEnd() || !this.engine.isInPlay(unit)) return;
+      } else {
+        this.engine.execute({ type: 'wait', unit });
+        return;
+      }
+    }
+  }
+
+  /**
+   * Area abilities are centered on the primary target and hit every opponent inside;
+   * summons go on the chosen tile
+   * The other side takes every reaction it's offered, as a player saying yes would
+   */
+  private useAbility(unit: Unit, ability: Ability, primaryTarget?: Unit, tile?: Position): void {
+    if (ability.effect?.type === 'summon' && tile) {
+      const area = { originX: tile.x, originY: tile.y, width: 1, height: 1 };
+      this.engine.execute({ type: 'ability', unit, ability, targets: [], area });
+      return;
+    }
+    if (!primaryTarget) return;
+
+    const area = ability.targetType === 'area' && ability.areaSize
+      ? this.engine.getAreaAroundTarget(ability, primaryTarget)
+      : undefined;
+    const targets = area
+      ? this.engine.getUnitsInArea(area).filter(u => !areAllied(u, unit))
+      : [primaryTarget];
+
+    const countered = this.takeReactions(getTriggersBeforeAbility(unit, ability, targets), unit);
+    const outcome = this.engine.execute({ type: 'ability', unit, ability, targets, area, countered });
+    this.takeReactions(getTriggersAfterAbility(outcome), unit);
+  }
+
+  /**
+   * Use the first hero reaction offered for each trigger (only heroes react, as in
+   * BattleScene) - returns the targets a Counterspell protects
+   */
+  private takeReactions(windows: ReactionWindow[], source: Unit): Unit[] {
+    const countered: Unit[] = [];
+    for (const window of windows) {
+      const reaction = this.engine.getReactions(window.trigger, source, window.subject)
+        .find(reaction => reaction.unit.team === 'hero');
+      if (!reaction) continue;
+
+      this.engine.execute({ type: 'reaction', reaction });
+      if (reaction.ability.reaction?.counters) {
+        countered.push(window.subject);
+      }
+    }
+    return countered;
+  }
+}
+
+function resolveHeroLevel(data: SimulationData, options: SimulationOptions): number {
+  return options.heroLevel ?? data.battle.heroLevel ?? 1;
+}
+
+function distance(a: Unit, b: Unit): number {
+  return Math.abs(a.gridX - b.gridX) + Math.abs(a.gridY - b.gridY);
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function averageByKey(records: Record<string, number>[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const record of records) {
+    for (const [key, value] of Object.entries(record)) {
+      totals[key] = (totals[key] ?? 0) + value;
+    }
+  }
+  for (const key of Object.keys(totals)) {
+    totals[key] /= records.length;
+  }
+  return totals;
+}
@@ -1,9 +1,14 @@
 import {
   Unit,
   Ability,
+  AttackAngle,
+  ForcedMovement,
+  Position,
   AttackResult,
   SpellResult,
   StatusEffect,
+  RollMode,
+  RollModifier,
 } from '../data/BattleTypes';
 import { rollAttack, rollDamage, rollSave, rollDice } from './DiceRoller';
 import {
@@ -16,32 +21,186 @@ import {
   getEffectiveAttack,
   getEffectiveDamageBonus,
   getEffectiveResilience,
+  getDiceStatContext,
+  breakStatusEffects,
+  avoidsOpportunityAttacks,
+  getTurnSkippingEffect,
+  getClosestTile,
+  getFootprint,
+  getUnitSize,
+  occupiesTile,
+  areAllied,
 } from '../entities/Unit';
+import { isNegativeStatus, isStatusEffectType } from './StatusEffectRegistry';
+import { GridManager } from './GridManager';
+
+// Defense bonus for a defender in partial cover against a ranged attack
+export const COVER_DEFENSE_BONUS = 2;
+
+// Attacking a lower target: bonus to hit, and extra reach for ranged abilities
+export const HIGH_GROUND_ATTACK_BONUS = 1;
+export const HIGH_GROUND_RANGE_BONUS = 1;
+
+// Bonus to hit a unit from its side, or from behind
+export const SIDE_ATTACK_BONUS = 1;
+export const REAR_ATTACK_BONUS = 2;
+
+const FACING_VECTORS: Record<Unit['facing'], Position> = {
+  north: { x: 0, y: -1 },
+  south: { x: 0, y: 1 },
+  east: { x: 1, y: 0 },
+  west: { x: -1, y: 0 },
+};
+
+// Damage when a pushed or pulled unit is stopped by a wall or another unit
+export const COLLISION_DAMAGE = '1d4';
+
+// A free melee attack provoked by leaving an enemy's reach - the mover is attacked
+// on the tile it's leaving, just before stepping onto path[stepIndex]
+export interface OpportunityAttack {
+  attacker: Unit;
+  ability: Ability;
+  stepIndex: number;
+}
+
+// Where a push or pull takes its target - blockedBy is the wall or unit that stopped it short
+// (null if it moved the full distance, or a pull stopped next to the user)
+export interface ForcedMovePlan {
+  path: Position[];
+  blockedBy: 'wall' | Unit | null;
+}
 
 /**
  * Combat Resolution System
  * Handles all attack rolls, damage calculations, spell saves, and combat effects
  */
 
+// =============================================================================
+// Roll Modifiers (advantage / disadvantage)
+// =============================================================================
+
+interface AttackContext {
+  attacker: Unit;
+  defender: Unit;
+  ability: Ability;
+  units: Unit[]; // Everyone on the field, for positional rules like flanking
+}
+
+type RollModifierRule = (context: AttackContext) => RollModifier | null;
+
+/**
+ * Each rule grants advantage or disadvantage on an attack roll (or nothing)
+ * Add new sources here - resolveAttack picks them up automatically
+ */
+const ATTACK_MODIFIER_RULES: RollModifierRule[] = [
+  // Attacking from hiding
+  ({ attacker }) =>
+    hasStatusEffect(attacker, 'hidden') ? { source: 'Hidden', effect: 'advantage' } : null,
+
+  // Target's defenses have been exposed
+  ({ defender }) =>
+    hasStatusEffect(defender, 'exposed') ? { source: 'Target exposed', effect: 'advantage' } : null,
+
+  // Target can't move to avoid the blow
+  ({ defender }) =>
+    hasStatusEffect(defender, 'held') ? { source: 'Target held', effect: 'advantage' } : null,
+
+  // Attacker is struggling against a hold
+  ({ attacker }) =>
+    hasStatusEffect(attacker, 'held') ? { source: 'Held', effect: 'disadvantage' } : null,
+
+  // Melee attack with an ally standing directly behind the target
+  ({ attacker, defender, units }) =>
+    isFlanking(attacker, defender, units) ? { source: 'Flanking', effect: 'advantage' } : null,
+];
+
+/**
+ * Check if an ally of the attacker is on the opposite side of the defender
+ */
+export function isFlanking(attacker: Unit, defender: Unit, units: Unit[]): boolean {
+  if (getUnitDistance(attacker, defender) !== 1) return false;
+
+  // Straight across the defender's footprint from the attacker's nearest tile
+  const { from, to } = getSightTiles(attacker, defender);
+  const across = getUnitSize(defender) + 1;
+  const flankX = from.x + (to.x - from.x) * across;
+  const flankY = from.y + (to.y - from.y) * across;
+
+  return units.some(
+    (u) =>
+      u !== attacker &&
+      areAllied(u, attacker) &&
+      !u.isUnconscious &&
+      occupiesTile(u, flankX, flankY)
+  );
+}
+
+/**
+ * Collect every advantage/disadvantage source that applies to an attack
+ */
+export function getAttackModifiers(
+  attacker: Unit,
+  defender: Unit,
+  ability: Ability,
+  units: Unit[] = []
+): RollModifier[] {
+  const context: AttackContext = { attacker, defender, ability, units };
+  return ATTACK_MODIFIER_RULES
+    .map((rule) => rule(context))
+    .filter((modifier): modifier is RollModifier => modifier !== null);
+}
+
+/**
+ * Net roll mode - any advantage and any disadvantage cancel out
+ */
+export function getRollMode(modifiers: RollModifier[]): RollMode {
+  const advantage = modifiers.some((m) => m.effect === 'advantage');
+  const disadvantage = modifiers.some((m) => m.effect === 'disadvantage');
+  if (advantage && !disadvantage) return 'advantage';
+  if (disadvantage && !advantage) return 'disadvantage';
+  return 'normal';
+}
+
+// =============================================================================
+// Attack Resolution
+// =============================================================================
+
 /**
  * Resolve a physical attack (type: 'attack')
  * Attack roll: d20 + attacker.attack vs defender.defense
+ * Natural 20 always hits and doubles the damage dice, natural 1 always misses
+ * Ranged attacks against a defender in partial cover add COVER_DEFENSE_BONUS to DEF,
+ * attacking from higher ground adds HIGH_GROUND_ATTACK_BONUS to the roll, and striking
+ * the defender's side or back adds SIDE_ATTACK_BONUS or REAR_ATTACK_BONUS
  * On hit: roll damage dice
  */
 export function resolveAttack(
   attacker: Unit,
   defender: Unit,
-  ability: Ability
+  ability: Ability,
+  units: Unit[] = [],
+  gridManager?: GridManager
 ): AttackResult {
-  // Roll attack: d20 + effective attack modifier (includes rage/inspired bonuses)
-  const effectiveAttack = getEffectiveAttack(attacker);
-  const attackRoll = rollAttack(effectiveAttack);
-
-  // Get defender's effective defense (includes buffs/debuffs like dodge)
-  const targetNumber = getEffectiveDefense(defender);
+  // Advantage/disadvantage from statuses and positioning
+  const modifiers = getAttackModifiers(attacker, defender, ability, units);
+  const rollMode = getRollMode(modifiers);
+
+  // Roll attack: d20 + effective attack modifier (includes rage/inspired bonuses, high ground and facing)
+  const highGroundBonus = hasHighGround(attacker, defender, gridManager) ? HIGH_GROUND_ATTACK_BONUS : 0;
+  const attackAngle = getAttackAngle(attacker, defender);
+  const facingBonus = getFacingBonus(attackAngle);
+  const effectiveAttack = getEffectiveAttack(attacker) + highGroundBonus + facingBonus;
+  const attackRoll = rollAttack(effectiveAttack, rollMode);
+  const naturalRoll = attackRoll.total;
+  const critical = naturalRoll === 20;
+  const fumble = naturalRoll === 1;
+
+  // Get defender's effective defense (includes buffs/debuffs like dodge) plus any cover
+  const coverBonus = getCoverBonus(attacker, defender, gridManager);
+  const targetNumber = getEffectiveDefense(defender) + coverBonus;
 
   // Determine hit
-  const hit = (attackRoll.finalTotal || attackRoll.total) >= targetNumber;
+  const hit = !fumble && (critical || (attackRoll.finalTotal || attackRoll.total) >= targetNumber);
 
   const result: AttackResult = {
     attacker,
@@ -49,7 +208,17 @@ export function resolveAttack(
     ability,
     attackRoll,
     targetNumber,
+    coverBonus: coverBonus > 0 ? coverBonus : undefined,
+    highGroundBonus: highGroundBonus > 0 ? highGroundBonus : undefined,
+    attackAngle,
+    facingBonus: facingBonus > 0 ? facingBonus : undefined,
+    flanked: isFlanking(attacker, defender, units) || undefined,
     hit,
+    rollMode,
+    modifiers,
+    naturalRoll,
+    critical: hit && critical,
+    fumble,
   };
 
   if (hit && ability.damage) {
@@ -58,20 +227,11 @@ export function resolveAttack(
 
     // Check for bonus damage (e.g., Azrael's psychic dagger when hidden)
     if (ability.bonusDamageIfHidden && hasStatusEffect(attacker, 'hidden')) {
-      // Roll both and add
-      const baseDamage = rollDamage(ability.damage);
-      const bonusDamage = rollDamage(ability.bonusDamageIfHidden);
-
-      result.damageRoll = {
-        dice: `${ability.damage}+${ability.bonusDamageIfHidden}`,
-        rolls: [...baseDamage.rolls, ...bonusDamage.rolls],
-        total: baseDamage.total + bonusDamage.total,
-        finalTotal: baseDamage.total + bonusDamage.total,
-      };
-    } else {
-      result.damageRoll = rollDamage(damageNotation);
+      damageNotation = `${ability.damage}+${ability.bonusDamageIfHidden}`;
     }
 
+    result.damageRoll = rollDamage(damageNotation, getDiceStatContext(attacker), result.critical);
+
     result.totalDamage = result.damageRoll.finalTotal || result.damageRoll.total;
 
     // Apply permanent damage bonus from runes (Phase 10 - Permanent Upgrades)
@@ -93,17 +253,13 @@ export function resolveAttack(
     result.defenderNewHp = defender.currentHp;
     result.defenderDefeated = defender.isUnconscious;
 
-    // Breaking hidden status on attack
-    if (hasStatusEffect(attacker, 'hidden')) {
-      removeStatusEffect(attacker, 'hidden');
-    }
-
-    // Consume exposed status after being hit (it lasts for "next_attack")
-    if (hasStatusEffect(defender, 'exposed')) {
-      removeStatusEffect(defender, 'exposed');
-    }
+    // Consume effects that last until the next hit (exposed lasts for "next_attack")
+    breakStatusEffects(defender, 'hit');
   }
 
+  // Attacking reveals the attacker (hidden breaks on attack, hit or miss)
+  breakStatusEffects(attacker, 'attack');
+
   // If ability has an effect (like expose_weakness), apply it on hit
   if (hit && ability.effect && ability.type === 'attack') {
     applyAbilityEffect(defender, ability);
@@ -140,7 +296,7 @@ export function resolveSpell(
 
   // Handle damage spells
   if (ability.damage) {
-    const damageRoll = rollDamage(ability.damage);
+    const damageRoll = rollDamage(ability.damage, getDiceStatContext(caster));
     result.damageRoll = damageRoll;
 
     let totalDamage = damageRoll.finalTotal || damageRoll.total;
@@ -173,7 +329,7 @@ export function resolveSpell(
 
   // Handle effects (status conditions)
   if (ability.effect) {
-    const effectApplied = applySpellEffect(target, ability, savePassed);
+    const effectApplied = applySpellEffect(caster, target, ability, savePassed);
     if (effectApplied) {
       result.effectApplied = effectApplied;
     }
@@ -201,7 +357,7 @@ export function resolveHeal(
 
   // Handle healing
   if (ability.healing) {
-    const healingRoll = rollDice(ability.healing);
+    const healingRoll = rollDice(ability.healing, getDiceStatContext(caster));
     result.healingRoll = healingRoll;
     result.totalHealing = healingRoll.finalTotal || healingRoll.total;
 
@@ -252,23 +408,62 @@ export function resolveSelfAbility(
 function applyAbilityEffect(target: Unit, ability: Ability): void {
   if (!ability.effect) return;
 
-  const effect = ability.effect;
-
   // For debuffs like "expose_weakness"
-  if (effect.type === 'exposed') {
-    const statusEffect: StatusEffect = {
-      type: 'exposed',
-      duration: effect.duration === 'next_attack' ? 1 : (effect.duration as number) || 1,
-      value: effect.defensePenalty,
-    };
+  const statusEffect = createStatusEffect(ability, rollEffectDuration(ability.effect.duration, 1));
+  if (statusEffect) {
     addStatusEffect(target, statusEffect);
   }
 }
 
+/**
+ * Build a status effect instance from an ability's effect definition
+ * Returns undefined if the effect type isn't a registered status condition
+ */
+function createStatusEffect(
+  ability: Ability,
+  duration: number,
+  caster?: Unit
+): StatusEffect | undefined {
+  const effect = ability.effect;
+  if (!effect || !isStatusEffectType(effect.type)) return undefined;
+
+  const statusEffect: StatusEffect = {
+    type: effect.type,
+    duration,
+  };
+
+  // Per-tick damage is rolled once when applied (stat references use the caster's stats)
+  if (effect.damagePerTurn) {
+    statusEffect.value = rollDice(effect.damagePerTurn, caster ? getDiceStatContext(caster) : undefined).finalTotal;
+  } else if (effect.defenseBonus) {
+    statusEffect.value = effect.defenseBonus;
+  } else if (effect.defensePenalty) {
+    statusEffect.value = effect.defensePenalty;
+  }
+
+  if (effect.breaksOn) {
+    statusEffect.breaksOn = effect.breaksOn;
+  }
+
+  return statusEffect;
+}
+
+/**
+ * Resolve an effect duration: a number, dice notation, or "next_attack"
+ * (next_attack effects last a round and are consumed by their break condition)
+ */
+export function rollEffectDuration(duration: number | string | undefined, fallback: number): number {
+  if (typeof duration === 'number') return duration;
+  if (duration === undefined) return fallback;
+  if (duration === 'next_attack') return 1;
+  return rollDice(duration).finalTotal ?? fallback;
+}
+
 /**
  * Apply spell effects based on save result
  */
 function applySpellEffect(
+  caster: Unit,
   target: Unit,
   ability: Ability,
   savePassed: boolean
@@ -283,39 +478,17 @@ function applySpellEffect(
     if (effect.durationOnSave === undefined || effect.durationOnSave === 0) {
       return undefined; // No effect on save
     }
-    duration = typeof effect.durationOnSave === 'number'
-      ? effect.durationOnSave
-      : rollDice(effect.durationOnSave as string).total;
+    duration = rollEffectDuration(effect.durationOnSave, 0);
   } else {
-    duration = typeof effect.durationOnFail === 'number'
-      ? effect.durationOnFail
-      : effect.durationOnFail
-        ? rollDice(effect.durationOnFail as string).total
-        : 1;
-  }
-
-  const statusEffect: StatusEffect = {
-    type: effect.type as StatusEffect['type'],
-    duration,
-  };
-
-  // Add specific values for certain effects
-  if (effect.type === 'poison' && effect.damagePerTurn) {
-    // Store the damage per turn as a value (we'll parse this when applying)
-    statusEffect.value = rollDice(effect.damagePerTurn).total;
-  }
-
-  if (effect.type === 'immobilized' || effect.type === 'held') {
-    addStatusEffect(target, statusEffect);
-    return statusEffect;
+    // Debuffs without a save-specific duration (e.g. expose_weakness) use their plain duration
+    duration = rollEffectDuration(effect.durationOnFail ?? effect.duration, 1);
   }
 
-  if (effect.type === 'poison') {
-    addStatusEffect(target, statusEffect);
-    return statusEffect;
-  }
+  const statusEffect = createStatusEffect(ability, duration, caster);
+  if (!statusEffect) return undefined;
 
-  return undefined;
+  addStatusEffect(target, statusEffect);
+  return statusEffect;
 }
 
 /**
@@ -329,9 +502,7 @@ function applyBuffEffect(target: Unit, ability: Ability): StatusEffect | undefin
   // Handle status removal (Restoration)
   if (effect.type === 'remove_status') {
     // Remove the first negative status effect
-    const negativeEffects = target.statusEffects.filter(
-      (e) => ['poison', 'held', 'immobilized', 'exposed'].includes(e.type)
-    );
+    const negativeEffects = target.statusEffects.filter((e) => isNegativeStatus(e.type));
     if (negativeEffects.length > 0) {
       removeStatusEffect(target, negativeEffects[0].type);
       return { type: negativeEffects[0].type, duration: 0 }; // Return what was removed
@@ -339,25 +510,9 @@ function applyBuffEffect(target: Unit, ability: Ability): StatusEffect | undefin
     return undefined;
   }
 
-  // Calculate duration
-  let duration: number;
-  if (typeof effect.duration === 'number') {
-    duration = effect.duration;
-  } else if (typeof effect.duration === 'string') {
-    duration = rollDice(effect.duration).total;
-  } else {
-    duration = -1; // Permanent until broken
-  }
-
-  const statusEffect: StatusEffect = {
-    type: effect.type as StatusEffect['type'],
-    duration,
-  };
-
-  // Add defense bonuses
-  if (effect.defenseBonus) {
-    statusEffect.value = effect.defenseBonus;
-  }
+  // No duration means permanent until broken
+  const statusEffect = createStatusEffect(ability, rollEffectDuration(effect.duration, -1), target);
+  if (!statusEffect) return undefined;
 
   addStatusEffect(target, statusEffect);
   return statusEffect;
@@ -418,31 +573,261 @@ export function getDistance(
   return Math.abs(x2 - x1) + Math.abs(y2 - y1);
 }
 
+/**
+ * Manhattan distance between the nearest tiles of two units' footprints
+ * at: where the first unit would stand instead of its current tile
+ */
+export function getUnitDistance(unit: Unit, other: Unit, at: Position = { x: unit.gridX, y: unit.gridY }): number {
+  const size = getUnitSize(unit);
+  const otherSize = getUnitSize(other);
+  const gapX = Math.max(0, other.gridX - (at.x + size - 1), at.x - (other.gridX + otherSize - 1));
+  const gapY = Math.max(0, other.gridY - (at.y + size - 1), at.y - (other.gridY + otherSize - 1));
+  return gapX + gapY;
+}
+
+/**
+ * The pair of tiles, one under each unit, that lines of sight between them are traced along
+ */
+function getSightTiles(unit: Unit, other: Unit): { from: Position; to: Position } {
+  const to = getClosestTile(other, unit.gridX, unit.gridY);
+  const from = getClosestTile(unit, to.x, to.y);
+  return { from, to: getClosestTile(other, from.x, from.y) };
+}
+
+/**
+ * Check if a unit stands higher than its target
+ */
+export function hasHighGround(
+  attacker: Unit,
+  target: Unit,
+  gridManager?: GridManager
+): boolean {
+  if (!gridManager) return false;
+  const { from, to } = getSightTiles(attacker, target);
+  return gridManager.getElevation(from.x, from.y) > gridManager.getElevation(to.x, to.y);
+}
+
+/**
+ * Direction a unit faces after turning from one tile toward another (vertical on a tie)
+ */
+export function getFacingToward(from: Position, to: Position): Unit['facing'] {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  if (Math.abs(dx) > Math.abs(dy)) {
+    return dx > 0 ? 'east' : 'west';
+  }
+  return dy > 0 ? 'south' : 'north';
+}
+
+/**
+ * Which side of the defender an attacker stands on - diagonals ahead of the defender
+ * count as the front and diagonals behind it as the side
+ */
+export function getAttackAngle(attacker: Unit, defender: Unit): AttackAngle {
+  const facing = FACING_VECTORS[defender.facing];
+  // Measured between footprint centres, so a boss has a front as wide as itself
+  const dx = attacker.gridX + (getUnitSize(attacker) - 1) / 2 - (defender.gridX + (getUnitSize(defender) - 1) / 2);
+  const dy = attacker.gridY + (getUnitSize(attacker) - 1) / 2 - (defender.gridY + (getUnitSize(defender) - 1) / 2);
+  const ahead = dx * facing.x + dy * facing.y;
+  const across = Math.abs(dx * facing.y - dy * facing.x);
+
+  if (ahead >= across) return 'front';
+  if (-ahead > across) return 'rear';
+  return 'side';
+}
+
+/**
+ * To-hit bonus for the side of the defender an attack comes from
+ */
+export function getFacingBonus(angle: AttackAngle): number {
+  if (angle === 'rear') return REAR_ATTACK_BONUS;
+  if (angle === 'side') return SIDE_ATTACK_BONUS;
+  return 0;
+}
+
+/**
+ * Range of an ability against a tile - ranged abilities reach further down from high ground
+ */
+export function getEffectiveRange(
+  caster: Unit,
+  ability: Ability,
+  targetX: number,
+  targetY: number,
+  gridManager?: GridManager
+): number {
+  if (!gridManager || ability.range <= 1) return ability.range;
+  const higher = gridManager.getElevation(caster.gridX, caster.gridY) > gridManager.getElevation(targetX, targetY);
+  return higher ? ability.range + HIGH_GROUND_RANGE_BONUS : ability.range;
+}
+
 /**
  * Check if a target is in range of an ability
  */
 export function isInRange(
   attacker: Unit,
   target: Unit,
-  ability: Ability
+  ability: Ability,
+  gridManager?: GridManager
 ): boolean {
-  const distance = getDistance(
-    attacker.gridX,
-    attacker.gridY,
-    target.gridX,
-    target.gridY
-  );
-  return distance <= ability.range;
+  const { to } = getSightTiles(attacker, target);
+  return getUnitDistance(attacker, target) <= getEffectiveRange(attacker, ability, to.x, to.y, gridManager);
+}
+
+/**
+ * Check if walls leave a clear line of sight to a target (adjacent targets always have one)
+ */
+export function hasLineOfSight(
+  caster: Unit,
+  target: Unit,
+  gridManager: GridManager
+): boolean {
+  const { from, to } = getSightTiles(caster, target);
+  return gridManager.getLineOfSight(from.x, from.y, to.x, to.y).clear;
+}
+
+/**
+ * Why a unit can't target another with an ability - or null if it can
+ * Team and consciousness rules are left to getValidTargets
+ */
+export function getTargetBlockReason(
+  caster: Unit,
+  target: Unit,
+  ability: Ability,
+  gridManager?: GridManager
+): 'Out of range' | 'No line of sight' | null {
+  if (!isInRange(caster, target, ability, gridManager)) return 'Out of range';
+  if (gridManager && target !== caster && !hasLineOfSight(caster, target, gridManager)) {
+    return 'No line of sight';
+  }
+  return null;
+}
+
+/**
+ * Defense bonus a defender gets from partial cover against this attacker (0 in melee)
+ */
+export function getCoverBonus(
+  attacker: Unit,
+  defender: Unit,
+  gridManager?: GridManager
+): number {
+  if (!gridManager) return 0;
+  if (getUnitDistance(attacker, defender) <= 1) return 0;
+  const { from, to } = getSightTiles(attacker, defender);
+  const sight = gridManager.getLineOfSight(from.x, from.y, to.x, to.y);
+  return sight.cover ? COVER_DEFENSE_BONUS : 0;
+}
+
+/**
+ * A unit's first melee attack - the one it makes opportunity attacks with
+ */
+export function getMeleeAttack(unit: Unit, abilities: Record<string, Ability>): Ability | undefined {
+  return unit.abilities
+    .map(id => abilities[id])
+    .find(ability => !!ability && isMeleeAttack(ability) && !ability.reaction);
+}
+
+/**
+ * Physical attacks against an adjacent target
+ */
+export function isMeleeAttack(ability: Ability): boolean {
+  return ability.type === 'attack' && ability.range === 1;
+}
+
+/**
+ * Opportunity attacks a move along a path would provoke (zone of control battles)
+ * Each conscious enemy with a melee attack gets one when the mover steps from a tile next
+ * to it to a tile that isn't. Units that skip turns can't react, and dodging or disengaged
+ * movers don't provoke.
+ */
+export function getOpportunityAttacks(
+  mover: Unit,
+  path: Position[],
+  units: Unit[],
+  abilities: Record<string, Ability>
+): OpportunityAttack[] {
+  if (avoidsOpportunityAttacks(mover)) return [];
+
+  const attacks: OpportunityAttack[] = [];
+  let previous: Position = { x: mover.gridX, y: mover.gridY };
+  path.forEach((step, stepIndex) => {
+    for (const unit of units) {
+      if (areAllied(unit, mover) || unit.isUnconscious || getTurnSkippingEffect(unit)) continue;
+      if (attacks.some(attack => attack.attacker === unit)) continue;
+
+      const leavesReach = getUnitDistance(mover, unit, previous) === 1 && getUnitDistance(mover, unit, step) > 1;
+      const ability = leavesReach ? getMeleeAttack(unit, abilities) : undefined;
+      if (ability) {
+        attacks.push({ attacker: unit, ability, stepIndex });
+      }
+    }
+    previous = step;
+  });
+
+  return attacks;
+}
+
+/**
+ * Tiles a push or pull moves its target through, one step at a time along the longer axis
+ * between the two units (horizontal on a tie). Walls, ledges too high to climb and other
+ * units stop the target early, and a pull stops next to the user.
+ */
+export function planForcedMovement(
+  from: Position,
+  target: Unit,
+  forced: ForcedMovement,
+  gridManager: GridManager
+): ForcedMovePlan {
+  const near = getClosestTile(target, from.x, from.y);
+  const dx = near.x - from.x;
+  const dy = near.y - from.y;
+  const away = Math.abs(dx) >= Math.abs(dy) ? { x: Math.sign(dx), y: 0 } : { x: 0, y: Math.sign(dy) };
+  const step = forced.type === 'push' ? away : { x: -away.x, y: -away.y };
+
+  const path: Position[] = [];
+  let x = target.gridX;
+  let y = target.gridY;
+  for (let i = 0; i < forced.distance; i++) {
+    const nx = x + step.x;
+    const ny = y + step.y;
+    const leaving = getFootprint(target, x, y);
+    const entering = getFootprint(target, nx, ny);
+    if (entering.some(tile => tile.x === from.x && tile.y === from.y)) break;
+    const hitsWall = entering.some((tile, t) =>
+      !gridManager.isValidPosition(tile.x, tile.y) ||
+      !gridManager.isWalkable(tile.x, tile.y, target.flying) ||
+      !gridManager.canStep(leaving[t].x, leaving[t].y, tile.x, tile.y, target.flying)
+    );
+    if (hitsWall) {
+      return { path, blockedBy: 'wall' };
+    }
+
+    const occupant = entering
+      .map(tile => gridManager.getUnitAt(tile.x, tile.y))
+      .find(unit => unit && unit !== target);
+    if (occupant) {
+      return { path, blockedBy: occupant };
+    }
+
+    path.push({ x: nx, y: ny });
+    x = nx;
+    y = ny;
+  }
+
+  return { path, blockedBy: null };
 }
 
 /**
  * Get all valid targets for an ability
+ * With a grid manager, targets behind walls are excluded
  */
 export function getValidTargets(
   caster: Unit,
   ability: Ability,
-  allUnits: Unit[]
+  allUnits: Unit[],
+  gridManager?: GridManager
 ): Unit[] {
+  const canReach = (target: Unit) => getTargetBlockReason(caster, target, ability, gridManager) === null;
+
   return allUnits.filter((target) => {
     // Check target type
     if (ability.targetType === 'self') {
@@ -454,24 +839,40 @@ export function getValidTargets(
     if (ability.targetType === 'enemy') {
       // Enemy targeting: skip unconscious enemies (can't attack downed foes)
       if (target.isUnconscious) return false;
-      return target.team !== caster.team && isInRange(caster, target, ability);
+      return !areAllied(target, caster) && canReach(target);
     }
 
     if (ability.targetType === 'ally') {
       // Ally targeting (heals/buffs): ALLOW unconscious allies for revival!
-      return target.team === caster.team && isInRange(caster, target, ability);
+      return areAllied(target, caster) && canReach(target);
     }
 
     if (ability.targetType === 'area') {
       // For area abilities, we return enemies in range (the area selection is separate)
       if (target.isUnconscious) return false;
-      return target.team !== caster.team && isInRange(caster, target, ability);
+      return !areAllied(target, caster) && canReach(target);
     }
 
     return false;
   });
 }
 
+/**
+ * "Backstab!" or "Flanked!" callouts for an attack, with any facing bonus - or null if neither applied
+ */
+export function formatAttackPosition(result: AttackResult): string | null {
+  const parts: string[] = [];
+  if (result.attackAngle === 'rear') {
+    parts.push(`Backstab! (+${result.facingBonus} ATK)`);
+  } else if (result.attackAngle === 'side') {
+    parts.push(`Side attack (+${result.facingBonus} ATK)`);
+  }
+  if (result.flanked) {
+    parts.push('Flanked!');
+  }
+  return parts.length > 0 ? parts.join(' ') : null;
+}
+
 /**
  * Format combat result for display
  */
@@ -479,10 +880,29 @@ export function formatAttackResult(result: AttackResult): string {
   const { attacker, defender, ability, attackRoll, targetNumber, hit } = result;
 
   let text = `${attacker.name} uses ${ability.name} on ${defender.name}!\n`;
-  text += `Attack: ${attackRoll.rolls[0]} + ${attacker.attack} = ${attackRoll.finalTotal} vs DEF ${targetNumber}\n`;
+  text += `Attack: ${formatAttackDice(result)} + ${attackRoll.modifier ?? 0} = ${attackRoll.finalTotal} vs DEF ${targetNumber}\n`;
+
+  const modifierText = formatAttackModifiers(result);
+  if (modifierText) {
+    text += `${modifierText}\n`;
+  }
+  if (result.highGroundBonus) {
+    text += `High ground (+${result.highGroundBonus} ATK)\n`;
+  }
+  const positionText = formatAttackPosition(result);
+  if (positionText) {
+    text += `${positionText}\n`;
+  }
+  if (result.coverBonus) {
+    text += `${defender.name} is in cover (+${result.coverBonus} DEF)\n`;
+  }
+
+  if (result.fumble) {
+    text += `Natural 1! `;
+  }
 
   if (hit) {
-    text += `HIT! `;
+    text += result.critical ? `CRITICAL HIT! ` : `HIT! `;
     if (result.damageRoll) {
       text += `Damage: ${result.totalDamage}\n`;
     }
@@ -496,6 +916,36 @@ export function formatAttackResult(result: AttackResult): string {
   return text;
 }
 
+/**
+ * Format the d20(s) behind an attack, e.g. "17" or "17 (17, 4)" with advantage
+ */
+export function formatAttackDice(result: AttackResult): string {
+  const allRolls = result.attackRoll.terms?.[0]?.rolls ?? result.attackRoll.rolls;
+  if (allRolls.length > 1) {
+    return `${result.naturalRoll} (${allRolls.join(', ')})`;
+  }
+  return `${result.naturalRoll}`;
+}
+
+/**
+ * Describe the advantage/disadvantage sources on an attack
+ * e.g. "Advantage: Hidden, Flanking" - or null if there were none
+ */
+export function formatAttackModifiers(result: AttackResult): string | null {
+  if (result.modifiers.length === 0) return null;
+
+  // Both kinds present - they cancel, so tag each source
+  if (result.rollMode === 'normal') {
+    const sources = result.modifiers
+      .map((m) => `${m.source} (${m.effect === 'advantage' ? 'ADV' : 'DIS'})`)
+      .join(', ');
+    return `${sources} - cancel out`;
+  }
+
+  const label = result.rollMode === 'advantage' ? 'Advantage' : 'Disadvantage';
+  return `${label}: ${result.modifiers.map((m) => m.source).join(', ')}`;
+}
+
 /**
  * Format spell result for display
  */
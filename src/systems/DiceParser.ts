@@ -0,0 +1,313 @@
+// DiceParser - parses dice expressions used in abilities.json and items.json
+
+/**
+ * Dice expression grammar:
+ *
+ *   expression := ['+' | '-'] term (('+' | '-') term)*
+ *   term       := dice | integer | stat
+ *   dice       := [integer] 'd' (integer | '%') [keep] ['!']
+ *   keep       := ('kh' | 'kl') [integer]
+ *   stat       := 'ATK' | 'DEF' | 'MAG' | 'RES' | 'SPD'
+ *
+ * Examples: "1d20", "2d6+1d4+2", "2d20kh1" (advantage), "2d20kl1" (disadvantage),
+ * "1d6!" (exploding), "1d8+ATK"
+ */
+
+import { Ability } from '../data/BattleTypes';
+import { ItemData } from '../data/ItemTypes';
+
+// Stat references map onto BaseStats fields
+export type DiceStat = 'ATK' | 'DEF' | 'MAG' | 'RES' | 'SPD';
+export type DiceStatContext = Partial<Record<DiceStat, number>>;
+
+const DICE_STATS: DiceStat[] = ['ATK', 'DEF', 'MAG', 'RES', 'SPD'];
+
+// Limits that keep a typo from rolling thousands of dice
+const MAX_DICE_COUNT = 100;
+const MAX_DICE_SIDES = 1000;
+
+export interface DiceRollNode {
+  kind: 'dice';
+  sign: 1 | -1;
+  source: string; // e.g. "2d20kh1"
+  count: number;
+  sides: number;
+  keep?: { mode: 'highest' | 'lowest'; count: number };
+  explode: boolean;
+}
+
+export interface ConstantNode {
+  kind: 'constant';
+  sign: 1 | -1;
+  source: string; // e.g. "2"
+  value: number;
+}
+
+export interface StatNode {
+  kind: 'stat';
+  sign: 1 | -1;
+  source: string; // e.g. "ATK"
+  stat: DiceStat;
+}
+
+export type DiceTermNode = DiceRollNode | ConstantNode | StatNode;
+
+export interface DiceExpression {
+  notation: string;
+  terms: DiceTermNode[];
+}
+
+/**
+ * Thrown for notation that can't be parsed (or can't be rolled)
+ */
+export class DiceNotationError extends Error {
+  constructor(notation: string, reason: string) {
+    super(`Invalid dice notation "${notation}": ${reason}`);
+    this.name = 'DiceNotationError';
+  }
+}
+
+// Parsed expressions are cached - the same notation strings are rolled every turn
+const expressionCache = new Map<string, DiceExpression>();
+
+/**
+ * Parse a dice expression into its terms
+ * Throws DiceNotationError on malformed input
+ */
+export function parseDiceExpression(notation: string): DiceExpression {
+  const cached = expressionCache.get(notation);
+  if (cached) return cached;
+
+  const parser = new ExpressionParser(notation);
+  const expression = parser.parse();
+  expressionCache.set(notation, expression);
+  return expression;
+}
+
+/**
+ * Check a notation string without rolling it
+ * Returns an error message, or null if the notation is valid
+ */
+export function validateDiceNotation(
+  notation: unknown,
+  options: { allowStats?: boolean } = {}
+): string | null {
+  if (typeof notation !== 'string') {
+    return `Invalid dice notation ${JSON.stringify(notation)}: expected a string`;
+  }
+
+  try {
+    const expression = parseDiceExpression(notation);
+    if (options.allowStats === false) {
+      const statTerm = expression.terms.find(t => t.kind === 'stat');
+      if (statTerm) {
+        return `Invalid dice notation "${notation}": stat reference ${statTerm.source} is not allowed here`;
+      }
+    }
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+// Non-dice duration keywords handled elsewhere in combat
+const DURATION_KEYWORDS = ['next_attack'];
+
+/**
+ * Validate every dice notation field in abilities.json
+ * Returns a list of problems (empty if all notation is valid)
+ */
+export function validateAbilityDice(abilities: Record<string, Ability>): string[] {
+  const errors: string[] = [];
+
+  const check = (id: string, field: string, value: unknown, allowStats: boolean) => {
+    if (value === undefined || typeof value === 'number') return;
+    if (typeof value === 'string' && DURATION_KEYWORDS.includes(value)) return;
+    const error = validateDiceNotation(value, { allowStats });
+    if (error) errors.push(`abilities.${id}.${field}: ${error}`);
+  };
+
+  Object.entries(abilities).forEach(([id, ability]) => {
+    check(id, 'damage', ability.damage, true);
+    check(id, 'healing', ability.healing, true);
+    check(id, 'bonusDamageIfHidden', ability.bonusDamageIfHidden, true);
+    if (ability.effect) {
+      check(id, 'effect.damagePerTurn', ability.effect.damagePerTurn, true);
+      check(id, 'effect.durationOnFail', ability.effect.durationOnFail, false);
+      check(id, 'effect.durationOnSave', ability.effect.durationOnSave, false);
+      check(id, 'effect.duration', ability.effect.duration, false);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Validate dice notation in items.json (item amounts can reference the user's stats, e.g. "1d8+MAG")
+ * Returns a list of problems (empty if all notation is valid)
+ */
+export function validateItemDice(items: Record<string, ItemData>): string[] {
+  const errors: string[] = [];
+
+  Object.entries(items).forEach(([id, item]) => {
+    const amount = item.effect?.amount;
+    if (amount === undefined || typeof amount === 'number') return;
+    const error = validateDiceNotation(amount);
+    if (error) errors.push(`items.${id}.effect.amount: ${error}`);
+  });
+
+  return errors;
+}
+
+/**
+ * Recursive-descent parser over the raw notation string
+ */
+class ExpressionParser {
+  private readonly notation: string;
+  private pos: number = 0;
+
+  constructor(notation: string) {
+    this.notation = notation;
+  }
+
+  parse(): DiceExpression {
+    const terms: DiceTermNode[] = [];
+
+    this.skipWhitespace();
+    if (this.atEnd()) {
+      this.fail('expression is empty');
+    }
+
+    // Optional leading sign
+    let sign: 1 | -1 = 1;
+    if (this.peek() === '+' || this.peek() === '-') {
+      sign = this.next() === '-' ? -1 : 1;
+      this.skipWhitespace();
+    }
+    terms.push(this.parseTerm(sign));
+
+    while (true) {
+      this.skipWhitespace();
+      if (this.atEnd()) break;
+
+      const op = this.next();
+      if (op !== '+' && op !== '-') {
+        this.fail(`unexpected "${op}" at position ${this.pos}`);
+      }
+      this.skipWhitespace();
+      terms.push(this.parseTerm(op === '-' ? -1 : 1));
+    }
+
+    return { notation: this.notation, terms };
+  }
+
+  private parseTerm(sign: 1 | -1): DiceTermNode {
+    const start = this.pos;
+    const char = this.peek();
+
+    if (char === undefined) {
+      this.fail('expected a term after operator');
+    }
+
+    // Stat reference (ATK, DEF, ...) - a bare "d" followed by a size is a die instead
+    const isBareDie = /^d[0-9%]/i.test(this.notation.slice(this.pos));
+    if (/[A-Za-z]/.test(char) && !isBareDie) {
+      const word = this.readWhile(/[A-Za-z]/).toUpperCase();
+      if (!DICE_STATS.includes(word as DiceStat)) {
+        this.fail(`unknown stat "${word}" (expected one of ${DICE_STATS.join(', ')})`);
+      }
+      return { kind: 'stat', sign, source: this.notation.slice(start, this.pos), stat: word as DiceStat };
+    }
+
+    // Integer or dice count
+    const digits = this.readWhile(/[0-9]/);
+    const next = this.peek();
+
+    if (next === 'd' || next === 'D') {
+      this.pos++;
+      const count = digits === '' ? 1 : parseInt(digits, 10);
+      return this.parseDice(sign, start, count);
+    }
+
+    if (digits === '') {
+      this.fail(`unexpected "${char}" at position ${start}`);
+    }
+
+    return { kind: 'constant', sign, source: digits, value: parseInt(digits, 10) };
+  }
+
+  private parseDice(sign: 1 | -1, start: number, count: number): DiceRollNode {
+    let sides: number;
+    if (this.peek() === '%') {
+      this.pos++;
+      sides = 100;
+    } else {
+      const sidesDigits = this.readWhile(/[0-9]/);
+      if (sidesDigits === '') {
+        this.fail(`missing die size at position ${this.pos}`);
+      }
+      sides = parseInt(sidesDigits, 10);
+    }
+
+    if (count < 1 || count > MAX_DICE_COUNT) {
+      this.fail(`dice count must be between 1 and ${MAX_DICE_COUNT}`);
+    }
+    if (sides < 1 || sides > MAX_DICE_SIDES) {
+      this.fail(`die size must be between 1 and ${MAX_DICE_SIDES}`);
+    }
+
+    const node: DiceRollNode = { kind: 'dice', sign, source: '', count, sides, explode: false };
+
+    // Keep highest / lowest
+    const keepMatch = /^k([hl])/i.exec(this.notation.slice(this.pos));
+    if (keepMatch) {
+      this.pos += 2;
+      const keepDigits = this.readWhile(/[0-9]/);
+      const keepCount = keepDigits === '' ? 1 : parseInt(keepDigits, 10);
+      if (keepCount < 1 || keepCount > count) {
+        this.fail(`cannot keep ${keepCount} of ${count} dice`);
+      }
+      node.keep = { mode: keepMatch[1].toLowerCase() === 'h' ? 'highest' : 'lowest', count: keepCount };
+    }
+
+    // Exploding dice
+    if (this.peek() === '!') {
+      this.pos++;
+      if (sides < 2) {
+        this.fail('a d1 cannot explode');
+      }
+      node.explode = true;
+    }
+
+    node.source = this.notation.slice(start, this.pos);
+    return node;
+  }
+
+  private readWhile(pattern: RegExp): string {
+    const start = this.pos;
+    while (!this.atEnd() && pattern.test(this.notation[this.pos])) {
+      this.pos++;
+    }
+    return this.notation.slice(start, this.pos);
+  }
+
+  private skipWhitespace(): void {
+    this.readWhile(/\s/);
+  }
+
+  private peek(): string | undefined {
+    return this.notation[this.pos];
+  }
+
+  private next(): string {
+    return this.notation[this.pos++];
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.notation.length;
+  }
+
+  private fail(reason: string): never {
+    throw new DiceNotationError(this.notation, reason);
+  }
+}
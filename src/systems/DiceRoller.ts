@@ -1,45 +1,107 @@
-import { DiceRoll } from '../data/BattleTypes';
+import { DiceRoll, DiceTermRoll, RollMode } from '../data/BattleTypes';
+import { DiceNotationError, DiceStatContext, DiceTermNode, parseDiceExpression } from './DiceParser';
 
 /**
  * Dice rolling utility for the combat system
- * Supports standard dice notation (e.g., "1d20", "2d6+3")
+ * Supports compound dice notation (e.g., "1d20", "2d6+1d4+2", "2d20kh1") - see DiceParser
  */
 
+// =============================================================================
+// Random Source
+// =============================================================================
+
+/**
+ * A function returning a float in [0, 1), same contract as Math.random
+ */
+export type RandomSource = () => number;
+
+// Every roll goes through this source - swap it for a seeded one to replay battles
+let randomSource: RandomSource = Math.random;
+
+/**
+ * Create a seeded PRNG (mulberry32)
+ * The same seed always produces the same sequence of values
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Replace the random source used by all dice rolls and loot generation
+ */
+export function setRandomSource(source: RandomSource): void {
+  randomSource = source;
+}
+
+/**
+ * Seed the dice with a fresh seeded PRNG
+ */
+export function seedDice(seed: number): void {
+  setRandomSource(createSeededRandom(seed));
+}
+
+/**
+ * Restore the unseeded default (Math.random)
+ */
+export function resetRandomSource(): void {
+  randomSource = Math.random;
+}
+
+/**
+ * Generate a new battle seed (always from Math.random, never the active source)
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0x7fffffff);
+}
+
+/**
+ * Get a float in [0, 1) from the active random source
+ */
+export function randomFloat(): number {
+  return randomSource();
+}
+
 /**
  * Roll a single die with the given number of sides
  */
 export function rollDie(sides: number): number {
-  return Math.floor(Math.random() * sides) + 1;
+  return Math.floor(randomSource() * sides) + 1;
 }
 
+// Exploding dice stop re-rolling after this many extra dice per term
+const MAX_EXPLOSIONS = 20;
+
 /**
  * Parse dice notation and roll
- * Supports: "1d20", "2d6", "1d8+2", "3d6-1"
+ * Supports compound expressions: "1d20", "2d6+1d4+2", "2d20kh1", "1d6!", "1d8+ATK"
+ * Stat references are resolved from the given stats
+ * diceMultiplier scales every dice count (2 for critical hits), constants and stats are unchanged
+ * Throws DiceNotationError if the notation is invalid
  */
-export function rollDice(notation: string): DiceRoll {
-  // Parse notation like "2d6+3" or "1d20"
-  const match = notation.match(/^(\d+)d(\d+)([+-]\d+)?$/i);
-
-  if (!match) {
-    console.error(`Invalid dice notation: ${notation}`);
-    return {
-      dice: notation,
-      rolls: [0],
-      total: 0,
-    };
-  }
-
-  const numDice = parseInt(match[1], 10);
-  const sides = parseInt(match[2], 10);
-  const modifier = match[3] ? parseInt(match[3], 10) : 0;
+export function rollDice(notation: string, stats?: DiceStatContext, diceMultiplier: number = 1): DiceRoll {
+  const expression = parseDiceExpression(notation);
 
+  const terms: DiceTermRoll[] = [];
   const rolls: number[] = [];
   let total = 0;
+  let modifier = 0;
 
-  for (let i = 0; i < numDice; i++) {
-    const roll = rollDie(sides);
-    rolls.push(roll);
-    total += roll;
+  for (const node of expression.terms) {
+    const term = rollTerm(notation, node, stats, diceMultiplier);
+    terms.push(term);
+    if (node.kind === 'dice') {
+      rolls.push(...term.kept);
+      total += term.value;
+    } else {
+      modifier += term.value;
+    }
   }
 
   return {
@@ -48,9 +110,93 @@ export function rollDice(notation: string): DiceRoll {
     total,
     modifier: modifier !== 0 ? modifier : undefined,
     finalTotal: total + modifier,
+    terms,
   };
 }
 
+/**
+ * Roll a single parsed term
+ */
+function rollTerm(
+  notation: string,
+  node: DiceTermNode,
+  stats: DiceStatContext | undefined,
+  diceMultiplier: number
+): DiceTermRoll {
+  switch (node.kind) {
+    case 'constant':
+      return { term: node.source, kind: 'constant', sign: node.sign, rolls: [], kept: [], value: node.sign * node.value };
+
+    case 'stat': {
+      const value = stats?.[node.stat];
+      if (value === undefined) {
+        throw new DiceNotationError(notation, `no ${node.stat} value available to resolve ${node.source}`);
+      }
+      return { term: node.source, kind: 'stat', sign: node.sign, rolls: [], kept: [], value: node.sign * value };
+    }
+
+    case 'dice': {
+      const rolls: number[] = [];
+      for (let i = 0; i < node.count * diceMultiplier; i++) {
+        rolls.push(rollDie(node.sides));
+      }
+
+      // Each max roll adds another die
+      if (node.explode) {
+        let pending = rolls.filter(r => r === node.sides).length;
+        let explosions = 0;
+        while (pending > 0 && explosions < MAX_EXPLOSIONS) {
+          const roll = rollDie(node.sides);
+          rolls.push(roll);
+          explosions++;
+          pending += (roll === node.sides ? 1 : 0) - 1;
+        }
+      }
+
+      let kept = rolls;
+      if (node.keep) {
+        const sorted = [...rolls].sort((a, b) => node.keep!.mode === 'highest' ? b - a : a - b);
+        kept = sorted.slice(0, node.keep.count * diceMultiplier);
+      }
+
+      const sum = kept.reduce((acc, r) => acc + r, 0);
+      return { term: node.source, kind: 'dice', sign: node.sign, rolls, kept, value: node.sign * sum };
+    }
+  }
+}
+
+/**
+ * Expected value of a dice expression (used by the AI to compare abilities)
+ * Keep highest/lowest is approximated as the plain average of the kept dice
+ */
+export function averageDiceRoll(notation: string, stats?: DiceStatContext): number {
+  const expression = parseDiceExpression(notation);
+  let average = 0;
+
+  for (const node of expression.terms) {
+    switch (node.kind) {
+      case 'constant':
+        average += node.sign * node.value;
+        break;
+      case 'stat':
+        average += node.sign * (stats?.[node.stat] ?? 0);
+        break;
+      case 'dice': {
+        let perDie = (node.sides + 1) / 2;
+        if (node.explode) {
+          // Geometric series of re-rolls on the max face
+          perDie = perDie * node.sides / (node.sides - 1);
+        }
+        const count = node.keep ? node.keep.count : node.count;
+        average += node.sign * count * perDie;
+        break;
+      }
+    }
+  }
+
+  return average;
+}
+
 /**
  * Roll initiative: d20 + speed modifier
  */
@@ -67,8 +213,19 @@ export function rollInitiative(speedModifier: number): DiceRoll {
 
 /**
  * Roll an attack: d20 + attack modifier
+ * Advantage rolls 2d20 and keeps the highest, disadvantage keeps the lowest
  */
-export function rollAttack(attackModifier: number): DiceRoll {
+export function rollAttack(attackModifier: number, mode: RollMode = 'normal'): DiceRoll {
+  if (mode !== 'normal') {
+    const notation = mode === 'advantage' ? '2d20kh1' : '2d20kl1';
+    const roll = rollDice(notation);
+    return {
+      ...roll,
+      modifier: attackModifier,
+      finalTotal: roll.total + attackModifier,
+    };
+  }
+
   const roll = rollDie(20);
   return {
     dice: '1d20',
@@ -95,9 +252,10 @@ export function rollSave(resilienceModifier: number): DiceRoll {
 
 /**
  * Roll damage using dice notation
+ * Critical hits roll every damage die twice
  */
-export function rollDamage(notation: string): DiceRoll {
-  return rollDice(notation);
+export function rollDamage(notation: string, stats?: DiceStatContext, critical: boolean = false): DiceRoll {
+  return rollDice(notation, stats, critical ? 2 : 1);
 }
 
 /**
@@ -0,0 +1,120 @@
+// EnemyGroups - enemies from the battle config that aggro together and share a plan
+// AIController wakes a whole group once any member comes within aggro range and asks this
+// module for each member's goal on its turn; the goal then weighs on the member's own turn
+// plan. This module holds the rules that don't need AI state.
+
+import { Ability, BattleConfig, EnemyGroup, Unit } from '../data/BattleTypes';
+import { getUnitDistance } from './CombatResolver';
+import { areAllied } from '../entities/Unit';
+
+// What a group's plan asks of one member this turn
+export interface GroupGoal {
+  target?: Unit; // Hero to attack and close in on
+  flank?: boolean; // Prefer tiles that flank the target
+  guard?: Unit; // Member to stay beside
+  screen?: Unit[]; // Members to keep between this unit and the heroes
+}
+
+/**
+ * Check group definitions - unitIds are every unit the battle can have, waves included
+ * Returns one message per problem (empty if valid)
+ */
+export function validateEnemyGroups(config: BattleConfig, unitIds: string[]): string[] {
+  const errors: string[] = [];
+  const groupIds = new Set<string>();
+  const grouped = new Set<string>();
+
+  for (const group of config.enemyGroups ?? []) {
+    const label = `${config.id}.enemyGroups.${group.id}`;
+    if (groupIds.has(group.id)) {
+      errors.push(`${label}: duplicate group id`);
+    }
+    groupIds.add(group.id);
+
+    if (group.members.length === 0) {
+      errors.push(`${label}: group has no members`);
+    }
+    for (const member of group.members) {
+      if (!unitIds.includes(member)) {
+        errors.push(`${label}: no unit with id "${member}"`);
+      } else if (grouped.has(member)) {
+        errors.push(`${label}: "${member}" is already in another group`);
+      }
+      grouped.add(member);
+    }
+
+    if (group.tactic === 'defend' && (!group.defend || !group.members.includes(group.defend))) {
+      errors.push(`${label}: defend groups need a member to defend`);
+    } else if (group.tactic !== 'defend' && group.defend) {
+      errors.push(`${label}: only defend groups have a member to defend`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * The group a unit belongs to, if any
+ */
+export function getUnitGroup(groups: EnemyGroup[], unit: Unit): EnemyGroup | undefined {
+  return groups.find(group => group.members.includes(unit.id));
+}
+
+/**
+ * Group members still fighting - conscious, and not fleeing
+ */
+export function getGroupMembers(group: EnemyGroup, units: Unit[]): Unit[] {
+  return units.filter(u => group.members.includes(u.id) && !u.isUnconscious && !u.broken);
+}
+
+/**
+ * What the group's plan asks of a member this turn
+ * Targets are picked from shared battle state, so every member settles on the same hero.
+ */
+export function getGroupGoal(
+  group: EnemyGroup,
+  unit: Unit,
+  units: Unit[],
+  abilities: Record<string, Ability>
+): GroupGoal {
+  const members = getGroupMembers(group, units);
+  const heroes = units.filter(u => !areAllied(u, unit) && !u.isUnconscious);
+  if (heroes.length === 0) return {};
+
+  // Ties go to the hero the group as a whole is closest to
+  const groupDistance = (hero: Unit) => members.reduce((total, m) => total + getUnitDistance(m, hero), 0);
+  const pick = (score: (hero: Unit) => number) =>
+    [...heroes].sort((a, b) => score(a) - score(b) || groupDistance(a) - groupDistance(b))[0];
+
+  switch (group.tactic) {
+    case 'focus_fire':
+      return { target: pick(hero => hero.currentHp / hero.maxHp) };
+
+    case 'surround': {
+      // The hero furthest from help - the largest gap to their nearest ally
+      const isolation = (hero: Unit) => Math.min(
+        ...heroes.filter(h => h !== hero).map(h => getUnitDistance(hero, h)),
+        Infinity
+      );
+      return { target: pick(hero => -isolation(hero)), flank: true };
+    }
+
+    case 'screen': {
+      if (!isCaster(unit, abilities)) return {};
+      return { screen: members.filter(m => !isCaster(m, abilities)) };
+    }
+
+    case 'defend': {
+      const ward = members.find(m => m.id === group.defend);
+      if (!ward || ward === unit) return {};
+      return { guard: ward, target: pick(hero => getUnitDistance(ward, hero)) };
+    }
+  }
+}
+
+/**
+ * Casters fight with spells alone - units without a weapon attack
+ */
+function isCaster(unit: Unit, abilities: Record<string, Ability>): boolean {
+  return !unit.abilities.some(id => abilities[id]?.type === 'attack');
+}
@@ -1,11 +1,30 @@
 import { GAME_CONFIG } from '../config';
-import { Unit, TerrainType } from '../data/BattleTypes';
+import { Unit, TerrainType, Position } from '../data/BattleTypes';
+import { areAllied, getClosestTile, getFootprint } from '../entities/Unit';
+
+// Elevation: neighbouring tiles more than this many levels apart can't be stepped between
+// (stairs and ramps are single-level steps; pits and catwalk edges are bigger drops)
+export const MAX_CLIMB_HEIGHT = 1;
+
+// Extra movement per level climbed - stepping down costs nothing extra
+const CLIMB_COST_PER_LEVEL = 1;
 
 interface GridCell {
   x: number;
   y: number;
   terrain: TerrainType;
+  elevation: number;
   unit: Unit | null;
+  cover: boolean; // Cover from a prop on top of the terrain
+}
+
+/**
+ * Result of tracing a line of sight between two tiles
+ */
+export interface LineOfSight {
+  clear: boolean;
+  blockedAt?: Position; // First wall tile on the line when blocked
+  cover: boolean; // Partial cover on the line or under the target
 }
 
 interface PathNode {
@@ -19,7 +38,7 @@ interface PathNode {
 
 /**
  * GridManager handles all grid-based operations for the battle system:
- * - Terrain queries
+ * - Terrain and elevation queries
  * - Unit position tracking
  * - Pathfinding (A*)
  * - Movement range calculation
@@ -30,7 +49,7 @@ export class GridManager {
   private width: number;
   private height: number;
 
-  constructor(terrainData: number[][], width: number, height: number) {
+  constructor(terrainData: number[][], width: number, height: number, elevationData?: number[][]) {
     this.width = width;
     this.height = height;
     this.grid = [];
@@ -43,7 +62,9 @@ export class GridManager {
           x,
           y,
           terrain: (terrainData[y]?.[x] ?? 0) as TerrainType,
+          elevation: elevationData?.[y]?.[x] ?? 0,
           unit: null,
+          cover: false,
         };
       }
     }
@@ -67,6 +88,18 @@ export class GridManager {
     return cell ? cell.terrain : TerrainType.Impassable;
   }
 
+  getElevation(x: number, y: number): number {
+    return this.getCell(x, y)?.elevation ?? 0;
+  }
+
+  /**
+   * Check if a unit can step between two neighbouring tiles (flying units ignore height)
+   */
+  canStep(fromX: number, fromY: number, toX: number, toY: number, flying?: boolean): boolean {
+    if (flying) return true;
+    return Math.abs(this.getElevation(toX, toY) - this.getElevation(fromX, fromY)) <= MAX_CLIMB_HEIGHT;
+  }
+
   isWalkable(x: number, y: number, flying?: boolean): boolean {
     // Flying units can move over any terrain (except off-map)
     if (flying) return this.isValidPosition(x, y);
@@ -84,27 +117,47 @@ export class GridManager {
     return cell?.unit ?? null;
   }
 
+  /**
+   * Check if a unit could stand with its top-left tile at (x, y) - every tile it would
+   * cover is walkable and free of other units
+   */
+  hasRoomFor(unit: Unit, x: number, y: number): boolean {
+    return getFootprint(unit, x, y).every(tile => {
+      if (!this.isWalkable(tile.x, tile.y, unit.flying)) return false;
+      const occupant = this.getUnitAt(tile.x, tile.y);
+      return !occupant || occupant === unit;
+    });
+  }
+
   // ============================================
   // Unit Position Management
   // ============================================
 
+  /**
+   * Place a unit with its top-left tile at (x, y) - a boss reserves every tile it covers
+   */
   placeUnit(unit: Unit, x: number, y: number): void {
     // Remove from old position if exists
     this.removeUnit(unit);
 
     // Place at new position
-    const cell = this.getCell(x, y);
-    if (cell) {
-      cell.unit = unit;
-      unit.gridX = x;
-      unit.gridY = y;
+    if (!this.isValidPosition(x, y)) return;
+    for (const tile of getFootprint(unit, x, y)) {
+      const cell = this.getCell(tile.x, tile.y);
+      if (cell) {
+        cell.unit = unit;
+      }
     }
+    unit.gridX = x;
+    unit.gridY = y;
   }
 
   removeUnit(unit: Unit): void {
-    const cell = this.getCell(unit.gridX, unit.gridY);
-    if (cell && cell.unit === unit) {
-      cell.unit = null;
+    for (const tile of getFootprint(unit)) {
+      const cell = this.getCell(tile.x, tile.y);
+      if (cell && cell.unit === unit) {
+        cell.unit = null;
+      }
     }
   }
 
@@ -157,18 +210,11 @@ export class GridManager {
       for (const neighbor of neighbors) {
         const { x: nx, y: ny } = neighbor;
 
-        if (!this.isValidPosition(nx, ny)) continue;
-        if (!this.isWalkable(nx, ny, unit.flying)) continue;
-
         // Can move through allies and unconscious enemies, but not conscious enemies
-        const occupant = this.getUnitAt(nx, ny);
-        if (occupant && occupant !== unit) {
-          // Block movement through conscious enemies only
-          if (occupant.team !== unit.team && !occupant.isUnconscious) continue;
-          // Can path through allies and unconscious enemies (but can't stop on them - handled in filter below)
-        }
+        // (and can't stop on them - handled in filter below)
+        if (!this.canPass(unit, x, y, nx, ny)) continue;
 
-        const moveCost = this.getMoveCost(nx, ny, unit.flying);
+        const moveCost = this.getUnitStepCost(unit, x, y, nx, ny);
         const newRemaining = remaining - moveCost;
 
         if (newRemaining < 0) continue;
@@ -185,7 +231,7 @@ export class GridManager {
     }
 
     // Filter out tiles occupied by other units (can move through allies but not stop on them)
-    return reachable.filter(({ x, y }) => !this.isOccupied(x, y));
+    return reachable.filter(({ x, y }) => this.hasRoomFor(unit, x, y));
   }
 
   /**
@@ -199,7 +245,8 @@ export class GridManager {
       case TerrainType.Normal:
         return 1;
       case TerrainType.Difficult:
-        return 2; // Difficult terrain costs 2 movement
+      case TerrainType.Cover:
+        return 2; // Difficult terrain and cover cost 2 movement
       case TerrainType.Impassable:
         return Infinity;
       default:
@@ -207,6 +254,41 @@ export class GridManager {
     }
   }
 
+  /**
+   * Movement cost of stepping onto a neighbouring tile - terrain cost plus any climb
+   */
+  getStepCost(fromX: number, fromY: number, toX: number, toY: number, flying?: boolean): number {
+    const cost = this.getMoveCost(toX, toY, flying);
+    if (flying) return cost;
+    const climb = Math.max(0, this.getElevation(toX, toY) - this.getElevation(fromX, fromY));
+    return cost + climb * CLIMB_COST_PER_LEVEL;
+  }
+
+  /**
+   * Check if a unit can step its whole footprint one tile over - every covered tile must be
+   * walkable, within climbing reach of the tile it leaves and clear of conscious enemies
+   */
+  private canPass(unit: Unit, fromX: number, fromY: number, toX: number, toY: number): boolean {
+    const from = getFootprint(unit, fromX, fromY);
+    return getFootprint(unit, toX, toY).every((tile, i) => {
+      if (!this.isValidPosition(tile.x, tile.y)) return false;
+      if (!this.isWalkable(tile.x, tile.y, unit.flying)) return false;
+      if (!this.canStep(from[i].x, from[i].y, tile.x, tile.y, unit.flying)) return false;
+      const occupant = this.getUnitAt(tile.x, tile.y);
+      return !occupant || occupant === unit || areAllied(occupant, unit) || occupant.isUnconscious;
+    });
+  }
+
+  /**
+   * Movement cost of a unit's step - a boss pays for the most expensive tile it moves onto
+   */
+  private getUnitStepCost(unit: Unit, fromX: number, fromY: number, toX: number, toY: number): number {
+    const from = getFootprint(unit, fromX, fromY);
+    return Math.max(...getFootprint(unit, toX, toY).map((tile, i) =>
+      this.getStepCost(from[i].x, from[i].y, tile.x, tile.y, unit.flying)
+    ));
+  }
+
   // ============================================
   // Pathfinding (A*)
   // ============================================
@@ -223,8 +305,7 @@ export class GridManager {
     unit: Unit
   ): { x: number; y: number }[] | null {
     if (!this.isValidPosition(goalX, goalY)) return null;
-    if (!this.isWalkable(goalX, goalY, unit.flying)) return null;
-    if (this.isOccupied(goalX, goalY)) return null;
+    if (!this.hasRoomFor(unit, goalX, goalY)) return null;
 
     const openSet: PathNode[] = [];
     const closedSet = new Set<string>();
@@ -274,19 +355,13 @@ export class GridManager {
       for (const neighbor of neighbors) {
         const { x: nx, y: ny } = neighbor;
 
-        if (!this.isValidPosition(nx, ny)) continue;
-        if (!this.isWalkable(nx, ny, unit.flying)) continue;
         if (closedSet.has(key(nx, ny))) continue;
 
         // Can move through allies and unconscious enemies (matching getMovementRange logic)
-        const occupant = this.getUnitAt(nx, ny);
-        if (occupant && occupant !== unit) {
-          // Block movement through conscious enemies only
-          if (occupant.team !== unit.team && !occupant.isUnconscious) continue;
-          // Can path through allies and unconscious enemies (but can't stop on them - goal check above ensures this)
-        }
+        // but can't stop on them - goal check above ensures this
+        if (!this.canPass(unit, current.x, current.y, nx, ny)) continue;
 
-        const moveCost = this.getMoveCost(nx, ny, unit.flying);
+        const moveCost = this.getUnitStepCost(unit, current.x, current.y, nx, ny);
         const tentativeG = current.g + moveCost;
 
         // Check if already in open set with better score
@@ -338,6 +413,70 @@ export class GridManager {
     return this.getDistance(attackerX, attackerY, targetX, targetY) <= range;
   }
 
+  /**
+   * Mark a tile as giving partial cover (e.g. a crate prop) regardless of its terrain
+   */
+  setCover(x: number, y: number): void {
+    const cell = this.getCell(x, y);
+    if (cell) {
+      cell.cover = true;
+    }
+  }
+
+  hasCover(x: number, y: number): boolean {
+    const cell = this.getCell(x, y);
+    return !!cell && (cell.cover || cell.terrain === TerrainType.Cover);
+  }
+
+  /**
+   * Trace a line between tile centres (every tile the line touches, end tiles excluded)
+   * Impassable tiles block sight. Where the line passes exactly through a corner it only
+   * needs one of the two tiles beside the corner to be open. Cover on the line or under
+   * the target tile is reported but doesn't block - except cover right next to the
+   * attacker, which they shoot over.
+   */
+  getLineOfSight(fromX: number, fromY: number, toX: number, toY: number): LineOfSight {
+    const nx = Math.abs(toX - fromX);
+    const ny = Math.abs(toY - fromY);
+    const stepX = Math.sign(toX - fromX);
+    const stepY = Math.sign(toY - fromY);
+    const isWall = (x: number, y: number) => this.getTerrain(x, y) === TerrainType.Impassable;
+    const coversTarget = (x: number, y: number) =>
+      Math.max(Math.abs(x - fromX), Math.abs(y - fromY)) > 1 && this.hasCover(x, y);
+
+    let cover = coversTarget(toX, toY);
+    let x = fromX;
+    let y = fromY;
+    for (let ix = 0, iy = 0; ix < nx || iy < ny;) {
+      // Compare where the line next crosses a vertical vs a horizontal tile edge
+      const decision = (1 + 2 * ix) * ny - (1 + 2 * iy) * nx;
+      if (decision === 0) {
+        if (isWall(x + stepX, y) && isWall(x, y + stepY)) {
+          return { clear: false, blockedAt: { x: x + stepX, y }, cover };
+        }
+        cover = cover || coversTarget(x + stepX, y) || coversTarget(x, y + stepY);
+        x += stepX;
+        y += stepY;
+        ix++;
+        iy++;
+      } else if (decision < 0) {
+        x += stepX;
+        ix++;
+      } else {
+        y += stepY;
+        iy++;
+      }
+
+      if (x === toX && y === toY) break;
+      if (isWall(x, y)) {
+        return { clear: false, blockedAt: { x, y }, cover };
+      }
+      cover = cover || coversTarget(x, y);
+    }
+
+    return { clear: true, cover };
+  }
+
   /**
    * Get all tiles within range (for ability targeting)
    */
@@ -369,9 +508,10 @@ export class GridManager {
     range: number,
     units: Unit[]
   ): Unit[] {
-    return units.filter(
-      u => this.getDistance(centerX, centerY, u.gridX, u.gridY) <= range
-    );
+    return units.filter(u => {
+      const nearest = getClosestTile(u, centerX, centerY);
+      return this.getDistance(centerX, centerY, nearest.x, nearest.y) <= range;
+    });
   }
 
   // ============================================
@@ -0,0 +1,113 @@
+// Hazards - fire, acid, steam vents and traps from the battle config
+// Each hazard becomes a permanent zone when the battle starts. BattleEngine applies zones
+// on entry and at turn start, switches cycling zones at the end of each round and toggles
+// zones whose lever a unit interacts with; this module holds the rules that don't need
+// engine state.
+
+import { BattleConfig, BattleState, HazardPlacement, ObjectivePlacement, Unit, Zone, ZoneCycle } from '../data/BattleTypes';
+import { isStatusEffectType } from './StatusEffectRegistry';
+import { getDistance } from './CombatResolver';
+import { validateDiceNotation } from './DiceParser';
+
+/**
+ * Check hazard definitions - switch IDs mustn't clash with objective objects or each other
+ * Returns one message per problem (empty if valid)
+ */
+export function validateHazards(config: BattleConfig): string[] {
+  const errors: string[] = [];
+  const hazardIds = new Set<string>();
+  const victory = config.victoryCondition;
+  const objectIds = victory && victory !== 'defeat_all' && victory.type === 'interact' ? victory.objects.map(o => o.id) : [];
+  const switchIds = new Set<string>(objectIds);
+
+  for (const hazard of config.hazards ?? []) {
+    const label = `${config.id}.hazards.${hazard.id}`;
+    if (hazardIds.has(hazard.id)) {
+      errors.push(`${label}: duplicate hazard id`);
+    }
+    hazardIds.add(hazard.id);
+
+    const { x1, y1, x2, y2 } = hazard.bounds;
+    if (x1 > x2 || y1 > y2 || x1 < 0 || y1 < 0 || x2 >= config.gridWidth || y2 >= config.gridHeight) {
+      errors.push(`${label}: bounds must be a rectangle on the grid`);
+    }
+
+    if (hazard.triggers.length === 0 && !hazard.switch) {
+      errors.push(`${label}: hazard has no triggers`);
+    }
+    if (!hazard.damage && !hazard.status) {
+      errors.push(`${label}: hazard needs damage or a status`);
+    }
+    // Hazards have no user, so their damage can't reference stats
+    const damageError = hazard.damage && validateDiceNotation(hazard.damage, { allowStats: false });
+    if (damageError) {
+      errors.push(`${label}.damage: ${damageError}`);
+    }
+    if (hazard.status && !isStatusEffectType(hazard.status.type)) {
+      errors.push(`${label}: unknown status "${hazard.status.type}"`);
+    }
+
+    const { cycle } = hazard;
+    const activeRounds = cycle?.activeRounds ?? 1;
+    if (cycle && (cycle.period < 2 || activeRounds < 1 || activeRounds >= cycle.period)) {
+      errors.push(`${label}: cycle needs period 2 or more and 1 to period-1 active rounds`);
+    }
+    if (cycle && (cycle.offset ?? 0) < 0) {
+      errors.push(`${label}: cycle offset can't be negative`);
+    }
+
+    if (hazard.switch) {
+      if (switchIds.has(hazard.switch.id)) {
+        errors.push(`${label}: switch id "${hazard.switch.id}" is already used`);
+      }
+      switchIds.add(hazard.switch.id);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Permanent zones for the config's hazards, switched on or off for round 1
+ */
+export function createHazardZones(config: BattleConfig): Zone[] {
+  return (config.hazards ?? []).map((hazard: HazardPlacement) => {
+    const { x1, y1, x2, y2 } = hazard.bounds;
+    return {
+      id: hazard.id,
+      type: hazard.type,
+      name: hazard.name,
+      originX: x1,
+      originY: y1,
+      width: x2 - x1 + 1,
+      height: y2 - y1 + 1,
+      triggers: hazard.triggers,
+      damage: hazard.damage,
+      damageOnSave: hazard.damageOnSave ?? 'half',
+      status: hazard.status,
+      active: hazard.cycle ? isCycleActive(hazard.cycle, 1) : !hazard.startsInactive,
+      cycle: hazard.cycle,
+      once: hazard.once,
+      switch: hazard.switch,
+    };
+  });
+}
+
+/**
+ * Whether a cycling zone is on during a round
+ */
+export function isCycleActive(cycle: ZoneCycle, round: number): boolean {
+  const roundsIntoCycle = round - 1 - (cycle.offset ?? 0);
+  return roundsIntoCycle >= 0 && roundsIntoCycle % cycle.period < (cycle.activeRounds ?? 1);
+}
+
+/**
+ * Hazard zones whose lever the unit is standing on or next to
+ */
+export function getReachableSwitches(state: BattleState, unit: Unit): ObjectivePlacement[] {
+  return state.zones
+    .map(zone => zone.switch)
+    .filter((lever): lever is ObjectivePlacement =>
+      !!lever && getDistance(unit.gridX, unit.gridY, lever.x, lever.y) <= 1
+    );
+}
@@ -7,6 +7,7 @@ import {
   EQUIPMENT_IDS,
 } from '../data/ItemTypes';
 import { InventoryManager } from './InventoryManager';
+import { randomFloat } from './DiceRoller';
 
 export class LootManager {
   private chestStates: Record<string, ChestState>;
@@ -39,8 +40,8 @@ export class LootManager {
     // Calculate total weight
     const totalWeight = allItems.reduce((sum, item) => sum + item.lootWeight, 0);
 
-    // Roll for item
-    let roll = Math.random() * totalWeight;
+    // Roll for item (uses the battle's seeded source when one is active)
+    let roll = randomFloat() * totalWeight;
 
     for (const item of allItems) {
       roll -= item.lootWeight;
@@ -0,0 +1,115 @@
+// Morale - enemies that give up the fight instead of fighting to the last HP
+// An enemy's morale breaks once its HP drops below a threshold or enough of its side has
+// gone down; it then flees for an exit tile or surrenders. BattleEngine checks morale and
+// takes routed enemies out of play, and AIController steers fleeing ones. This module holds
+// the rules that don't need engine state.
+
+import { BattleConfig, BattleState, MoraleProfile, Position, Unit } from '../data/BattleTypes';
+import { areAllied } from '../entities/Unit';
+
+/**
+ * Check the battle's morale overrides and exit tiles
+ * Returns one message per problem (empty if valid)
+ */
+export function validateMorale(config: BattleConfig): string[] {
+  const errors: string[] = [];
+  if (!config.morale) return errors;
+
+  const enemyTypes = new Set([
+    ...config.enemies.map(placement => placement.type),
+    ...(config.reinforcements ?? []).flatMap(wave => wave.enemies.map(placement => placement.type)),
+  ]);
+  for (const [type, profile] of Object.entries(config.morale.enemies ?? {})) {
+    const label = `${config.id}.morale.enemies.${type}`;
+    if (!enemyTypes.has(type)) {
+      errors.push(`${label}: no "${type}" enemies in this battle`);
+    }
+    if (profile) {
+      errors.push(...validateMoraleProfile(profile).map(error => `${label}: ${error}`));
+    }
+  }
+
+  const { exits } = config.morale;
+  if (exits && exits.length === 0) {
+    errors.push(`${config.id}.morale.exits: leave exits out to use the map edges`);
+  }
+  for (const exit of exits ?? []) {
+    if (exit.x < 0 || exit.y < 0 || exit.x >= config.gridWidth || exit.y >= config.gridHeight) {
+      errors.push(`${config.id}.morale.exits: (${exit.x}, ${exit.y}) is off the grid`);
+    }
+  }
+
+  return errors;
+}
+
+function validateMoraleProfile(profile: MoraleProfile): string[] {
+  const errors: string[] = [];
+  const { belowPercent, alliesLostPercent } = profile;
+  if (belowPercent === undefined && alliesLostPercent === undefined) {
+    errors.push('morale needs belowPercent or alliesLostPercent');
+  }
+  if (belowPercent !== undefined && (belowPercent <= 0 || belowPercent > 100)) {
+    errors.push('belowPercent must be above 0 and at most 100');
+  }
+  if (alliesLostPercent !== undefined && (alliesLostPercent <= 0 || alliesLostPercent > 100)) {
+    errors.push('alliesLostPercent must be above 0 and at most 100');
+  }
+  return errors;
+}
+
+/**
+ * The morale a unit fights with in this battle - battle overrides win over enemies.json
+ * Only enemies have morale, and summons never break.
+ */
+export function getMoraleProfile(config: BattleConfig, unit: Unit): MoraleProfile | undefined {
+  if (unit.team !== 'enemy' || unit.summon) return undefined;
+  const override = config.morale?.enemies?.[unit.dataId];
+  if (override === false) return undefined;
+  return override ?? unit.morale;
+}
+
+/**
+ * Whether a unit's morale breaks - its HP is below the threshold, or enough of its side
+ * (itself included, summons not) is down or out of play
+ */
+export function isMoraleBroken(profile: MoraleProfile, unit: Unit, state: BattleState): boolean {
+  if (profile.belowPercent !== undefined && (unit.currentHp / unit.maxHp) * 100 < profile.belowPercent) {
+    return true;
+  }
+
+  if (profile.alliesLostPercent !== undefined) {
+    const side = [...state.units, ...state.routedUnits].filter(u => areAllied(u, unit) && !u.summon);
+    const lost = side.filter(u => u.isUnconscious || state.routedUnits.includes(u));
+    return (lost.length / side.length) * 100 >= profile.alliesLostPercent;
+  }
+
+  return false;
+}
+
+/**
+ * Tiles fleeing enemies leave play from - the battle's exits, or every map edge tile
+ */
+export function getEscapeTiles(config: BattleConfig): Position[] {
+  if (config.morale?.exits) return config.morale.exits;
+
+  const tiles: Position[] = [];
+  for (let y = 0; y < config.gridHeight; y++) {
+    for (let x = 0; x < config.gridWidth; x++) {
+      if (x === 0 || y === 0 || x === config.gridWidth - 1 || y === config.gridHeight - 1) {
+        tiles.push({ x, y });
+      }
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Whether a unit stands on an escape tile (any tile of a large unit's footprint counts)
+ */
+export function isOnEscapeTile(config: BattleConfig, unit: Unit): boolean {
+  const size = unit.size ?? 1;
+  return getEscapeTiles(config).some(tile =>
+    tile.x >= unit.gridX && tile.x < unit.gridX + size &&
+    tile.y >= unit.gridY && tile.y < unit.gridY + size
+  );
+}
@@ -0,0 +1,84 @@
+// Reactions - abilities units use out of turn when an enemy's action triggers them
+// Callers look for triggers before an enemy ability resolves (spells and melee attacks aimed
+// at a unit) and after it (melee hits and units dropping to 0 HP), ask BattleEngine.getReactions who can
+// answer each one and execute the reactions taken. A Counterspell is passed back on the
+// enemy's ability command as a countered target.
+
+import { Ability, ReactionTrigger, Unit } from '../data/BattleTypes';
+import { AbilityOutcome, ReactionOpportunity } from './BattleEngine';
+import { canUseAbility, getUnitDistance, isMeleeAttack } from './CombatResolver';
+import { areAllied, getTurnSkippingEffect } from '../entities/Unit';
+
+// A moment in an enemy's action that reactions can answer
+export interface ReactionWindow {
+  trigger: ReactionTrigger;
+  subject: Unit; // Unit that was targeted, hit or downed
+}
+
+/**
+ * Triggers an enemy ability sets off before it resolves - each opponent its spell or melee
+ * attack targets
+ */
+export function getTriggersBeforeAbility(unit: Unit, ability: Ability, targets: Unit[]): ReactionWindow[] {
+  let trigger: ReactionTrigger;
+  if (ability.type === 'spell' || ability.type === 'debuff') {
+    trigger = 'targeted_by_spell';
+  } else if (isMeleeAttack(ability)) {
+    trigger = 'targeted_by_melee';
+  } else {
+    return [];
+  }
+  return targets
+    .filter(target => !areAllied(target, unit))
+    .map(subject => ({ trigger, subject }));
+}
+
+/**
+ * Triggers set off once an enemy ability has resolved - melee hits, and anyone it dropped
+ */
+export function getTriggersAfterAbility(outcome: AbilityOutcome): ReactionWindow[] {
+  const windows: ReactionWindow[] = [];
+  for (const { target, attack, defeated } of outcome.targets) {
+    if (areAllied(target, outcome.unit)) continue;
+    if (defeated) {
+      windows.push({ trigger: 'ally_downed', subject: target });
+    } else if (attack?.hit && isMeleeAttack(outcome.ability)) {
+      windows.push({ trigger: 'hit_by_melee', subject: target });
+    }
+  }
+  return windows;
+}
+
+/**
+ * Reactions the subject's side can take to a trigger - one per unit and ability
+ * Reactions aimed at the enemy (Riposte) answer only for the unit itself; the rest reach
+ * any ally within the ability's range. Units that can't act or have already reacted this
+ * round are left out.
+ */
+export function findReactions(
+  units: Unit[],
+  abilities: Record<string, Ability>,
+  trigger: ReactionTrigger,
+  source: Unit,
+  subject: Unit
+): ReactionOpportunity[] {
+  const reactions: ReactionOpportunity[] = [];
+
+  for (const unit of units) {
+    if (!areAllied(unit, subject) || unit.isUnconscious || unit.reactionsRemaining <= 0) continue;
+    if (getTurnSkippingEffect(unit)) continue;
+
+    for (const ability of unit.abilities.map(id => abilities[id])) {
+      if (ability?.reaction?.trigger !== trigger || !canUseAbility(unit, ability).canUse) continue;
+
+      const inReach = ability.targetType === 'enemy'
+        ? subject === unit && !source.isUnconscious && getUnitDistance(unit, source) <= ability.range
+        : getUnitDistance(unit, subject) <= ability.range;
+      if (inReach) {
+        reactions.push({ unit, ability, trigger, source, subject });
+      }
+    }
+  }
+
+  return reactions;
+}
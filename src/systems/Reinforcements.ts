@@ -0,0 +1,111 @@
+// Reinforcements - mid-battle enemy waves from the battle config
+// Waves arrive on a round, when a hero steps into a region, or when an enemy's HP drops
+// below a threshold. BattleEngine checks the triggers and spawns the units; this module
+// holds the rules that don't need engine state.
+
+import { BattleConfig, BattleState, Position, ReinforcementWave, Unit } from '../data/BattleTypes';
+import { GridManager } from './GridManager';
+
+/**
+ * Instance IDs for every wave's enemies, numbered after the starting enemies in config order
+ * (e.g. a second "cultist_mook" wave unit is "cultist_mook_3" if two start on the field).
+ * IDs don't depend on which wave arrives first, so objectives and triggers can reference them.
+ */
+export function getReinforcementUnitIds(config: BattleConfig): Record<string, string[]> {
+  const instanceCounts: Record<string, number> = {};
+  for (const placement of config.enemies) {
+    instanceCounts[placement.type] = (instanceCounts[placement.type] || 0) + 1;
+  }
+
+  const ids: Record<string, string[]> = {};
+  for (const wave of config.reinforcements ?? []) {
+    ids[wave.id] = wave.enemies.map((placement) => {
+      instanceCounts[placement.type] = (instanceCounts[placement.type] || 0) + 1;
+      return `${placement.type}_${instanceCounts[placement.type]}`;
+    });
+  }
+  return ids;
+}
+
+/**
+ * Check wave definitions - unitIds are every unit the battle can have, waves included
+ * Returns one message per problem (empty if valid)
+ */
+export function validateReinforcements(config: BattleConfig, unitIds: string[]): string[] {
+  const errors: string[] = [];
+  const waveIds = new Set<string>();
+
+  for (const wave of config.reinforcements ?? []) {
+    const label = `${config.id}.reinforcements.${wave.id}`;
+    if (waveIds.has(wave.id)) {
+      errors.push(`${label}: duplicate wave id`);
+    }
+    waveIds.add(wave.id);
+
+    if (wave.enemies.length === 0) {
+      errors.push(`${label}: wave has no enemies`);
+    }
+    for (const placement of wave.enemies) {
+      if (placement.x < 0 || placement.x >= config.gridWidth || placement.y < 0 || placement.y >= config.gridHeight) {
+        errors.push(`${label}: spawn tile ${placement.x},${placement.y} is off the grid`);
+      }
+    }
+
+    const { trigger } = wave;
+    if (trigger.type === 'round' && trigger.round < 1) {
+      errors.push(`${label}: round trigger needs round 1 or later`);
+    } else if (trigger.type === 'enemy_hp' && !unitIds.includes(trigger.unitId)) {
+      errors.push(`${label}: no unit with id "${trigger.unitId}"`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Whether a wave's trigger condition currently holds
+ */
+export function isWaveTriggered(wave: ReinforcementWave, state: BattleState): boolean {
+  const { trigger } = wave;
+  switch (trigger.type) {
+    case 'round':
+      return state.round >= trigger.round;
+
+    case 'region': {
+      const { x1, y1, x2, y2 } = trigger.bounds;
+      return state.units.some(u =>
+        u.team === 'hero' && !u.isUnconscious &&
+        u.gridX >= x1 && u.gridX <= x2 && u.gridY >= y1 && u.gridY <= y2
+      );
+    }
+
+    case 'enemy_hp': {
+      // A unit that fled or surrendered is gone for good, so its wave comes anyway
+      if (state.routedUnits.some(u => u.id === trigger.unitId)) return true;
+      const unit = state.units.find(u => u.id === trigger.unitId);
+      return !!unit && (unit.isUnconscious || (unit.currentHp / unit.maxHp) * 100 < trigger.belowPercent);
+    }
+  }
+}
+
+/**
+ * Nearest tile to a unit's spawn point (its current gridX/gridY) with room for its whole
+ * footprint - the spawn point itself if it fits
+ * Searches outward ring by ring - returns null if there's no room anywhere.
+ */
+export function findSpawnTile(gridManager: GridManager, config: BattleConfig, unit: Unit): Position | null {
+  const { gridX: x, gridY: y } = unit;
+  const isFree = (tx: number, ty: number) =>
+    gridManager.isValidPosition(tx, ty) && gridManager.hasRoomFor(unit, tx, ty);
+
+  const maxDistance = config.gridWidth + config.gridHeight;
+  for (let distance = 0; distance <= maxDistance; distance++) {
+    for (let dx = -distance; dx <= distance; dx++) {
+      const dy = distance - Math.abs(dx);
+      if (isFree(x + dx, y + dy)) return { x: x + dx, y: y + dy };
+      if (dy !== 0 && isFree(x + dx, y - dy)) return { x: x + dx, y: y - dy };
+    }
+  }
+
+  return null;
+}
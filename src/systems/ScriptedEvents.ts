@@ -0,0 +1,73 @@
+// ScriptedEvents - mid-battle dialogue from the battle config
+// BattleEngine matches each event it emits against the config's scripted events and
+// announces the ones that trigger; BattleScene plays their dialogue at the next pause point
+// (turn start, or after a hero's move) and sets their game flags.
+
+import { BattleConfig, BattleState, ScriptedEvent, ScriptedEventTrigger } from '../data/BattleTypes';
+import { BattleEvent } from './BattleEngine';
+
+/**
+ * Check scripted event definitions - unitIds are every unit the battle can have, waves included
+ * Returns one message per problem (empty if valid)
+ */
+export function validateScriptedEvents(config: BattleConfig, unitIds: string[]): string[] {
+  const errors: string[] = [];
+  const eventIds = new Set<string>();
+
+  for (const scripted of config.scriptedEvents ?? []) {
+    const label = `${config.id}.scriptedEvents.${scripted.id}`;
+    if (eventIds.has(scripted.id)) {
+      errors.push(`${label}: duplicate event id`);
+    }
+    eventIds.add(scripted.id);
+
+    if (scripted.dialogue.length === 0) {
+      errors.push(`${label}: event has no dialogue`);
+    }
+
+    const { trigger } = scripted;
+    const unitId = 'unitId' in trigger ? trigger.unitId : undefined;
+    if (unitId !== undefined && !unitIds.includes(unitId)) {
+      errors.push(`${label}: no unit with id "${unitId}"`);
+    }
+    if (trigger.type === 'round_start' && trigger.round < 1) {
+      errors.push(`${label}: round trigger needs round 1 or later`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Scripted events that haven't fired yet and are triggered by this engine event
+ */
+export function getTriggeredScriptedEvents(state: BattleState, event: BattleEvent): ScriptedEvent[] {
+  return (state.config.scriptedEvents ?? []).filter(scripted =>
+    !state.firedScriptedEvents.includes(scripted.id) && matchesTrigger(scripted.trigger, event)
+  );
+}
+
+function matchesTrigger(trigger: ScriptedEventTrigger, event: BattleEvent): boolean {
+  switch (trigger.type) {
+    case 'round_start':
+      return event.type === 'round_start' && event.round === trigger.round;
+
+    case 'unit_hp':
+      return event.type === 'damage' &&
+        event.unit.id === trigger.unitId &&
+        (event.unit.currentHp / event.unit.maxHp) * 100 < trigger.belowPercent;
+
+    case 'unit_defeated':
+      return event.type === 'unit_defeated' && event.unit.id === trigger.unitId;
+
+    case 'hero_enters_tile':
+      return event.type === 'unit_moved' &&
+        event.unit.team === 'hero' &&
+        event.path.some(step => step.x === trigger.x && step.y === trigger.y);
+
+    case 'ability_used':
+      return event.type === 'ability_used' &&
+        event.ability.id === trigger.abilityId &&
+        (trigger.unitId === undefined || event.unit.id === trigger.unitId);
+  }
+}
@@ -0,0 +1,183 @@
+import { StatusEffectType } from '../data/BattleTypes';
+
+/**
+ * Status Effect Registry
+ * Every status condition declares its behaviour here - tick timing, damage/heal per tick,
+ * stat modifiers, stacking and break conditions. The combat code reads these definitions
+ * instead of special-casing each effect type.
+ */
+
+// When an effect's duration counts down (and its per-tick damage/healing applies)
+export type StatusTickTiming = 'turn_start' | 'never';
+
+// What happens when an effect is applied to a unit that already has it
+//   replace - the new effect overwrites the old one
+//   refresh - keep whichever has the longer duration and higher value
+//   stack   - durations add together
+//   ignore  - the existing effect stays untouched
+export type StatusStackingRule = 'replace' | 'refresh' | 'stack' | 'ignore';
+
+// Events that end an effect early
+//   attack       - the unit makes an attack
+//   damage_taken - the unit takes damage from any source
+//   hit          - the unit is hit by an attack
+export type StatusBreakCondition = 'attack' | 'damage_taken' | 'hit';
+
+// Stats a status effect can adjust
+export type StatusModifiedStat = 'attack' | 'defense' | 'resilience' | 'damage';
+
+export interface StatusEffectDefinition {
+  label: string; // Display name for the combat log
+  color: number; // Border/marker color in the UI
+  negative: boolean; // Removable by Restoration-style cleanses
+  tick: StatusTickTiming;
+  damagePerTick?: number | 'value'; // 'value' uses the effect instance's value (e.g. rolled poison damage)
+  healPerTick?: number | 'value';
+  statModifiers?: Partial<Record<StatusModifiedStat, number>>; // Flat bonus, negative for penalties
+  scalesWithValue?: boolean; // The instance value replaces the magnitude of each stat modifier
+  skipsTurn?: boolean; // Unit loses its turn while affected
+  preventsMovement?: boolean; // Unit can't move while affected
+  avoidsOpportunityAttacks?: boolean; // Unit can leave enemy reach without provoking
+  stacking: StatusStackingRule;
+  breaksOn?: StatusBreakCondition[]; // Default break conditions (abilities can override)
+}
+
+export const STATUS_EFFECTS: Record<StatusEffectType, StatusEffectDefinition> = {
+  poison: {
+    label: 'poison',
+    color: 0x00ff00, // Green
+    negative: true,
+    tick: 'turn_start',
+    damagePerTick: 'value',
+    stacking: 'replace',
+  },
+  hidden: {
+    label: 'hidden',
+    color: 0x800080, // Purple
+    negative: false,
+    tick: 'turn_start',
+    statModifiers: { defense: 2 },
+    scalesWithValue: true,
+    stacking: 'replace',
+    breaksOn: ['attack', 'damage_taken'],
+  },
+  exposed: {
+    label: 'exposed',
+    color: 0xffa500, // Orange
+    negative: true,
+    tick: 'turn_start',
+    statModifiers: { defense: -2 },
+    scalesWithValue: true,
+    stacking: 'replace',
+    breaksOn: ['hit'], // Lasts until the next attack lands
+  },
+  immobilized: {
+    label: 'immobilized',
+    color: 0x0000ff, // Blue
+    negative: true,
+    tick: 'turn_start',
+    preventsMovement: true,
+    stacking: 'replace',
+  },
+  barkskin: {
+    label: 'barkskin',
+    color: 0x8b4513, // Brown
+    negative: false,
+    tick: 'turn_start',
+    statModifiers: { defense: 2 },
+    scalesWithValue: true,
+    stacking: 'replace',
+  },
+  held: {
+    label: 'held',
+    color: 0x008080, // Teal
+    negative: true,
+    tick: 'turn_start',
+    skipsTurn: true,
+    stacking: 'replace',
+  },
+  unconscious: {
+    label: 'unconscious',
+    color: 0x000000, // Black
+    negative: false,
+    tick: 'never',
+    stacking: 'ignore',
+  },
+  entangle_zone: {
+    label: 'entangle',
+    color: 0x228b22, // Forest Green
+    negative: false, // Zone marker - cleared when the zone ends, not by cleanses
+    tick: 'never',
+    stacking: 'replace',
+  },
+  // Rifthaven buffs
+  rage: {
+    label: 'rage',
+    color: 0xff0000, // Red (aggressive)
+    negative: false,
+    tick: 'turn_start',
+    statModifiers: { attack: 2, damage: 2 },
+    stacking: 'replace',
+  },
+  inspired: {
+    label: 'inspired',
+    color: 0xffd700, // Gold (heroic)
+    negative: false,
+    tick: 'turn_start',
+    statModifiers: { attack: 2, resilience: 2 },
+    stacking: 'replace',
+  },
+  dodge: {
+    label: 'dodge',
+    color: 0x00bfff, // Light blue (evasive)
+    negative: false,
+    tick: 'turn_start',
+    statModifiers: { defense: 2 },
+    scalesWithValue: true,
+    avoidsOpportunityAttacks: true,
+    stacking: 'replace',
+  },
+  disengaged: {
+    label: 'disengaged',
+    color: 0xaaaaaa, // Grey
+    negative: false,
+    tick: 'turn_start', // Applied for 1 - wears off at the unit's next turn
+    avoidsOpportunityAttacks: true,
+    stacking: 'replace',
+  },
+  shielded: {
+    label: 'shielded',
+    color: 0xffd700, // Gold
+    negative: false,
+    tick: 'turn_start',
+    statModifiers: { defense: 2 },
+    scalesWithValue: true,
+    stacking: 'refresh',
+  },
+};
+
+/**
+ * Look up the definition for a status type (undefined for unknown types)
+ */
+export function getStatusDefinition(type: string): StatusEffectDefinition | undefined {
+  return STATUS_EFFECTS[type as StatusEffectType];
+}
+
+/**
+ * Check if a status type is a registered condition
+ */
+export function isStatusEffectType(type: string): type is StatusEffectType {
+  return type in STATUS_EFFECTS;
+}
+
+/**
+ * Negative conditions (the ones cleanses remove)
+ */
+export function isNegativeStatus(type: string): boolean {
+  return getStatusDefinition(type)?.negative ?? false;
+}
+
+// Status effect border colors for UI
+export const STATUS_COLORS = Object.fromEntries(
+  Object.entries(STATUS_EFFECTS).map(([type, def]) => [type, def.color])
+) as Record<StatusEffectType, number>;
@@ -1,6 +1,7 @@
 // XPTracker - tracks XP earned during battle (Phase 5, updated Phase 8)
 
 import { HeroState, SaveManager } from './SaveManager';
+import { MoraleResponse } from '../data/BattleTypes';
 
 export interface XPGain {
   heroId: string;
@@ -25,6 +26,7 @@ export interface BattleXPSummary {
 const XP_PER_DAMAGE = 1; // 1 XP per 1 damage (for 0-cost abilities only)
 const XP_PER_RESOURCE = 4; // 4 XP per mana/ki spent
 const XP_KILL_BONUS = 5;
+const XP_ROUT_BONUS = 3; // Enemies that flee or surrender are worth less than a kill
 const XP_ITEM_USE = 5; // 5 XP for using a consumable item
 const CATCHUP_BONUS = 0.5; // +50% XP if behind highest party level
 
@@ -111,18 +113,26 @@ export class XPTracker {
 
   /**
    * Award XP for getting a kill
+   * Routed enemies (broken morale: fled or surrendered) award reduced XP
    */
-  awardKillXP(heroId: string, enemyName: string): void {
+  awardKillXP(heroId: string, enemyName: string, routed?: MoraleResponse): void {
     if (!this.heroState[heroId]) return;
 
-    const finalXP = this.applyBonus(heroId, XP_KILL_BONUS);
+    const finalXP = this.applyBonus(heroId, routed ? XP_ROUT_BONUS : XP_KILL_BONUS);
+
+    let outcome = `Killed ${enemyName}`;
+    if (routed === 'flee') {
+      outcome = `${enemyName} fled`;
+    } else if (routed === 'surrender') {
+      outcome = `${enemyName} surrendered`;
+    }
 
     this.battleXP[heroId] += finalXP;
     this.xpGains.push({
       heroId,
       source: 'kill',
       amount: finalXP,
-      description: `Killed ${enemyName} → ${finalXP} XP`,
+      description: `${outcome} → ${finalXP} XP`,
     });
   }
 